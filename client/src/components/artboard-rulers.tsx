@@ -0,0 +1,311 @@
+import { useState, useRef, useEffect, useLayoutEffect, useCallback, type RefObject } from "react";
+import type { SheetGuide } from "@shared/schema";
+import type { Language } from "@/lib/i18n";
+import { formatLength, useMetric } from "@/lib/format-length";
+
+export const RULER_SIZE = 18;
+
+// Where the artboard sits inside the canvas area: screen px of its top-left corner and px per inch.
+export interface ArtboardFrame {
+  originX: number;
+  originY: number;
+  pxPerInch: number;
+  areaWidth: number;
+  areaHeight: number;
+}
+
+/**
+ * Tracks the artboard's on-screen frame. The canvas is drawn at boardWidth × boardHeight CSS px
+ * and shown with `scale(zoom) translate(panX, panY)` about its center, so the frame follows from
+ * the untransformed board box and the zoom and pan state.
+ */
+export function useArtboardFrame(
+  areaRef: RefObject<HTMLDivElement>,
+  boardRef: RefObject<HTMLDivElement>,
+  zoom: number,
+  panX: number,
+  panY: number,
+  boardWidth: number,
+  boardHeight: number,
+  artboardWidth: number,
+): ArtboardFrame | null {
+  const [frame, setFrame] = useState<ArtboardFrame | null>(null);
+
+  const measure = useCallback(() => {
+    const area = areaRef.current;
+    const board = boardRef.current;
+    if (!area || !board || !boardWidth || !artboardWidth) return;
+    const areaRect = area.getBoundingClientRect();
+    const boardRect = board.getBoundingClientRect();
+    const cx = boardRect.left + boardRect.width / 2 - areaRect.left;
+    const cy = boardRect.top + boardRect.height / 2 - areaRect.top;
+    const next: ArtboardFrame = {
+      originX: cx + zoom * (panX - boardWidth / 2),
+      originY: cy + zoom * (panY - boardHeight / 2),
+      pxPerInch: (zoom * boardWidth) / artboardWidth,
+      areaWidth: areaRect.width,
+      areaHeight: areaRect.height,
+    };
+    setFrame(prev => prev && (Object.keys(next) as Array<keyof ArtboardFrame>).every(k => Math.abs(prev[k] - next[k]) < 0.01) ? prev : next);
+  }, [areaRef, boardRef, zoom, panX, panY, boardWidth, boardHeight, artboardWidth]);
+
+  useLayoutEffect(measure, [measure]);
+
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+    const ro = new ResizeObserver(() => measure());
+    ro.observe(area);
+    return () => ro.disconnect();
+  }, [areaRef, measure]);
+
+  return frame;
+}
+
+interface TickScale {
+  // Major tick spacing in display units (inches or cm) and how many minor ticks divide it.
+  step: number;
+  divisions: number;
+  unitPx: number;
+}
+
+const IMPERIAL_STEPS = [0.125, 0.25, 0.5, 1, 2, 5, 10, 25, 50, 100];
+const METRIC_STEPS = [0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+const MIN_LABEL_SPACING = 56;
+const MIN_TICK_SPACING = 5;
+
+function pickTickScale(pxPerInch: number, metric: boolean): TickScale {
+  const unitPx = metric ? pxPerInch / 2.54 : pxPerInch;
+  const steps = metric ? METRIC_STEPS : IMPERIAL_STEPS;
+  const step = steps.find(s => s * unitPx >= MIN_LABEL_SPACING) ?? steps[steps.length - 1];
+  const candidates = metric
+    ? (String(step).startsWith("2") ? [4, 2] : [10, 5, 2])
+    : (step <= 2 ? [8, 4, 2] : [5, 2]);
+  const divisions = candidates.find(n => (step * unitPx) / n >= MIN_TICK_SPACING) ?? 1;
+  return { step, divisions, unitPx };
+}
+
+function formatTick(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function drawRuler(canvas: HTMLCanvasElement, axis: "x" | "y", frame: ArtboardFrame, artboardSize: number, metric: boolean) {
+  const length = axis === "x" ? frame.areaWidth - RULER_SIZE : frame.areaHeight - RULER_SIZE;
+  if (length <= 0) return;
+  const dpr = window.devicePixelRatio || 1;
+  const width = axis === "x" ? length : RULER_SIZE;
+  const height = axis === "x" ? RULER_SIZE : length;
+  canvas.width = Math.round(width * dpr);
+  canvas.height = Math.round(height * dpr);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+  // Ruler-local coordinate of the artboard origin along the axis.
+  const origin = (axis === "x" ? frame.originX : frame.originY) - RULER_SIZE;
+  const { step, divisions, unitPx } = pickTickScale(frame.pxPerInch, metric);
+
+  ctx.fillStyle = "#e5e7eb";
+  ctx.fillRect(0, 0, width, height);
+  const boardStart = Math.max(0, origin);
+  const boardEnd = Math.min(length, origin + artboardSize * frame.pxPerInch);
+  ctx.fillStyle = "#f9fafb";
+  if (boardEnd > boardStart) {
+    if (axis === "x") ctx.fillRect(boardStart, 0, boardEnd - boardStart, height);
+    else ctx.fillRect(0, boardStart, width, boardEnd - boardStart);
+  }
+
+  ctx.strokeStyle = "#6b7280";
+  ctx.fillStyle = "#4b5563";
+  ctx.lineWidth = 1;
+  ctx.font = "9px system-ui, sans-serif";
+  ctx.textBaseline = "top";
+  const minor = step / divisions;
+  const first = Math.floor(-origin / unitPx / minor) - 1;
+  const last = Math.ceil((length - origin) / unitPx / minor) + 1;
+  ctx.beginPath();
+  for (let i = first; i <= last; i++) {
+    const pos = Math.round(origin + i * minor * unitPx) + 0.5;
+    const isMajor = i % divisions === 0;
+    const isHalf = !isMajor && divisions % 2 === 0 && i % (divisions / 2) === 0;
+    const tick = isMajor ? RULER_SIZE : isHalf ? RULER_SIZE * 0.45 : RULER_SIZE * 0.25;
+    if (axis === "x") {
+      ctx.moveTo(pos, RULER_SIZE);
+      ctx.lineTo(pos, RULER_SIZE - tick);
+    } else {
+      ctx.moveTo(RULER_SIZE, pos);
+      ctx.lineTo(RULER_SIZE - tick, pos);
+    }
+    if (isMajor) {
+      const label = formatTick(i * minor);
+      if (axis === "x") {
+        ctx.fillText(label, pos + 2, 1);
+      } else {
+        ctx.save();
+        ctx.translate(1, pos + 2);
+        ctx.rotate(Math.PI / 2);
+        ctx.textBaseline = "bottom";
+        ctx.fillText(label, 0, 0);
+        ctx.restore();
+      }
+    }
+  }
+  ctx.stroke();
+  ctx.beginPath();
+  if (axis === "x") { ctx.moveTo(0, RULER_SIZE - 0.5); ctx.lineTo(width, RULER_SIZE - 0.5); }
+  else { ctx.moveTo(RULER_SIZE - 0.5, 0); ctx.lineTo(RULER_SIZE - 0.5, height); }
+  ctx.strokeStyle = "#d1d5db";
+  ctx.stroke();
+}
+
+interface GuideDrag {
+  // null while dragging a new guide out of a ruler.
+  id: string | null;
+  axis: SheetGuide["axis"];
+  pos: number;
+  // Dropping here discards the guide: back on the ruler or off the artboard.
+  remove: boolean;
+}
+
+interface ArtboardRulersProps {
+  frame: ArtboardFrame;
+  artboardWidth: number;
+  artboardHeight: number;
+  guides: SheetGuide[];
+  onAddGuide?: (axis: SheetGuide["axis"], pos: number) => void;
+  onMoveGuide?: (id: string, pos: number) => void;
+  onRemoveGuide?: (id: string) => void;
+  lang: Language;
+  t: (key: string) => string;
+}
+
+/**
+ * Top and left rulers in inches or cm, plus the sheet's guides. Guides are dragged out of a ruler,
+ * moved by dragging, and removed by dragging them back onto a ruler or off the artboard.
+ */
+export default function ArtboardRulers({ frame, artboardWidth, artboardHeight, guides, onAddGuide, onMoveGuide, onRemoveGuide, lang, t }: ArtboardRulersProps) {
+  const metric = useMetric(lang);
+  const topRef = useRef<HTMLCanvasElement>(null);
+  const leftRef = useRef<HTMLCanvasElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<GuideDrag | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+
+  useEffect(() => {
+    if (topRef.current) drawRuler(topRef.current, "x", frame, artboardWidth, metric);
+    if (leftRef.current) drawRuler(leftRef.current, "y", frame, artboardHeight, metric);
+  }, [frame, artboardWidth, artboardHeight, metric]);
+
+  // Guides land on 1/16" or 1 mm so their positions read cleanly on the ruler.
+  const snapPos = useCallback((inches: number) => {
+    const unit = metric ? 0.1 / 2.54 : 1 / 16;
+    return Math.round(inches / unit) * unit;
+  }, [metric]);
+
+  const pointerToDrag = useCallback((clientX: number, clientY: number, id: string | null, axis: SheetGuide["axis"]): GuideDrag | null => {
+    const root = rootRef.current;
+    if (!root) return null;
+    const rect = root.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const y = clientY - rect.top;
+    const pos = snapPos(axis === "x" ? (x - frame.originX) / frame.pxPerInch : (y - frame.originY) / frame.pxPerInch);
+    const size = axis === "x" ? artboardWidth : artboardHeight;
+    const onRuler = axis === "x" ? x < RULER_SIZE : y < RULER_SIZE;
+    return { id, axis, pos, remove: onRuler || pos < 0 || pos > size };
+  }, [frame, artboardWidth, artboardHeight, snapPos]);
+
+  const startDrag = (e: React.PointerEvent, id: string | null, axis: SheetGuide["axis"]) => {
+    if (e.button !== 0) return;
+    // Suppresses the compatibility mousedown, so the canvas doesn't start a selection underneath.
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag(pointerToDrag(e.clientX, e.clientY, id, axis));
+  };
+
+  const dragging = drag !== null;
+  useEffect(() => {
+    if (!dragging) return;
+    const onMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (current) setDrag(pointerToDrag(e.clientX, e.clientY, current.id, current.axis));
+    };
+    const onUp = () => {
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current) return;
+      if (current.id === null) {
+        if (!current.remove) onAddGuide?.(current.axis, current.pos);
+      } else if (current.remove) {
+        onRemoveGuide?.(current.id);
+      } else if (guides.find(g => g.id === current.id)?.pos !== current.pos) {
+        onMoveGuide?.(current.id, current.pos);
+      }
+    };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [dragging, pointerToDrag, guides, onAddGuide, onMoveGuide, onRemoveGuide]);
+
+  const unitSuffix = lang === "en" ? '"' : "";
+  const shown = guides
+    .filter(g => g.id !== drag?.id)
+    .concat(drag && !drag.remove ? [{ id: drag.id ?? "new", axis: drag.axis, pos: drag.pos }] : []);
+
+  return (
+    <div ref={rootRef} className="absolute inset-0 pointer-events-none z-20" onTouchStart={(e) => e.stopPropagation()}>
+      {shown.map(g => {
+        const screen = (g.axis === "x" ? frame.originX : frame.originY) + g.pos * frame.pxPerInch;
+        if (screen < RULER_SIZE || screen > (g.axis === "x" ? frame.areaWidth : frame.areaHeight)) return null;
+        const active = drag !== null && (drag.id ?? "new") === g.id;
+        return (
+          <div
+            key={g.id}
+            className="absolute pointer-events-auto flex justify-center"
+            style={g.axis === "x"
+              ? { left: screen - 3, top: RULER_SIZE, bottom: 0, width: 7, cursor: "ew-resize" }
+              : { top: screen - 3, left: RULER_SIZE, right: 0, height: 7, cursor: "ns-resize", flexDirection: "column" }}
+            onPointerDown={(e) => startDrag(e, g.id, g.axis)}
+            title={t("preview.guideTitle")}
+          >
+            <div className={active ? "bg-cyan-600" : "bg-cyan-500/80"} style={g.axis === "x" ? { width: 1, height: "100%" } : { height: 1, width: "100%" }} />
+          </div>
+        );
+      })}
+      {drag && !(drag.remove && drag.id === null) && (
+        <div
+          className="absolute px-1 py-px rounded bg-gray-800 text-white text-[10px] tabular-nums whitespace-nowrap"
+          style={drag.axis === "x"
+            ? { left: frame.originX + drag.pos * frame.pxPerInch + 6, top: RULER_SIZE + 4 }
+            : { top: frame.originY + drag.pos * frame.pxPerInch + 6, left: RULER_SIZE + 4 }}
+        >
+          {drag.remove ? t("preview.guideRemove") : `${formatLength(drag.pos, lang)}${unitSuffix}`}
+        </div>
+      )}
+      <canvas
+        ref={topRef}
+        className="absolute pointer-events-auto cursor-ns-resize"
+        style={{ left: RULER_SIZE, top: 0, width: Math.max(0, frame.areaWidth - RULER_SIZE), height: RULER_SIZE }}
+        onPointerDown={(e) => startDrag(e, null, "y")}
+        title={t("preview.rulerTitle")}
+      />
+      <canvas
+        ref={leftRef}
+        className="absolute pointer-events-auto cursor-ew-resize"
+        style={{ left: 0, top: RULER_SIZE, width: RULER_SIZE, height: Math.max(0, frame.areaHeight - RULER_SIZE) }}
+        onPointerDown={(e) => startDrag(e, null, "x")}
+        title={t("preview.rulerTitle")}
+      />
+      <div
+        className="absolute left-0 top-0 flex items-center justify-center bg-gray-200 border-r border-b border-gray-300 text-[9px] text-gray-500 pointer-events-auto"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+        onPointerDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+      >
+        {metric ? "cm" : "in"}
+      </div>
+    </div>
+  );
+}
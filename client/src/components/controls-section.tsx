@@ -3,8 +3,12 @@ import { createPortal } from "react-dom";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ResizeSettings, ImageInfo } from "./image-editor";
-import { Download, Layers, FileCheck, Palette, Eye, EyeOff, ChevronDown, Info } from "lucide-react";
+import { Download, Layers, FileCheck, Palette, Eye, EyeOff, ChevronDown, Info, Printer, X } from "lucide-react";
 import { useLanguage } from "@/lib/i18n";
+import { useToast } from "@/hooks/use-toast";
+import { readIccProfile } from "@/lib/png-chunks";
+import type { IccProfile } from "@/lib/types";
+import type { SpotColorInput } from "@/lib/spot-color-types";
 import { formatLength } from "@/lib/format-length";
 import { useIsMobile } from "@/hooks/use-mobile";
 
@@ -29,7 +33,7 @@ type ExtractedColor = {
 interface ControlsSectionProps {
   resizeSettings: ResizeSettings;
   onResizeChange: (settings: Partial<ResizeSettings>) => void;
-  onDownload: (downloadType?: string, format?: string, spotColorsByDesign?: Record<string, any[]>) => void;
+  onDownload: (downloadType?: string, format?: string, spotColorsByDesign?: Record<string, SpotColorInput[]>) => void;
   isProcessing: boolean;
   imageInfo: ImageInfo | null;
   artboardWidth?: number;
@@ -45,8 +49,18 @@ interface ControlsSectionProps {
   onSpotPreviewChange?: (data: SpotPreviewData) => void;
   fluorPanelContainer?: HTMLDivElement | null;
   copySpotSelectionsRef?: React.MutableRefObject<((fromId: string, toIds: string[]) => void) | null>;
+  exportDpi?: number;
+  onExportDpiChange?: (dpi: number) => void;
+  // Raster format used when the profile downloads a raster (not PDF).
+  rasterFormat?: 'png' | 'tiff';
+  onRasterFormatChange?: (format: 'png' | 'tiff') => void;
+  iccProfile?: IccProfile | null;
+  onIccProfileChange?: (profile: IccProfile | null) => void;
 }
 
+// Resolutions of the printers in use; the RIP reads the chosen one back from pHYs.
+const EXPORT_DPI_OPTIONS = [300, 360, 600];
+
 const DEFAULT_HEIGHTS = [12, 18, 24, 35, 40, 45, 48, 50, 55, 60, 65, 70, 80, 85, 95, 110, 120, 130, 140, 150];
 
 export default function ControlsSection({
@@ -66,8 +80,16 @@ export default function ControlsSection({
   onSpotPreviewChange,
   fluorPanelContainer,
   copySpotSelectionsRef,
+  exportDpi = 300,
+  onExportDpiChange,
+  rasterFormat = 'png',
+  onRasterFormatChange,
+  iccProfile,
+  onIccProfileChange,
 }: ControlsSectionProps) {
   const { t, lang } = useLanguage();
+  const { toast } = useToast();
+  const iccInputRef = useRef<HTMLInputElement>(null);
   const isMobile = useIsMobile();
   const canDownload = !!imageInfo || designCount > 0;
 
@@ -240,9 +262,20 @@ export default function ControlsSection({
       const spotColors = getAllDesignSpotColors();
       onDownload('standard', 'pdf', spotColors);
     } else {
-      onDownload('standard', 'png');
+      onDownload('standard', rasterFormat);
+    }
+  }, [isPdf, enableFluorescent, getAllDesignSpotColors, onDownload, rasterFormat]);
+
+  const handleIccFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onIccProfileChange?.(await readIccProfile(file));
+    } catch (err) {
+      toast({ title: t("toast.iccInvalid"), description: err instanceof Error ? err.message : undefined, variant: "destructive" });
     }
-  }, [isPdf, enableFluorescent, getAllDesignSpotColors, onDownload]);
+  }, [onIccProfileChange, toast, t]);
 
   const assignedCount = extractedColors.filter(c => c.spotFluorY || c.spotFluorM || c.spotFluorG || c.spotFluorOrange).length;
 
@@ -285,6 +318,56 @@ export default function ControlsSection({
             </Select>
           </div>
         </div>
+        {onExportDpiChange && (
+          <div className="flex items-center gap-2 px-3 py-1.5 border-t border-gray-100">
+            <div className="w-6 h-6 rounded-md bg-cyan-500/10 flex items-center justify-center flex-shrink-0">
+              <Printer className="w-3.5 h-3.5 text-cyan-600" />
+            </div>
+            <span className="text-xs font-medium text-gray-900 flex-shrink-0">{t("controls.exportDpi")}</span>
+            <div className="flex items-center gap-1.5 ml-auto min-w-0">
+              {!isPdf && onIccProfileChange && (
+                iccProfile ? (
+                  <span className="flex items-center gap-1 min-w-0 text-[10px] text-gray-700 bg-gray-100 rounded px-1.5 py-0.5" title={t("controls.iccProfileTitle")}>
+                    <span className="truncate max-w-[90px]">{iccProfile.name}</span>
+                    <button onClick={() => onIccProfileChange(null)} className="text-gray-500 hover:text-gray-900 flex-shrink-0" title={t("controls.iccRemove")}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => iccInputRef.current?.click()}
+                    className="text-[10px] text-cyan-600 hover:text-cyan-700 font-medium whitespace-nowrap"
+                    title={t("controls.iccProfileTitle")}
+                  >
+                    {t("controls.iccAttach")}
+                  </button>
+                )
+              )}
+              <input ref={iccInputRef} type="file" accept=".icc,.icm" className="hidden" onChange={handleIccFile} />
+              {!isPdf && onRasterFormatChange && (
+                <Select value={rasterFormat} onValueChange={(v) => onRasterFormatChange(v as 'png' | 'tiff')}>
+                  <SelectTrigger className="h-7 w-[68px] text-xs font-semibold text-gray-900 bg-gray-100 border-gray-200" title={t("controls.rasterFormatTitle")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="png">PNG</SelectItem>
+                    <SelectItem value="tiff">TIFF</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={String(exportDpi)} onValueChange={(v) => onExportDpiChange(parseInt(v))}>
+                <SelectTrigger className="h-7 w-[84px] text-xs font-semibold text-gray-900 bg-gray-100 border-gray-200">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_DPI_OPTIONS.map((dpi) => (
+                    <SelectItem key={dpi} value={String(dpi)}>{dpi} DPI</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
       </div>
 
       {enableFluorescent && imageInfo && fluorPanelContainer && createPortal(
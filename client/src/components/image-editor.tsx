@@ -3,6 +3,17 @@ import UploadSection from "./upload-section";
 import PreviewSection from "./preview-section";
 import ControlsSection, { type SpotPreviewData } from "./controls-section";
 import CropModal from "./crop-modal";
+import UpscaleModal from "./upscale-modal";
+import ProjectModal from "./project-modal";
+import PdfPagePicker, { type PdfPageRequest } from "./pdf-page-picker";
+import LowResolutionModal from "./low-resolution-modal";
+import { saveProject, loadProject, type ProjectState } from "@/lib/project-storage";
+import { exportGangsheetFile, importGangsheetFile, GANGSHEET_EXTENSION } from "@/lib/gangsheet-file";
+import { renderGangsheetOnServer } from "@/lib/server-render";
+import { makeColorChunks, retagPng } from "@/lib/png-chunks";
+import { canExportInWorkers, exportPngInWorkers, exportTiffInWorkers } from "@/lib/export-pool";
+import type { PDFEmbeddedPage } from "pdf-lib";
+import { computeDesignCutline, computeDesignOutline, simplifyOutline, getCachedCutline, scaleCutlineToDesign, cutlineHalfExtents, cutlineToArtboard, DEFAULT_CUTLINE, CUTLINE_OFFSETS } from "@/lib/design-cutline";
 import { cropImageToContent, cropImageToContentAsync, hasCleanAlpha } from "@/lib/image-crop";
 
 function imageHasCleanAlpha(img: HTMLImageElement): boolean {
@@ -15,18 +26,87 @@ function imageHasCleanAlpha(img: HTMLImageElement): boolean {
   const { data, width, height } = ctx.getImageData(0, 0, c.width, c.height);
   return hasCleanAlpha(data, width, height);
 }
-import { parsePDF, type ParsedPDFData } from "@/lib/pdf-parser";
+import { getPdfPageCount, isVectorDocumentFile, isEPSFile, isAIFile, loadPdfSource, parsePDF, type ParsedPDFData } from "@/lib/pdf-parser";
+import { isSVGFile, parseSVG, type ParsedSVGData } from "@/lib/svg-import";
+import { getResolutionWarnings } from "@/lib/print-resolution";
+import { maxUpscaleFactor } from "@/lib/image-upscale";
+import { rotatedBounds } from "@/lib/smart-guides";
+import { restack, type ZOrderCommand } from "@/lib/layer-order";
+import type { SpotColorInput } from "@/lib/spot-color-types";
+import { buildArrangeUnits, buildLayerTree, expandToGroups, expandUnitPlacements, groupBounds, groupNumbers, outerGroup, removeDesigns, withFreshGroupIds, type LayerNode } from "@/lib/design-groups";
+import { alignItems, distributeItems, packItems, selectionBounds, type AlignEdge, type DistributeMode, type LayoutItem, type LayoutOffsets } from "@/lib/align-distribute";
 import { useToast } from "@/hooks/use-toast";
 import { useHistory, type HistorySnapshot } from "@/hooks/use-history";
+import type { SheetGuide } from "@shared/schema";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useLanguage } from "@/lib/i18n";
 import { formatDimensions, formatLength, useMetric, cmToInches, getUnitSuffix } from "@/lib/format-length";
-import { Trash2, Copy, ChevronDown, ChevronUp, Undo2, Redo2, RotateCw, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight, LayoutGrid, Layers, Loader2, Plus, Droplets, Link, Unlink, FlipHorizontal2, FlipVertical2, MousePointerClick, XCircle } from "lucide-react";
+import { Trash2, Copy, CopyPlus, ChevronDown, ChevronUp, Undo2, Redo2, RotateCw, ArrowUpLeft, ArrowUpRight, ArrowDownLeft, ArrowDownRight, LayoutGrid, Layers, Loader2, Plus, Droplets, Link, Unlink, FlipHorizontal2, FlipVertical2, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalSpaceAround, AlignHorizontalDistributeCenter, AlignVerticalSpaceAround, AlignVerticalDistributeCenter, FoldHorizontal, FoldVertical, MousePointerClick, XCircle, FolderOpen, Scissors, AlertTriangle, Sparkles, Group, Ungroup, ChevronRight, Eye, EyeOff, Lock, LockOpen, BringToFront, SendToBack, ArrowUp, ArrowDown } from "lucide-react";
 
 export type { ImageInfo, ResizeSettings, ImageTransform, DesignItem } from "@/lib/types";
-import type { ImageInfo, ResizeSettings, ImageTransform, DesignItem } from "@/lib/types";
+import type { ImageInfo, ResizeSettings, ImageTransform, DesignItem, CutlinePath, CutlineSettings, IccProfile } from "@/lib/types";
 import { type ProfileConfig, HOT_PEEL_PROFILE } from "@/lib/profiles";
 
+// Locked and hidden designs can't be picked on the artboard; the layers panel toggles bring them back.
+const isSelectable = (d: DesignItem) => !d.locked && !d.hidden;
+
+// Selecting one design selects the rest of its group, except members that are locked or hidden.
+function selectableWithGroups(ids: Iterable<string>, designs: DesignItem[]): Set<string> {
+  const expanded = expandToGroups(ids, designs);
+  return new Set(designs.filter(d => expanded.has(d.id) && isSelectable(d)).map(d => d.id));
+}
+
+// Alt+Shift+<key> align shortcuts (plain Alt+letter opens browser menus), by physical key since Option on macOS changes `e.key`.
+const ALIGN_SHORTCUT_KEYS: Record<string, AlignEdge> = { L: 'left', C: 'center', R: 'right', T: 'top', M: 'middle', B: 'bottom' };
+
+// Angle steps offered for angled box packing; 0°/90° are always considered on top of the step's multiples.
+const ARRANGE_ANGLE_STEPS = [45, 30, 15];
+
+const arrangeRotationAngles = (step: number) =>
+  Array.from({ length: Math.floor(179 / step) }, (_, i) => (i + 1) * step).filter(a => a !== 90);
+
+const MAX_DESIGN_QUANTITY = 500;
+// Upper bound on copies tried by "fill remaining space" in a single arrange pass.
+const MAX_FILL_COPIES = 500;
+
+const copyBaseName = (name: string) => name.replace(/ copy( \d+)?$/, '');
+
+// Designs saved before copy groups existed are still grouped by their " copy N" names.
+function copyGroupKey(design: DesignItem): string {
+  return design.copyGroup ?? `name:${copyBaseName(design.name)}`;
+}
+
+// Appends `count` copies of `source`, numbered after the highest existing " copy N". The source's
+// group (including name-matched legacy copies) is given an id first so every member stays linked.
+function withLinkedCopies(all: DesignItem[], source: DesignItem, count: number): { designs: DesignItem[]; copies: DesignItem[] } {
+  const key = copyGroupKey(source);
+  const copyGroup = source.copyGroup ?? crypto.randomUUID();
+  const baseName = copyBaseName(source.name);
+  const escaped = baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const re = new RegExp(`^${escaped} copy (\\d+)$`);
+  const maxNum = all.reduce((mx, d) => { const m = d.name.match(re); return m ? Math.max(mx, parseInt(m[1])) : mx; }, 0);
+  const copies: DesignItem[] = Array.from({ length: count }, (_, i) => ({
+    ...source,
+    id: crypto.randomUUID(),
+    name: `${baseName} copy ${maxNum + i + 1}`,
+    copyGroup,
+    groups: undefined,
+    // Copies start visible and unlocked, whatever the source's state.
+    locked: undefined,
+    hidden: undefined,
+    transform: { ...source.transform, nx: Math.min(0.95, source.transform.nx + 0.03), ny: source.transform.ny },
+  }));
+  const linked = source.copyGroup ? all : all.map(d => copyGroupKey(d) === key ? { ...d, copyGroup } : d);
+  return { designs: [...linked, ...copies], copies };
+}
+
+const CUTLINE_OFFSET_LABELS: Record<number, string> = {
+  0.03125: "1/32″",
+  0.0625: "1/16″",
+  0.125: "1/8″",
+  0.25: "1/4″",
+};
+
 function SizeInput({
   value,
   onCommit,
@@ -103,18 +183,8 @@ function SizeInput({
   );
 }
 
-import ExportWorkerModule from '@/lib/export-worker?worker';
 import ArrangeWorkerModule from '@/lib/arrange-worker?worker';
 
-let _exportWorker: Worker | null = null;
-function getExportWorker(): Worker | null {
-  if (!_exportWorker) {
-    try { _exportWorker = new ExportWorkerModule(); }
-    catch { return null; }
-  }
-  return _exportWorker;
-}
-
 let _arrangeWorker: Worker | null = null;
 function getArrangeWorker(): Worker | null {
   if (!_arrangeWorker) {
@@ -137,62 +207,14 @@ async function fetchImageDpi(file: File): Promise<number> {
   }
 }
 
-let _exportReqCounter = 0;
 let _arrangeReqCounter = 0;
 
-function readU32(buf: Uint8Array, off: number): number {
-  return ((buf[off] << 24) | (buf[off + 1] << 16) | (buf[off + 2] << 8) | buf[off + 3]) >>> 0;
-}
-
-async function injectPngDpi(blob: Blob, dpi: number): Promise<Blob> {
-  const ppm = Math.round(dpi / 0.0254);
+async function injectPngDpi(blob: Blob, dpi: number, iccProfile?: IccProfile): Promise<Blob> {
   const buf = new Uint8Array(await blob.arrayBuffer());
   if (buf.length < 8) return blob;
   const sig = [137, 80, 78, 71, 13, 10, 26, 10];
   for (let i = 0; i < sig.length; i++) if (buf[i] !== sig[i]) return blob;
-
-  const parts: Uint8Array[] = [];
-  parts.push(buf.slice(0, 8));
-
-  const ihdrDataLen = readU32(buf, 8);
-  const ihdrTotal = 12 + ihdrDataLen;
-  parts.push(buf.slice(8, 8 + ihdrTotal));
-  let offset = 8 + ihdrTotal;
-
-  const PHYS_DATA_LEN = 9;
-  const physChunk = new Uint8Array(4 + 4 + PHYS_DATA_LEN + 4);
-  const pv = new DataView(physChunk.buffer);
-  pv.setUint32(0, PHYS_DATA_LEN);
-  physChunk[4] = 0x70; physChunk[5] = 0x48; physChunk[6] = 0x59; physChunk[7] = 0x73;
-  pv.setUint32(8, ppm);
-  pv.setUint32(12, ppm);
-  physChunk[16] = 1;
-  pv.setUint32(17, crc32(physChunk.slice(4, 4 + 4 + PHYS_DATA_LEN)));
-  parts.push(physChunk);
-
-  while (offset + 12 <= buf.length) {
-    const dataLen = readU32(buf, offset);
-    const chunkTotal = 12 + dataLen;
-    const isPHYs = buf[offset + 4] === 0x70 && buf[offset + 5] === 0x48 &&
-                   buf[offset + 6] === 0x59 && buf[offset + 7] === 0x73;
-    if (!isPHYs) parts.push(buf.slice(offset, offset + chunkTotal));
-    offset += chunkTotal;
-  }
-
-  const totalLen = parts.reduce((sum, p) => sum + p.length, 0);
-  const out = new Uint8Array(totalLen);
-  let writePos = 0;
-  for (const part of parts) { out.set(part, writePos); writePos += part.length; }
-  return new Blob([out], { type: 'image/png' });
-}
-
-function crc32(data: Uint8Array): number {
-  let c = 0xFFFFFFFF;
-  for (let i = 0; i < data.length; i++) {
-    c ^= data[i];
-    for (let j = 0; j < 8; j++) c = (c >>> 1) ^ (c & 1 ? 0xEDB88320 : 0);
-  }
-  return (c ^ 0xFFFFFFFF) >>> 0;
+  return new Blob([retagPng(buf, dpi, await makeColorChunks(iccProfile))], { type: 'image/png' });
 }
 
 function clampDesignToArtboard(
@@ -235,10 +257,32 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [artboardWidth, setArtboardWidth] = useState(profile.artboardWidth);
-  const [artboardHeight, setArtboardHeight] = useState(profile.gangsheetHeights[0] ?? 12);
+  // One height per gangsheet; designs carry the index of the sheet they sit on.
+  const [sheetHeights, setSheetHeights] = useState<number[]>([profile.gangsheetHeights[0] ?? 12]);
+  const [activeSheet, setActiveSheet] = useState(0);
+  const [guides, setGuides] = useState<SheetGuide[]>([]);
+  const activeSheetRef = useRef(activeSheet);
+  activeSheetRef.current = activeSheet;
+  const artboardHeight = sheetHeights[activeSheet] ?? sheetHeights[0];
+  const setArtboardHeight = useCallback((height: number) => {
+    setSheetHeights(prev => prev.map((h, i) => i === activeSheetRef.current ? height : h));
+  }, []);
   const [designGap, setDesignGap] = useState<number | undefined>(0.25);
+  // Rotation step (degrees) for shape nesting; 0 packs bounding boxes.
+  const [nestingStep, setNestingStep] = useState(0);
+  // Step (degrees) of the off-axis angles tried when packing boxes; 0 keeps to 0°/90°.
+  const [angleStep, setAngleStep] = useState(0);
+  // When on, auto-arrange also picks the shortest profile sheet height that fits everything.
+  const [autoSheetHeight, setAutoSheetHeight] = useState(false);
+  const [exportDpi, setExportDpi] = useState(300);
+  const [rasterFormat, setRasterFormat] = useState<'png' | 'tiff'>('png');
+  const [iccProfile, setIccProfile] = useState<IccProfile | null>(null);
   const [designTransform, setDesignTransform] = useState<ImageTransform>({ nx: 0.5, ny: 0.5, s: 1, rotation: 0 });
   const [designs, setDesigns] = useState<DesignItem[]>([]);
+  const sheetDesigns = useMemo(() => designs.filter(d => (d.sheet ?? 0) === activeSheet), [designs, activeSheet]);
+  const sheetGuides = useMemo(() => guides.filter(g => (g.sheet ?? 0) === activeSheet), [guides, activeSheet]);
+  const sheetDesignsRef = useRef(sheetDesigns);
+  sheetDesignsRef.current = sheetDesigns;
   const [selectedDesignId, setSelectedDesignId] = useState<string | null>(null);
   const [selectedDesignIds, setSelectedDesignIds] = useState<Set<string>>(new Set());
   const [showDesignInfo, setShowDesignInfo] = useState(false);
@@ -254,9 +298,19 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   const copySpotSelectionsRef = useRef<((fromId: string, toIds: string[]) => void) | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; designId: string } | null>(null);
   const [cropModalDesignId, setCropModalDesignId] = useState<string | null>(null);
+  const [upscaleModalDesignId, setUpscaleModalDesignId] = useState<string | null>(null);
+  const [projectModalOpen, setProjectModalOpen] = useState(false);
+  const [pdfPageRequest, setPdfPageRequest] = useState<PdfPageRequest | null>(null);
+  // Download arguments held while the low-resolution dialog is open.
+  const [pendingLowResDownload, setPendingLowResDownload] = useState<[downloadType?: string, format?: string, spotColorsByDesign?: Record<string, SpotColorInput[]>] | null>(null);
+  const pdfPageResolverRef = useRef<((pageIndexes: number[]) => void) | null>(null);
+  const pdfPickerQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [projectName, setProjectName] = useState("");
+  const [cutlinePaths, setCutlinePaths] = useState<Map<string, CutlinePath>>(new Map());
 
   // Undo/Redo history
-  const { pushSnapshot, undo, redo, clearIsUndoRedo, canUndo, canRedo } = useHistory();
+  const { pushSnapshot, undo, redo, clearIsUndoRedo, reset: resetHistory, canUndo, canRedo } = useHistory();
   const designsRef = useRef(designs);
   designsRef.current = designs;
   const nudgeSnapshotSavedRef = useRef(false);
@@ -275,19 +329,19 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       json = cache.json;
       infoMap = cache.infoMap;
     } else {
-      json = JSON.stringify(designs.map(d => ({ id: d.id, transform: d.transform, widthInches: d.widthInches, heightInches: d.heightInches, name: d.name })));
+      json = JSON.stringify(designs.map(d => ({ id: d.id, transform: d.transform, widthInches: d.widthInches, heightInches: d.heightInches, name: d.name, cutline: d.cutline, sheet: d.sheet, copyGroup: d.copyGroup, groups: d.groups, locked: d.locked, hidden: d.hidden })));
       infoMap = new Map(designs.map(d => [d.id, d.imageInfo]));
       snapshotCacheRef.current = { designs, json, infoMap };
     }
-    return { designsJson: json, selectedDesignId, imageInfoMap: infoMap, artboardWidth, artboardHeight };
-  }, [designs, selectedDesignId, artboardWidth, artboardHeight]);
+    return { designsJson: json, selectedDesignId, imageInfoMap: infoMap, artboardWidth, artboardHeight, sheetHeights, guides };
+  }, [designs, selectedDesignId, artboardWidth, artboardHeight, sheetHeights, guides]);
 
   const saveSnapshot = useCallback(() => {
     pushSnapshot(getSnapshot());
   }, [pushSnapshot, getSnapshot]);
 
   const applySnapshot = useCallback((snap: HistorySnapshot) => {
-    let parsed: Array<{ id: string; transform: ImageTransform; widthInches: number; heightInches: number; name: string }>;
+    let parsed: Array<{ id: string; transform: ImageTransform; widthInches: number; heightInches: number; name: string; cutline?: CutlineSettings; sheet?: number; copyGroup?: string; groups?: string[]; locked?: boolean; hidden?: boolean }>;
     try {
       parsed = JSON.parse(snap.designsJson);
     } catch {
@@ -308,11 +362,17 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
             widthInches: p.widthInches,
             heightInches: p.heightInches,
             name: p.name,
+            cutline: p.cutline,
+            sheet: p.sheet,
+            copyGroup: p.copyGroup,
+            groups: p.groups,
+            locked: p.locked,
+            hidden: p.hidden,
             ...(savedInfo ? { alphaThresholded: undefined } : {}),
           };
         }
         if (savedInfo) {
-          return { id: p.id, imageInfo: savedInfo, transform: p.transform, widthInches: p.widthInches, heightInches: p.heightInches, name: p.name, originalDPI: savedInfo.dpi } as DesignItem;
+          return { id: p.id, imageInfo: savedInfo, transform: p.transform, widthInches: p.widthInches, heightInches: p.heightInches, name: p.name, originalDPI: savedInfo.dpi, cutline: p.cutline, sheet: p.sheet, copyGroup: p.copyGroup, groups: p.groups, locked: p.locked, hidden: p.hidden } as DesignItem;
         }
         return null;
       }).filter(Boolean) as DesignItem[];
@@ -326,10 +386,17 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       setDesignTransform({ nx: 0.5, ny: 0.5, s: 1, rotation: 0 });
     }
     if (snap.artboardWidth !== undefined) setArtboardWidth(snap.artboardWidth);
-    if (snap.artboardHeight !== undefined) setArtboardHeight(snap.artboardHeight);
+    if (snap.sheetHeights) {
+      const heights = snap.sheetHeights;
+      setSheetHeights(heights);
+      setActiveSheet(prev => Math.min(prev, heights.length - 1));
+    } else if (snap.artboardHeight !== undefined) {
+      setArtboardHeight(snap.artboardHeight);
+    }
+    if (snap.guides) setGuides(snap.guides);
     setSelectedDesignIds(new Set());
     clearIsUndoRedo();
-  }, [clearIsUndoRedo]);
+  }, [clearIsUndoRedo, setArtboardHeight]);
 
   const handleUndo = useCallback(() => {
     const snap = undo(getSnapshot());
@@ -367,11 +434,10 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   }, [activeImageInfo]);
 
   const layerGroupInfo = useMemo(() => {
-    const baseNameOf = (name: string) => name.replace(/ copy( \d+)?$/, '');
     const sizeKeyOf = (d: DesignItem) => `${(d.widthInches * d.transform.s).toFixed(2)}x${(d.heightInches * d.transform.s).toFixed(2)}`;
     const groups = new Map<string, { count: number; baseSize: string; firstId: string }>();
     for (const d of designs) {
-      const base = baseNameOf(d.name);
+      const base = copyGroupKey(d);
       const sk = sizeKeyOf(d);
       const existing = groups.get(base);
       if (!existing) {
@@ -380,7 +446,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         existing.count++;
       }
     }
-    return { baseNameOf, sizeKeyOf, groups };
+    return { sizeKeyOf, groups };
   }, [designs]);
 
   useEffect(() => {
@@ -390,12 +456,49 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   }, [activeImageInfo, onDesignUploaded]);
 
   const handleSelectDesign = useCallback((id: string | null) => {
+    if (id) {
+      const design = designsRef.current.find(d => d.id === id);
+      if (design && !isSelectable(design)) return;
+      const sheet = design?.sheet ?? 0;
+      if (sheet !== activeSheetRef.current) setActiveSheet(sheet);
+    }
     setSelectedDesignId(id);
-    setSelectedDesignIds(id ? new Set([id]) : new Set());
+    setSelectedDesignIds(id ? selectableWithGroups([id], designsRef.current) : new Set());
   }, []);
 
+  const handleSheetChange = useCallback((index: number) => {
+    if (index === activeSheetRef.current) return;
+    setActiveSheet(index);
+    setSelectedDesignId(null);
+    setSelectedDesignIds(new Set());
+  }, []);
+
+  // Drop sheets that no longer hold any design, e.g. after deleting everything on one.
+  useEffect(() => {
+    if (sheetHeights.length <= 1) return;
+    const used = new Set(designs.map(d => d.sheet ?? 0));
+    let keep = sheetHeights.map((_, i) => i).filter(i => used.has(i));
+    if (keep.length === sheetHeights.length) return;
+    if (keep.length === 0) keep = [0];
+    const remap = new Map(keep.map((oldIndex, newIndex) => [oldIndex, newIndex]));
+    setSheetHeights(keep.map(i => sheetHeights[i]));
+    setDesigns(prev => prev.map(d => {
+      const sheet = remap.get(d.sheet ?? 0) ?? 0;
+      return sheet === (d.sheet ?? 0) ? d : { ...d, sheet: sheet || undefined };
+    }));
+    setGuides(prev => prev
+      .filter(g => remap.has(g.sheet ?? 0))
+      .map(g => ({ ...g, sheet: remap.get(g.sheet ?? 0) || undefined })));
+    setActiveSheet(prev => Math.max(0, keep.filter(i => i <= prev).length - 1));
+  }, [designs, sheetHeights]);
+
   const handleMultiSelect = useCallback((ids: string[]) => {
-    setSelectedDesignIds(new Set(ids));
+    const all = designsRef.current;
+    // Deselecting one design of a group deselects the whole group; selecting one selects it all.
+    const groupOf = (id: string) => all.find(d => d.id === id)?.groups?.[0];
+    const dropped = new Set(Array.from(selectedDesignIdsRef.current).filter(id => !ids.includes(id)).map(groupOf));
+    ids = ids.filter(id => (!groupOf(id) || !dropped.has(groupOf(id))) && all.some(d => d.id === id && isSelectable(d)));
+    setSelectedDesignIds(selectableWithGroups(ids, all));
     if (ids.length === 1) {
       setSelectedDesignId(ids[0]);
     } else if (ids.length === 0) {
@@ -699,8 +802,8 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   }, [selectedDesignId, designs, proportionalLock, saveSnapshot, artboardWidth, artboardHeight]);
 
   const isArtboardFull = useCallback((extraDesigns?: DesignItem[]) => {
-    if (designs.length === 0) return false;
-    const allDesigns = extraDesigns ? [...designs, ...extraDesigns] : designs;
+    if (sheetDesigns.length === 0) return false;
+    const allDesigns = extraDesigns ? [...sheetDesigns, ...extraDesigns] : sheetDesigns;
     const usableW = artboardWidth;
     const usableH = artboardHeight;
 
@@ -766,26 +869,14 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       }
     }
     return false;
-  }, [designs, artboardWidth, artboardHeight]);
+  }, [sheetDesigns, artboardWidth, artboardHeight]);
 
   const handleDuplicateDesign = useCallback(() => {
     if (!selectedDesignId) return;
     const design = designs.find(d => d.id === selectedDesignId);
     if (!design) return;
-    const newId = crypto.randomUUID();
-    const baseName = design.name.replace(/ copy \d+$/, '');
-    const escaped = baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const re = new RegExp(`^${escaped} copy (\\d+)$`);
-    const maxNum = designs.reduce((mx, d) => { const m = d.name.match(re); return m ? Math.max(mx, parseInt(m[1])) : mx; }, 0);
-    const offsetNx = Math.min(0.95, design.transform.nx + 0.03);
-    const newDesign: DesignItem = {
-      ...design,
-      id: newId,
-      name: `${baseName} copy ${maxNum + 1}`,
-      transform: { ...design.transform, nx: offsetNx, ny: design.transform.ny },
-    };
     saveSnapshot();
-    setDesigns(prev => [...prev, newDesign]);
+    setDesigns(withLinkedCopies(designs, design, 1).designs);
     setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: true, preserveSelection: true }), 0);
   }, [selectedDesignId, designs, saveSnapshot, toast]);
 
@@ -793,12 +884,12 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     const toDup = designs.filter(d => selectedDesignIds.has(d.id));
     if (toDup.length === 0) return [];
     const newIds: string[] = [];
-    const newDesigns: DesignItem[] = toDup.map((d, i) => {
+    const newDesigns: DesignItem[] = withFreshGroupIds(toDup).map((d, i) => {
       const newId = crypto.randomUUID();
       newIds.push(newId);
       const base = d.name.replace(/ copy( \d+)?$/, '');
       const offsetNx = Math.min(0.95, d.transform.nx + 0.03 + i * 0.01);
-      return { ...d, id: newId, name: `${base} copy`, transform: { ...d.transform, nx: offsetNx, ny: d.transform.ny } };
+      return { ...d, id: newId, name: `${base} copy`, locked: undefined, hidden: undefined, transform: { ...d.transform, nx: offsetNx, ny: d.transform.ny } };
     });
     multiDragAccumRef.current = null;
     multiResizeStartRef.current = null;
@@ -814,29 +905,17 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   const handleDuplicateById = useCallback((designId: string) => {
     const design = designs.find(d => d.id === designId);
     if (!design) return;
-    const newId = crypto.randomUUID();
-    const baseName = design.name.replace(/ copy( \d+)?$/, '');
-    const escaped = baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const re = new RegExp(`^${escaped} copy (\\d+)$`);
-    const maxNum = designs.reduce((mx, d) => { const m = d.name.match(re); return m ? Math.max(mx, parseInt(m[1])) : mx; }, 0);
-    const offsetNx = Math.min(0.95, design.transform.nx + 0.03);
-    const newDesign: DesignItem = {
-      ...design,
-      id: newId,
-      name: `${baseName} copy ${maxNum + 1}`,
-      transform: { ...design.transform, nx: offsetNx, ny: design.transform.ny },
-    };
     saveSnapshot();
-    setDesigns(prev => [...prev, newDesign]);
+    setDesigns(withLinkedCopies(designs, design, 1).designs);
     setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: true, preserveSelection: true }), 0);
   }, [designs, saveSnapshot, toast]);
 
-  const handleRemoveOneCopy = useCallback((baseName: string) => {
-    const copies = designs.filter(d => d.name.replace(/ copy( \d+)?$/, '') === baseName);
+  const handleRemoveOneCopy = useCallback((groupKey: string) => {
+    const copies = designs.filter(d => copyGroupKey(d) === groupKey);
     if (copies.length <= 1) return;
     const last = copies[copies.length - 1];
     saveSnapshot();
-    setDesigns(prev => prev.filter(d => d.id !== last.id));
+    setDesigns(prev => removeDesigns(prev, new Set([last.id])));
     if (selectedDesignId === last.id) {
       setSelectedDesignId(copies.length > 1 ? copies[copies.length - 2].id : null);
     }
@@ -845,6 +924,28 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: true, preserveSelection: true }), 0);
   }, [designs, saveSnapshot, selectedDesignId, selectedDesignIds]);
 
+  // Grows or shrinks a design's copy group to `quantity` members, then re-arranges its sheet.
+  const handleSetQuantity = useCallback((designId: string, quantity: number) => {
+    const design = designs.find(d => d.id === designId);
+    if (!design || !Number.isFinite(quantity)) return;
+    const key = copyGroupKey(design);
+    const members = designs.filter(d => copyGroupKey(d) === key);
+    const target = Math.max(1, Math.min(MAX_DESIGN_QUANTITY, Math.round(quantity)));
+    if (target === members.length) return;
+    saveSnapshot();
+    if (target > members.length) {
+      setDesigns(withLinkedCopies(designs, members[members.length - 1], target - members.length).designs);
+    } else {
+      const removed = new Set(members.slice(target).map(d => d.id));
+      setDesigns(prev => removeDesigns(prev, removed));
+      if (selectedDesignId && removed.has(selectedDesignId)) setSelectedDesignId(members[target - 1].id);
+      setSelectedDesignIds(prev => new Set(Array.from(prev).filter(id => !removed.has(id))));
+    }
+    const sheet = design.sheet ?? 0;
+    if (sheet !== activeSheetRef.current) setActiveSheet(sheet);
+    setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: true, preserveSelection: true }), 0);
+  }, [designs, saveSnapshot, selectedDesignId]);
+
   const handleCopySelected = useCallback(() => {
     const toCopy = designs.filter(d => selectedDesignIds.has(d.id));
     if (toCopy.length === 0) return;
@@ -856,7 +957,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     if (clipboardRef.current.length === 0) return;
     saveSnapshot();
     const newIds: string[] = [];
-    const pasted: DesignItem[] = clipboardRef.current.map(d => {
+    const pasted: DesignItem[] = withFreshGroupIds(clipboardRef.current).map(d => {
       const newId = crypto.randomUUID();
       newIds.push(newId);
       const offsetT = { ...d.transform, nx: d.transform.nx + 0.03, ny: d.transform.ny + 0.03 };
@@ -865,18 +966,21 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         ...d,
         id: newId,
         name: d.name.replace(/ copy$/, '') + ' copy',
+        locked: undefined,
+        hidden: undefined,
         transform: { ...d.transform, nx, ny },
+        sheet: activeSheet || undefined,
       };
     });
     setDesigns(prev => [...prev, ...pasted]);
     setSelectedDesignIds(new Set(newIds));
     setSelectedDesignId(newIds[newIds.length - 1]);
-  }, [saveSnapshot, artboardWidth, artboardHeight]);
+  }, [saveSnapshot, artboardWidth, artboardHeight, activeSheet]);
 
   const handleDeleteDesign = useCallback((id: string) => {
     saveSnapshot();
     const toDelete = designsRef.current.find(d => d.id === id);
-    const remaining = designsRef.current.filter(d => d.id !== id);
+    const remaining = removeDesigns(designsRef.current, new Set([id]));
     if (toDelete) {
       const srcStillUsed = remaining.some(d => d.imageInfo.image.src === toDelete.imageInfo.image.src);
       if (!srcStillUsed) {
@@ -903,7 +1007,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
 
   const handleDeleteMulti = useCallback((ids: Set<string>) => {
     saveSnapshot();
-    const remaining = designsRef.current.filter(d => !ids.has(d.id));
+    const remaining = removeDesigns(designsRef.current, ids);
     const remainingSrcs = new Set(remaining.map(d => d.imageInfo.image.src));
     for (const d of designsRef.current) {
       if (ids.has(d.id) && !remainingSrcs.has(d.imageInfo.image.src)) {
@@ -912,9 +1016,10 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       }
     }
     setDesigns(remaining);
-    setSelectedDesignIds(new Set());
+    const nextSelected = remaining.filter(isSelectable).pop();
+    setSelectedDesignIds(nextSelected ? selectableWithGroups([nextSelected.id], remaining) : new Set());
     if (remaining.length > 0) {
-      setSelectedDesignId(remaining[remaining.length - 1].id);
+      setSelectedDesignId(nextSelected?.id ?? null);
     } else {
       setSelectedDesignId(null);
       setImageInfo(null);
@@ -936,12 +1041,19 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       }));
     } else {
       setDesigns(prev => {
+        // Grouped designs turn about their group's center so the group stays rigid; others turn in place.
+        const centers = groupBounds(prev.filter(d => idsToRotate.has(d.id)), d => ({ w: d.widthInches * d.transform.s, h: d.heightInches * d.transform.s }), artboardWidth, () => artboardHeight);
         const rotatedMap = new Map<string, { nx: number; ny: number; rotation: number }>();
         for (const d of prev) {
           if (!idsToRotate.has(d.id)) continue;
+          const box = centers.get(outerGroup(d) ?? '');
+          const cx = box ? (box.left + box.right) / 2 : d.transform.nx * artboardWidth;
+          const cy = box ? (box.top + box.bottom) / 2 : d.transform.ny * artboardHeight;
+          const px = d.transform.nx * artboardWidth - cx;
+          const py = d.transform.ny * artboardHeight - cy;
           rotatedMap.set(d.id, {
-            nx: d.transform.nx,
-            ny: d.transform.ny,
+            nx: (cx - py) / artboardWidth,
+            ny: (cy + px) / artboardHeight,
             rotation: (d.transform.rotation + 90) % 360,
           });
         }
@@ -1010,6 +1122,40 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     setDesignTransform(prev => ({ ...prev, flipY: !prev.flipY }));
   }, [selectedDesignId, selectedDesignIds, saveSnapshot]);
 
+  const handleCutlineChange = useCallback((patch: Partial<CutlineSettings>) => {
+    if (!selectedDesignId) return;
+    saveSnapshot();
+    const ids = selectedDesignIds.size > 0 ? selectedDesignIds : new Set([selectedDesignId]);
+    setDesigns(prev => prev.map(d => ids.has(d.id) ? { ...d, cutline: { ...(d.cutline ?? DEFAULT_CUTLINE), ...patch } } : d));
+  }, [selectedDesignId, selectedDesignIds, saveSnapshot]);
+
+  // Trace cutlines once edits settle; moves and rotations reuse the cached path, resizes keep the old one until the new trace lands.
+  const cutlinePathsRef = useRef(cutlinePaths);
+  cutlinePathsRef.current = cutlinePaths;
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const prev = cutlinePathsRef.current;
+      const next = new Map<string, CutlinePath>();
+      const pending: DesignItem[] = [];
+      for (const d of designs) {
+        if (!d.cutline?.enabled) continue;
+        const cached = getCachedCutline(d);
+        if (!cached) pending.push(d);
+        const path = cached ?? prev.get(d.id);
+        if (path) next.set(d.id, path);
+      }
+      const changed = next.size !== prev.size || Array.from(next).some(([id, p]) => prev.get(id) !== p);
+      if (changed) setCutlinePaths(next);
+      for (const d of pending) {
+        computeDesignCutline(d).then(path => {
+          if (!cancelled && path) setCutlinePaths(cur => new Map(cur).set(d.id, path));
+        }).catch(err => console.warn('Cutline trace failed:', err));
+      }
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [designs]);
+
   const handleCanvasContextMenu = useCallback((x: number, y: number, designId: string | null) => {
     if (designId) {
       if (!selectedDesignIds.has(designId) && selectedDesignId !== designId) {
@@ -1066,6 +1212,138 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
 
   const contentFillCacheRef = useRef<Map<string, number>>(new Map());
 
+  // Unrotated size a design occupies when arranged; designs with a cutline reserve room for the cut, not just the artwork.
+  const getArrangeFootprint = useCallback((d: DesignItem): { w: number; h: number } => {
+    const w = d.widthInches * d.transform.s;
+    const h = d.heightInches * d.transform.s;
+    if (!d.cutline?.enabled) return { w, h };
+    const path = cutlinePaths.get(d.id);
+    if (!path) return { w: w + d.cutline.offsetInches * 2, h: h + d.cutline.offsetInches * 2 };
+    const { hw, hh } = cutlineHalfExtents(scaleCutlineToDesign(path, w, h));
+    return { w: hw * 2, h: hh * 2 };
+  }, [cutlinePaths]);
+
+  // With one design selected there are no selection bounds to align to, so it always aligns to the artboard.
+  const [alignTarget, setAlignTarget] = useState<'selection' | 'artboard'>('selection');
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const layerTree = useMemo(() => buildLayerTree(designs), [designs]);
+  const layerGroupNumbers = useMemo(() => groupNumbers(designs), [designs]);
+
+  // Moves the selected designs by per-design offsets (inches) as one undo step.
+  const applyLayoutOffsets = useCallback((offsets: LayoutOffsets) => {
+    if (offsets.size === 0) return;
+    saveSnapshot();
+    const offsetKey = (d: DesignItem) => offsets.has(d.id) ? d.id : outerGroup(d);
+    // Each item's offset is narrowed until none of its members leaves the artboard, so a group moves rigidly.
+    const shifts = new Map<string, { dnx: number; dny: number }>();
+    for (const d of designsRef.current) {
+      const key = offsetKey(d);
+      const offset = key ? offsets.get(key) : undefined;
+      if (!key || !offset) continue;
+      const shift = shifts.get(key) ?? { dnx: offset.dx / artboardWidth, dny: offset.dy / artboardHeight };
+      const tentative = { ...d.transform, nx: d.transform.nx + shift.dnx, ny: d.transform.ny + shift.dny };
+      const { nx, ny } = clampDesignToArtboard({ ...d, transform: tentative }, artboardWidth, artboardHeight);
+      shifts.set(key, { dnx: nx - d.transform.nx, dny: ny - d.transform.ny });
+    }
+    const moved = designsRef.current.map(d => {
+      const key = offsetKey(d);
+      const shift = key ? shifts.get(key) : undefined;
+      if (!shift) return d;
+      return { ...d, transform: { ...d.transform, nx: d.transform.nx + shift.dnx, ny: d.transform.ny + shift.dny } };
+    });
+    setDesigns(moved);
+    const selected = moved.find(d => d.id === selectedDesignId);
+    if (selected) setDesignTransform(selected.transform);
+  }, [saveSnapshot, selectedDesignId, artboardWidth, artboardHeight]);
+
+  // A group is laid out as one item, keyed by its id.
+  const getLayoutItems = useCallback((): LayoutItem[] => {
+    const ids = selectedDesignIds.size > 0 ? selectedDesignIds : new Set(selectedDesignId ? [selectedDesignId] : []);
+    const selected = designsRef.current.filter(d => ids.has(d.id));
+    const groups = groupBounds(selected, getArrangeFootprint, artboardWidth, () => artboardHeight);
+    const singles = selected.filter(d => !outerGroup(d)).map(d => {
+      const { w, h } = getArrangeFootprint(d);
+      return { id: d.id, box: rotatedBounds(d.transform.nx * artboardWidth, d.transform.ny * artboardHeight, w, h, d.transform.rotation) };
+    });
+    return [...singles, ...Array.from(groups, ([id, box]) => ({ id, box }))];
+  }, [selectedDesignId, selectedDesignIds, artboardWidth, artboardHeight, getArrangeFootprint]);
+
+  const handleAlign = useCallback((edge: AlignEdge) => {
+    const items = getLayoutItems();
+    if (items.length === 0) return;
+    const target = items.length >= 2 && alignTarget === 'selection'
+      ? selectionBounds(items)
+      : { left: 0, top: 0, right: artboardWidth, bottom: artboardHeight };
+    applyLayoutOffsets(alignItems(items, edge, target));
+  }, [getLayoutItems, alignTarget, artboardWidth, artboardHeight, applyLayoutOffsets]);
+
+  const handleDistribute = useCallback((axis: 'x' | 'y', mode: DistributeMode) => {
+    applyLayoutOffsets(distributeItems(getLayoutItems(), axis, mode));
+  }, [getLayoutItems, applyLayoutOffsets]);
+
+  const handlePackSelection = useCallback((axis: 'x' | 'y') => {
+    const gap = designGap !== undefined && designGap >= 0 ? designGap : 0.25;
+    applyLayoutOffsets(packItems(getLayoutItems(), axis, gap));
+  }, [getLayoutItems, designGap, applyLayoutOffsets]);
+
+  // Groups the selection under a new outermost group; groups already in it become nested ones.
+  const handleGroupSelection = useCallback(() => {
+    const selected = designsRef.current.filter(d => selectedDesignIds.has(d.id));
+    if (new Set(selected.map(d => outerGroup(d) ?? d.id)).size < 2) return;
+    saveSnapshot();
+    const group = crypto.randomUUID();
+    setDesigns(prev => prev.map(d => selectedDesignIds.has(d.id) ? { ...d, groups: [group, ...(d.groups ?? [])] } : d));
+  }, [selectedDesignIds, saveSnapshot]);
+
+  // Removes the given groups; their designs stay in any groups around or inside them.
+  const handleUngroup = useCallback((groupIds: Set<string>) => {
+    if (groupIds.size === 0) return;
+    saveSnapshot();
+    setDesigns(prev => prev.map(d => {
+      if (!d.groups?.some(g => groupIds.has(g))) return d;
+      const groups = d.groups.filter(g => !groupIds.has(g));
+      return { ...d, groups: groups.length > 0 ? groups : undefined };
+    }));
+  }, [saveSnapshot]);
+
+  const handleUngroupSelection = useCallback(() => {
+    handleUngroup(new Set(designsRef.current.filter(d => selectedDesignIds.has(d.id)).map(outerGroup).filter((g): g is string => !!g)));
+  }, [selectedDesignIds, handleUngroup]);
+
+  // Restacks the selection among the designs on its sheet; other sheets keep their order.
+  const handleZOrder = useCallback((command: ZOrderCommand) => {
+    const ids = selectedDesignIds.size > 0 ? selectedDesignIds : new Set(selectedDesignId ? [selectedDesignId] : []);
+    if (ids.size === 0) return;
+    const prev = designsRef.current;
+    const slots = prev.flatMap((d, i) => (d.sheet ?? 0) === activeSheet ? [i] : []);
+    const restacked = restack(slots.map(i => prev[i]), ids, command);
+    if (restacked.every((d, k) => d === prev[slots[k]])) return;
+    saveSnapshot();
+    const next = [...prev];
+    slots.forEach((slot, k) => { next[slot] = restacked[k]; });
+    setDesigns(next);
+  }, [selectedDesignId, selectedDesignIds, activeSheet, saveSnapshot]);
+
+  // Locking or hiding designs also drops them from the selection.
+  const handleSetDesignFlag = useCallback((ids: Iterable<string>, flag: 'locked' | 'hidden', value: boolean) => {
+    const targets = new Set(ids);
+    if (!designsRef.current.some(d => targets.has(d.id) && !!d[flag] !== value)) return;
+    saveSnapshot();
+    setDesigns(prev => prev.map(d => targets.has(d.id) ? { ...d, [flag]: value || undefined } : d));
+    if (value) {
+      setSelectedDesignIds(prev => new Set(Array.from(prev).filter(id => !targets.has(id))));
+      setSelectedDesignId(prev => prev && targets.has(prev) ? null : prev);
+    }
+  }, [saveSnapshot]);
+
+  const handleLockSelection = useCallback(() => {
+    handleSetDesignFlag(selectedDesignIds.size > 0 ? selectedDesignIds : (selectedDesignId ? [selectedDesignId] : []), 'locked', true);
+  }, [selectedDesignId, selectedDesignIds, handleSetDesignFlag]);
+
+  const handleHideSelection = useCallback(() => {
+    handleSetDesignFlag(selectedDesignIds.size > 0 ? selectedDesignIds : (selectedDesignId ? [selectedDesignId] : []), 'hidden', true);
+  }, [selectedDesignId, selectedDesignIds, handleSetDesignFlag]);
+
   const handleAutoArrange = useCallback((opts?: { skipSnapshot?: boolean; preserveSelection?: boolean }) => {
     if (designs.length === 0) return;
     if (!opts?.skipSnapshot) saveSnapshot();
@@ -1076,13 +1354,30 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     const usableH = artboardHeight;
 
     const arrangeSelection = selectedDesignIds.size >= 2;
-    const designsToArrange = arrangeSelection
-      ? designs.filter(d => selectedDesignIds.has(d.id))
-      : designs;
+    // With auto height on, a full arrange redistributes every design over as many sheets as needed
+    // (worker only; the main-thread fallback arranges the active sheet).
+    // Locked designs stay put as obstacles, so they pin a full arrange to the active sheet.
+    const spreadSheets = autoSheetHeight && !arrangeSelection && !designs.some(d => d.locked && !d.hidden) && getArrangeWorker() !== null;
+    const designsToArrange = (arrangeSelection
+      ? sheetDesigns.filter(d => selectedDesignIds.has(d.id))
+      : spreadSheets ? designs : sheetDesigns).filter(isSelectable);
+
+    // Designs left in place that the arranged ones must avoid: everything outside the selection, or the locked ones.
+    const obstacles = arrangeSelection
+      ? sheetDesigns.filter(d => !selectedDesignIds.has(d.id) && !d.hidden)
+      : sheetDesigns.filter(d => d.locked && !d.hidden);
+    const fixedRects: Array<{ x: number; y: number; w: number; h: number }> | undefined = obstacles.length > 0
+      ? obstacles.map(d => {
+          // Angled arrange leaves designs at any rotation, so obstacles take their full rotated bounds.
+          const { w, h } = getArrangeFootprint(d);
+          const box = rotatedBounds(d.transform.nx * artboardWidth, d.transform.ny * artboardHeight, w, h, d.transform.rotation);
+          return { x: box.left, y: box.top, w: box.right - box.left, h: box.bottom - box.top };
+        })
+      : undefined;
 
-    if (designsToArrange.length === 1 && !arrangeSelection) {
-      const d = designs[0];
-      setDesigns([{ ...d, transform: { ...d.transform, nx: 0.5, ny: 0.5 } }]);
+    if (designsToArrange.length === 1 && !arrangeSelection && !fixedRects) {
+      const only = designsToArrange[0];
+      setDesigns(prev => prev.map(d => d.id === only.id ? { ...d, transform: { ...d.transform, nx: 0.5, ny: 0.5 } } : d));
       if (!opts?.preserveSelection) {
         setSelectedDesignId(null);
         setSelectedDesignIds(new Set());
@@ -1090,7 +1385,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       return;
     }
 
-    if (designsToArrange.length < 2) return;
+    if (designsToArrange.length < (fixedRects ? 1 : 2)) return;
 
     const fillCache = contentFillCacheRef.current;
     const getContentFill = (d: DesignItem): number => {
@@ -1119,28 +1414,34 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       return fill;
     };
 
-    const items = designsToArrange.map(d => ({
-      id: d.id,
-      w: d.widthInches * d.transform.s,
-      h: d.heightInches * d.transform.s,
-      fill: getContentFill(d),
+    const getFootprint = getArrangeFootprint;
+
+    // Each group is packed as one rigid box and expanded back to its designs afterwards.
+    const units = buildArrangeUnits(designsToArrange, getFootprint, artboardWidth, d => sheetHeights[d.sheet ?? 0] ?? artboardHeight);
+    const items = units.map(u => ({
+      id: u.id,
+      w: u.w,
+      h: u.h,
+      fill: u.design ? getContentFill(u.design) : u.members!.reduce((sum, m) => sum + getContentFill(m.design), 0) / u.members!.length,
     }));
 
-    const fixedRects: Array<{ x: number; y: number; w: number; h: number }> | undefined = arrangeSelection
-      ? designs.filter(d => !selectedDesignIds.has(d.id)).map(d => {
-          const t = d.transform;
-          let w = d.widthInches * t.s;
-          let h = d.heightInches * t.s;
-          if (t.rotation === 90 || t.rotation === -270 || t.rotation === 270 || t.rotation === -90) { const tmp = w; w = h; h = tmp; }
-          const cx = t.nx * artboardWidth;
-          const cy = t.ny * artboardHeight;
-          return { x: cx - w / 2, y: cy - h / 2, w, h };
-        })
-      : undefined;
+    // Nesting outline in the design's own frame (flip applied, rotation not): the cutline when there is one, else the artwork silhouette.
+    const getNestOutline = async (d: DesignItem): Promise<Array<{ x: number; y: number }> | undefined> => {
+      const w = d.widthInches * d.transform.s;
+      const h = d.heightInches * d.transform.s;
+      let path = d.cutline?.enabled ? cutlinePaths.get(d.id) : undefined;
+      if (path) path = simplifyOutline(path);
+      else if (!d.cutline?.enabled) path = (await computeDesignOutline(d).catch(() => null)) ?? undefined;
+      if (!path || path.points.length < 3) return undefined;
+      const fx = d.transform.flipX ? -1 : 1;
+      const fy = d.transform.flipY ? -1 : 1;
+      return scaleCutlineToDesign(path, w, h).points.map(p => ({ x: p.x * fx, y: p.y * fy }));
+    };
 
     type PlacedItem = { id: string; nx: number; ny: number; rotation: number; overflows: boolean };
 
-    const applyResult = (bestResult: PlacedItem[], anyRotated: boolean, hasOverflow: boolean) => {
+    const applyResult = (unitResult: PlacedItem[], anyRotated: boolean, hasOverflow: boolean) => {
+      const bestResult = expandUnitPlacements(units, unitResult, artboardWidth, artboardHeight);
       if (hasOverflow) {
         toast({ title: t("toast.noSpace"), description: t("toast.noSpaceDesc"), variant: "destructive" });
         return;
@@ -1159,6 +1460,41 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       }
     };
 
+    // Spreads the worker's per-sheet placements over the editor's sheets.
+    const applySheets = (sheets: Array<{ result: PlacedItem[]; artboardHeight: number }>) => {
+      if (sheets.some(sheet => sheet.result.some(p => p.overflows))) {
+        toast({ title: t("toast.noSpace"), description: t("toast.noSpaceDesc"), variant: "destructive" });
+        return;
+      }
+      const placements = new Map<string, { placed: PlacedItem; sheet: number }>();
+      sheets.forEach((sheet, i) => expandUnitPlacements(units, sheet.result, artboardWidth, sheet.artboardHeight)
+        .forEach(placed => placements.set(placed.id, { placed, sheet: i })));
+      const heights = sheets.map(sheet => sheet.artboardHeight);
+      setSheetHeights(heights);
+      setActiveSheet(prev => Math.min(prev, heights.length - 1));
+      setDesigns(prev => prev.map(d => {
+        const p = placements.get(d.id);
+        // Designs left out of the arrange (hidden ones) move to the last sheet if theirs is gone.
+        if (!p) return (d.sheet ?? 0) < heights.length ? d : { ...d, sheet: heights.length - 1 || undefined };
+        return { ...d, sheet: p.sheet || undefined, transform: { ...d.transform, nx: p.placed.nx, ny: p.placed.ny, rotation: p.placed.rotation } };
+      }));
+      if (heights.length > 1) {
+        toast({
+          title: t("toast.sheetsSplit", { count: heights.length }),
+          description: t("toast.sheetsSplitDesc", { count: heights.length, dimensions: formatDimensions(artboardWidth, heights[heights.length - 1], lang) }),
+        });
+      } else if (heights[0] !== artboardHeight) {
+        toast({
+          title: t("toast.sheetHeightFitted"),
+          description: t("toast.sheetHeightFittedDesc", { dimensions: formatDimensions(artboardWidth, heights[0], lang) }),
+        });
+      }
+      if (!opts?.preserveSelection) {
+        setSelectedDesignId(null);
+        setSelectedDesignIds(new Set());
+      }
+    };
+
     const worker = getArrangeWorker();
     if (fixedRects && fixedRects.length > 0 && !worker) {
       toast({ title: t("toast.arrangeUnavailable"), description: t("toast.arrangeUnavailableDesc"), variant: "destructive" });
@@ -1167,6 +1503,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     if (worker) {
       const requestId = ++_arrangeReqCounter;
       let settled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
       const cleanup = () => { worker.removeEventListener('message', handler); clearTimeout(timer); };
       const handler = (e: MessageEvent) => {
         if (e.data.requestId !== requestId) return;
@@ -1174,25 +1511,42 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         settled = true;
         cleanup();
         if (e.data.type === 'error') { console.warn('Arrange worker error:', e.data.error); return; }
+        if (e.data.sheets) { applySheets(e.data.sheets); return; }
         const bestResult: PlacedItem[] = e.data.result;
         const anyRotated = bestResult.some(p => p.rotation !== 0);
         const hasOverflow = bestResult.some(p => p.overflows);
         applyResult(bestResult, anyRotated, hasOverflow);
       };
-      const timer = setTimeout(() => { if (!settled) { settled = true; cleanup(); } }, 30_000);
-      worker.addEventListener('message', handler);
-      worker.postMessage({
-        type: 'arrange',
-        requestId,
-        items,
-        usableW,
-        usableH,
-        artboardWidth,
-        artboardHeight,
-        isAggressive,
-        customGap: designGap,
-        fixedRects,
-      });
+      const post = (arrangeItems: typeof items) => {
+        timer = setTimeout(() => { if (!settled) { settled = true; cleanup(); } }, 30_000);
+        worker.addEventListener('message', handler);
+        worker.postMessage({
+          type: 'arrange',
+          requestId,
+          items: arrangeItems,
+          usableW,
+          usableH,
+          artboardWidth,
+          artboardHeight,
+          isAggressive,
+          customGap: designGap,
+          fixedRects,
+          nesting: nestingStep > 0 ? { rotationStep: nestingStep } : undefined,
+          rotationAngles: angleStep > 0 ? arrangeRotationAngles(angleStep) : undefined,
+          candidateHeights: spreadSheets ? profile.gangsheetHeights : undefined,
+        });
+      };
+      if (nestingStep > 0 || angleStep > 0) {
+        // Groups nest as their bounding box.
+        Promise.all(units.map(u => u.design ? getNestOutline(u.design) : undefined))
+          .then(outlines => post(items.map((item, i) => ({ ...item, outline: outlines[i] }))))
+          .catch(err => {
+            console.warn('Arrange outline error:', err);
+            toast({ title: t("toast.arrangeFailed"), description: t("toast.arrangeFailedDesc"), variant: "destructive" });
+          });
+      } else {
+        post(items);
+      }
     } else {
       // Fallback: synchronous on main thread (same logic lives in arrange-worker.ts)
       // This path only triggers if the worker fails to load
@@ -1396,7 +1750,82 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       const best = cands[0].result;
       applyResult(best, best.some(p => p.rotation !== 0), best.some(p => p.overflows));
     }
-  }, [designs, selectedDesignIds, artboardWidth, artboardHeight, saveSnapshot, toast, designGap]);
+  }, [designs, sheetDesigns, selectedDesignIds, artboardWidth, artboardHeight, sheetHeights, saveSnapshot, toast, designGap, cutlinePaths, getArrangeFootprint, nestingStep, angleStep, autoSheetHeight, profile.gangsheetHeights, lang]);
+
+  // Adds as many linked copies of a design as the arrange worker can fit around everything
+  // already on its sheet; existing placements are left untouched.
+  const handleFillRemaining = useCallback((designId: string) => {
+    const source = designs.find(d => d.id === designId);
+    if (!source) return;
+    const worker = getArrangeWorker();
+    if (!worker) {
+      toast({ title: t("toast.arrangeUnavailable"), description: t("toast.arrangeUnavailableDesc"), variant: "destructive" });
+      return;
+    }
+
+    const sheet = source.sheet ?? 0;
+    const sheetHeight = sheetHeights[sheet] ?? artboardHeight;
+    const gap = designGap !== undefined && designGap >= 0 ? designGap : 0.25;
+    const fixedRects = designs.filter(d => (d.sheet ?? 0) === sheet && !d.hidden).map(d => {
+      const { w, h } = getArrangeFootprint(d);
+      const rad = ((d.transform.rotation ?? 0) * Math.PI) / 180;
+      const cos = Math.abs(Math.cos(rad)), sin = Math.abs(Math.sin(rad));
+      const bw = w * cos + h * sin;
+      const bh = w * sin + h * cos;
+      const cx = d.transform.nx * artboardWidth;
+      const cy = d.transform.ny * sheetHeight;
+      return { x: cx - bw / 2, y: cy - bh / 2, w: bw, h: bh };
+    });
+
+    const { w, h } = getArrangeFootprint(source);
+    const freeArea = artboardWidth * sheetHeight - fixedRects.reduce((sum, r) => sum + r.w * r.h, 0);
+    const estimate = Math.min(MAX_FILL_COPIES, Math.ceil(freeArea / (w * h)));
+    if (estimate <= 0) {
+      toast({ title: t("toast.fillNoRoom"), description: t("toast.fillNoRoomDesc"), variant: "destructive" });
+      return;
+    }
+
+    const requestId = ++_arrangeReqCounter;
+    let settled = false;
+    const cleanup = () => { worker.removeEventListener('message', handler); clearTimeout(timer); };
+    const handler = (e: MessageEvent) => {
+      if (e.data.requestId !== requestId) return;
+      if (settled) return;
+      settled = true;
+      cleanup();
+      if (e.data.type === 'error') { console.warn('Arrange worker error:', e.data.error); return; }
+      const placed: Array<{ id: string; nx: number; ny: number; rotation: number; overflows: boolean }> = e.data.result.filter((p: { overflows: boolean }) => !p.overflows);
+      if (placed.length === 0) {
+        toast({ title: t("toast.fillNoRoom"), description: t("toast.fillNoRoomDesc"), variant: "destructive" });
+        return;
+      }
+      const current = designsRef.current;
+      const latest = current.find(d => d.id === designId);
+      if (!latest) return;
+      const { designs: next, copies } = withLinkedCopies(current, latest, placed.length);
+      const positioned = new Map(copies.map((c, i) => [c.id, placed[i]]));
+      saveSnapshot();
+      setDesigns(next.map(d => {
+        const p = positioned.get(d.id);
+        return p ? { ...d, transform: { ...d.transform, nx: p.nx, ny: p.ny, rotation: p.rotation } } : d;
+      }));
+      toast({ title: t("toast.filledCopies", { count: placed.length }), description: t("toast.filledCopiesDesc", { name: copyBaseName(latest.name) }) });
+    };
+    const timer = setTimeout(() => { if (!settled) { settled = true; cleanup(); } }, 30_000);
+    worker.addEventListener('message', handler);
+    worker.postMessage({
+      type: 'arrange',
+      requestId,
+      items: Array.from({ length: estimate }, (_, i) => ({ id: `fill-${i}`, w, h, fill: 1 })),
+      usableW: artboardWidth,
+      usableH: sheetHeight,
+      artboardWidth,
+      artboardHeight: sheetHeight,
+      isAggressive: true,
+      customGap: gap,
+      fixedRects,
+    });
+  }, [designs, sheetHeights, artboardWidth, artboardHeight, designGap, getArrangeFootprint, saveSnapshot, toast, lang]);
 
   const handleArtboardResize = useCallback((newWidth: number, newHeight: number) => {
     if (newWidth <= 0 || newHeight <= 0) return;
@@ -1412,6 +1841,10 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     const oldH = artboardHeight;
 
     setDesigns(prev => prev.map(d => {
+      // Width is shared by every sheet; height only changes on the active one.
+      if ((d.sheet ?? 0) !== activeSheet) {
+        return { ...d, transform: { ...d.transform, nx: (d.transform.nx * oldW) / newWidth } };
+      }
       const absCx = d.transform.nx * oldW;
       const absCy = d.transform.ny * oldH;
       return {
@@ -1422,14 +1855,14 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
 
     setArtboardWidth(newWidth);
     setArtboardHeight(newHeight);
-  }, [designs, artboardWidth, artboardHeight, saveSnapshot]);
+  }, [designs, artboardWidth, artboardHeight, saveSnapshot, activeSheet, setArtboardHeight]);
 
   const GANGSHEET_HEIGHTS = profile.gangsheetHeights;
   const MAX_ARTBOARD_HEIGHT = GANGSHEET_HEIGHTS[GANGSHEET_HEIGHTS.length - 1];
   const recommendedArtboardHeight = useMemo(() => {
-    if (designs.length === 0) return null;
+    if (sheetDesigns.length === 0) return null;
     let minY = Infinity, maxY = -Infinity;
-    for (const d of designs) {
+    for (const d of sheetDesigns) {
       const rad = ((d.transform.rotation ?? 0) * Math.PI) / 180;
       const cos = Math.abs(Math.cos(rad)), sin = Math.abs(Math.sin(rad));
       const halfH = (d.widthInches * d.transform.s * sin + d.heightInches * d.transform.s * cos) / 2;
@@ -1439,7 +1872,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     }
     const requiredH = maxY - minY + (designGap ?? 0.25) * 2;
     return GANGSHEET_HEIGHTS.find(h => h >= requiredH) ?? null;
-  }, [designs, artboardHeight, designGap, GANGSHEET_HEIGHTS]);
+  }, [sheetDesigns, artboardHeight, designGap, GANGSHEET_HEIGHTS]);
   const handleExpandArtboard = useCallback(() => {
     if (artboardHeight >= MAX_ARTBOARD_HEIGHT) return;
     const nextHeight = GANGSHEET_HEIGHTS.find(h => h > artboardHeight) ?? MAX_ARTBOARD_HEIGHT;
@@ -1467,6 +1900,22 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   handlePasteRef.current = handlePaste;
   const handleRotate90Ref = useRef(handleRotate90);
   handleRotate90Ref.current = handleRotate90;
+  const handleAlignRef = useRef(handleAlign);
+  handleAlignRef.current = handleAlign;
+  const handleDistributeRef = useRef(handleDistribute);
+  handleDistributeRef.current = handleDistribute;
+  const handlePackSelectionRef = useRef(handlePackSelection);
+  handlePackSelectionRef.current = handlePackSelection;
+  const handleGroupSelectionRef = useRef(handleGroupSelection);
+  handleGroupSelectionRef.current = handleGroupSelection;
+  const handleUngroupSelectionRef = useRef(handleUngroupSelection);
+  handleUngroupSelectionRef.current = handleUngroupSelection;
+  const handleZOrderRef = useRef(handleZOrder);
+  handleZOrderRef.current = handleZOrder;
+  const handleLockSelectionRef = useRef(handleLockSelection);
+  handleLockSelectionRef.current = handleLockSelection;
+  const handleHideSelectionRef = useRef(handleHideSelection);
+  handleHideSelectionRef.current = handleHideSelection;
   const selectedDesignIdRef = useRef(selectedDesignId);
   selectedDesignIdRef.current = selectedDesignId;
   const showDesignInfoRef = useRef(showDesignInfo);
@@ -1511,13 +1960,32 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       }
       if (ctrl && e.key === 'a') {
         e.preventDefault();
-        const allIds = designsRef.current.map(d => d.id);
+        const allIds = sheetDesignsRef.current.filter(isSelectable).map(d => d.id);
         if (allIds.length > 0) {
           setSelectedDesignIds(new Set(allIds));
           setSelectedDesignId(allIds[allIds.length - 1]);
         }
         return;
       }
+      if (ctrl && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) handleUngroupSelectionRef.current();
+        else handleGroupSelectionRef.current();
+        return;
+      }
+      // Brackets by physical key: Shift turns them into braces.
+      if (ctrl && (e.code === 'BracketRight' || e.code === 'BracketLeft')) {
+        e.preventDefault();
+        const up = e.code === 'BracketRight';
+        handleZOrderRef.current(e.shiftKey ? (up ? 'front' : 'back') : (up ? 'forward' : 'backward'));
+        return;
+      }
+      if (ctrl && e.shiftKey && (e.key.toLowerCase() === 'l' || e.key.toLowerCase() === 'h')) {
+        e.preventDefault();
+        if (e.key.toLowerCase() === 'l') handleLockSelectionRef.current();
+        else handleHideSelectionRef.current();
+        return;
+      }
       if (ctrl && e.key === 'd') {
         e.preventDefault();
         if (selectedDesignIdsRef.current.size > 1) {
@@ -1530,6 +1998,25 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         }
         return;
       }
+      if (selId && e.altKey && !ctrl) {
+        const key = e.code.replace(/^Key/, '');
+        const edge = e.shiftKey ? ALIGN_SHORTCUT_KEYS[key] : undefined;
+        if (edge) {
+          e.preventDefault();
+          handleAlignRef.current(edge);
+          return;
+        }
+        if (e.shiftKey && (key === 'H' || key === 'V' || key === 'X' || key === 'Y')) {
+          e.preventDefault();
+          handleDistributeRef.current(key === 'H' || key === 'X' ? 'x' : 'y', key === 'H' || key === 'V' ? 'gaps' : 'centers');
+          return;
+        }
+        if (key === 'P') {
+          e.preventDefault();
+          handlePackSelectionRef.current(e.shiftKey ? 'y' : 'x');
+          return;
+        }
+      }
       if ((e.key === 'Delete' || e.key === 'Backspace') && selId) {
         e.preventDefault();
         const idsToDelete = selectedDesignIdsRef.current;
@@ -1628,7 +2115,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       if (bestHeight && bestHeight > currentAbH) {
         effectiveAbH = bestHeight;
         if (currentDesignCount > 0) {
-          setDesigns(prev => prev.map(d => ({
+          setDesigns(prev => prev.map(d => (d.sheet ?? 0) !== activeSheetRef.current ? d : ({
             ...d,
             transform: { ...d.transform, ny: (d.transform.ny * currentAbH) / bestHeight },
           })));
@@ -1643,7 +2130,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         if (maxH > currentAbH) {
           effectiveAbH = maxH;
           if (currentDesignCount > 0) {
-            setDesigns(prev => prev.map(d => ({
+            setDesigns(prev => prev.map(d => (d.sheet ?? 0) !== activeSheetRef.current ? d : ({
               ...d,
               transform: { ...d.transform, ny: (d.transform.ny * currentAbH) / maxH },
             })));
@@ -1699,6 +2186,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       name: newImageInfo.file.name,
       originalDPI: newImageInfo.dpi,
       ...(alphaThresholded ? { alphaThresholded: true } : {}),
+      ...(activeSheetRef.current > 0 ? { sheet: activeSheetRef.current } : {}),
     };
     setDesigns(prev => [...prev, newDesignItem]);
     setSelectedDesignId(newDesignId);
@@ -1746,7 +2234,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       applyImageDirectly(newImageInfo, widthInches, heightInches, imageHasCleanAlpha(finalImage));
 
       const effectiveDPI = Math.min(finalImage.width / widthInches, finalImage.height / heightInches);
-      if (effectiveDPI < 278) {
+      if (effectiveDPI < profile.lowResWarningDpi) {
         toast({
           title: t("toast.lowRes"),
           description: t("toast.lowResDesc", { dpi: Math.round(effectiveDPI) }),
@@ -1763,7 +2251,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     } else {
       processImage(image);
     }
-  }, [applyImageDirectly, toast]);
+  }, [applyImageDirectly, toast, profile.lowResWarningDpi]);
 
   const handleImageUpload = useCallback(async (file: File, image: HTMLImageElement) => {
     try {
@@ -1884,7 +2372,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       setTimeout(() => { setIsUploading(false); setUploadProgress(0); }, 300);
 
       const effectiveDPI = Math.min(physicalWidth / widthInches, physicalHeight / heightInches);
-      if (effectiveDPI < 278) {
+      if (effectiveDPI < profile.lowResWarningDpi) {
         toast({
           title: t("toast.lowRes"),
           description: t("toast.lowResDesc", { dpi: Math.round(effectiveDPI) }),
@@ -1907,7 +2395,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         toast({ title: t("toast.uploadFailed"), description: t("toast.uploadFailedDesc"), variant: "destructive" });
       }
     }
-  }, [applyImageDirectly, toast, handleFallbackImage, artboardWidth, artboardHeight]);
+  }, [applyImageDirectly, toast, handleFallbackImage, artboardWidth, artboardHeight, profile.lowResWarningDpi]);
 
   const handlePDFUpload = useCallback((file: File, pdfData: ParsedPDFData) => {
     if (document.activeElement instanceof HTMLElement) {
@@ -1924,6 +2412,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       dpi,
       isPDF: true,
       originalPdfData,
+      pdfPageIndex: pdfData.pageIndex,
     };
     
     const widthInches = Math.max(0.01, parseFloat((image.width / dpi).toFixed(2)));
@@ -1932,6 +2421,67 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     applyImageDirectly(newImageInfo, widthInches, heightInches);
   }, [applyImageDirectly]);
 
+  const handleSVGUpload = useCallback((file: File, svgData: ParsedSVGData) => {
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+
+    const { image, svgSource, dpi } = svgData;
+
+    const newImageInfo: ImageInfo = {
+      file,
+      image,
+      originalWidth: image.width,
+      originalHeight: image.height,
+      dpi,
+      svgSource,
+    };
+
+    const widthInches = Math.max(0.01, parseFloat((image.width / dpi).toFixed(2)));
+    const heightInches = Math.max(0.01, parseFloat((image.height / dpi).toFixed(2)));
+
+    applyImageDirectly(newImageInfo, widthInches, heightInches);
+  }, [applyImageDirectly]);
+
+  // Files dropped together take turns with the picker; resolves with the chosen pages (none if cancelled).
+  const pickPdfPages = useCallback((request: PdfPageRequest): Promise<number[]> => {
+    const picked = pdfPickerQueueRef.current.then(() => new Promise<number[]>(resolve => {
+      pdfPageResolverRef.current = resolve;
+      setPdfPageRequest(request);
+    }));
+    pdfPickerQueueRef.current = picked;
+    return picked;
+  }, []);
+
+  const resolvePdfPages = useCallback((pageIndexes: number[]) => {
+    pdfPageResolverRef.current?.(pageIndexes);
+    pdfPageResolverRef.current = null;
+    setPdfPageRequest(null);
+  }, []);
+
+  // Multi-page documents open the page picker; every chosen page becomes its own design.
+  const importVectorDocument = useCallback(async (file: File) => {
+    const data = await loadPdfSource(file);
+    const pageCount = await getPdfPageCount(data);
+    const pageIndexes = pageCount > 1
+      ? await pickPdfPages({ fileName: file.name, data, pageCount })
+      : [0];
+    for (const pageIndex of pageIndexes) {
+      const pdfData = await parsePDF(file, pageIndex, data);
+      const pageFile = pageCount > 1
+        ? new File([file], file.name.replace(/(\.[^.]+)?$/, ` (${pageIndex + 1})$1`), { type: file.type })
+        : file;
+      handlePDFUpload(pageFile, pdfData);
+    }
+  }, [handlePDFUpload, pickPdfPages]);
+
+  // AI/EPS failures usually mean a file saved without PDF compatibility or a server without Ghostscript.
+  const vectorImportFailedDescription = useCallback((file: File, fallbackKey: string) => {
+    if (isAIFile(file)) return t("toast.aiFailedDesc");
+    if (isEPSFile(file)) return t("toast.epsFailedDesc");
+    return t(fallbackKey);
+  }, [t]);
+
   const handleBatchStart = useCallback((fileCount: number) => {
     const targetHeight = Math.min(48, profile.gangsheetHeights[profile.gangsheetHeights.length - 1]);
     const validHeight = profile.gangsheetHeights.reduce((best, h) => h <= targetHeight && h > best ? h : best, profile.gangsheetHeights[0]);
@@ -1941,29 +2491,36 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
   }, [profile.gangsheetHeights]);
 
   const handleFileUploadUnified = useCallback(async (file: File, image: HTMLImageElement | null) => {
-    const ext = file.name.toLowerCase();
-    const isPdf = file.type === 'application/pdf' || ext.endsWith('.pdf');
-    if (isPdf) {
+    if (isVectorDocumentFile(file)) {
       try {
         setIsUploading(true);
-        const pdfData = await parsePDF(file);
-        handlePDFUpload(file, pdfData);
+        await importVectorDocument(file);
       } catch (err) {
         console.error('PDF parse error:', err);
-        toast({ title: t("toast.pdfFailed"), description: t("toast.pdfFailedDesc"), variant: "destructive" });
+        toast({ title: t("toast.pdfFailed"), description: vectorImportFailedDescription(file, "toast.pdfFailedDesc"), variant: "destructive" });
       } finally {
         setIsUploading(false);
       }
       return;
     }
+    if (isSVGFile(file)) {
+      try {
+        handleSVGUpload(file, await parseSVG(file));
+      } catch (err) {
+        console.error('SVG parse error:', err);
+        toast({ title: t("toast.svgFailed"), description: t("toast.svgFailedDesc"), variant: "destructive" });
+      }
+      return;
+    }
     if (image) handleImageUpload(file, image);
-  }, [handleImageUpload, handlePDFUpload, toast]);
+  }, [handleImageUpload, importVectorDocument, vectorImportFailedDescription, handleSVGUpload, toast]);
 
   const processSidebarFile = useCallback((file: File): Promise<void> => {
     const ext = file.name.toLowerCase();
-    const isPdf = file.type === 'application/pdf' || ext.endsWith('.pdf');
+    const isPdf = isVectorDocumentFile(file);
+    const isSvg = isSVGFile(file);
     const isImage = ['image/png', 'image/jpeg', 'image/webp'].includes(file.type) || ['.png', '.jpg', '.jpeg', '.webp'].some(x => ext.endsWith(x));
-    if (!isImage && !isPdf) {
+    if (!isImage && !isPdf && !isSvg) {
       toast({ title: t("toast.unsupportedFormat"), description: t("toast.formatOnly"), variant: "destructive" });
       return Promise.resolve();
     }
@@ -1971,16 +2528,21 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       return (async () => {
         try {
           setIsUploading(true);
-          const pdfData = await parsePDF(file);
-          handlePDFUpload(file, pdfData);
+          await importVectorDocument(file);
         } catch (err) {
           console.error('PDF parse error:', err);
-          toast({ title: t("toast.pdfFailed"), description: t("toast.pdfFailedShort"), variant: "destructive" });
+          toast({ title: t("toast.pdfFailed"), description: vectorImportFailedDescription(file, "toast.pdfFailedShort"), variant: "destructive" });
         } finally {
           setIsUploading(false);
         }
       })();
     }
+    if (isSvg) {
+      return parseSVG(file).then(svgData => handleSVGUpload(file, svgData), (err) => {
+        console.error('SVG parse error:', err);
+        toast({ title: t("toast.svgFailed"), description: t("toast.svgFailedDesc"), variant: "destructive" });
+      });
+    }
     return new Promise<void>((resolve) => {
       const url = URL.createObjectURL(file);
       const img = new Image();
@@ -2012,7 +2574,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
       };
       img.src = url;
     });
-  }, [handleImageUpload, handlePDFUpload, toast]);
+  }, [handleImageUpload, importVectorDocument, vectorImportFailedDescription, handleSVGUpload, toast]);
 
   const handleSidebarFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files ? Array.from(e.target.files) : [];
@@ -2160,8 +2722,130 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     toast({ title: t("toast.cropApplied"), description: t("toast.cropAppliedDesc") });
   }, [designs, selectedDesignId, saveSnapshot, toast, setImageInfo]);
 
-  const handleDownload = useCallback(async (downloadType: string = 'standard', format: string = 'png', spotColorsByDesign?: Record<string, any[]>) => {
-    if (designs.length === 0) {
+  const handleAddGuide = useCallback((axis: SheetGuide["axis"], pos: number) => {
+    saveSnapshot();
+    setGuides(prev => [...prev, { id: crypto.randomUUID(), axis, pos, sheet: activeSheet || undefined }]);
+  }, [saveSnapshot, activeSheet]);
+
+  const handleMoveGuide = useCallback((id: string, pos: number) => {
+    saveSnapshot();
+    setGuides(prev => prev.map(g => g.id === id ? { ...g, pos } : g));
+  }, [saveSnapshot]);
+
+  const handleRemoveGuide = useCallback((id: string) => {
+    saveSnapshot();
+    setGuides(prev => prev.filter(g => g.id !== id));
+  }, [saveSnapshot]);
+
+  // Vector sources are already rasterized at the export size, so only bitmaps that can still grow qualify.
+  const canUpscaleDesign = useCallback((design: DesignItem) => {
+    const { imageInfo: info } = design;
+    return !info.svgSource && !info.isPDF && maxUpscaleFactor(info.originalWidth, info.originalHeight) >= 2;
+  }, []);
+
+  // Copies share their ImageInfo, so every copy of the upscaled design picks up the new bitmap.
+  const handleUpscaleApply = useCallback((designId: string, newImageInfo: ImageInfo) => {
+    const design = designs.find(d => d.id === designId);
+    if (!design) return;
+    saveSnapshot();
+    const sourceInfo = design.imageInfo;
+    setDesigns(prev => prev.map(d =>
+      d.imageInfo === sourceInfo
+        ? { ...d, imageInfo: newImageInfo, originalDPI: newImageInfo.dpi }
+        : d
+    ));
+    if (selectedDesignId && designs.some(d => d.id === selectedDesignId && d.imageInfo === sourceInfo)) setImageInfo(newImageInfo);
+    setUpscaleModalDesignId(null);
+    toast({ title: t("toast.upscaleApplied"), description: t("toast.upscaleAppliedDesc", { width: newImageInfo.originalWidth, height: newImageInfo.originalHeight }) });
+  }, [designs, selectedDesignId, saveSnapshot, toast, setImageInfo]);
+
+  const handleSaveProject = useCallback(async (name: string, asNew: boolean) => {
+    try {
+      const saved = await saveProject(
+        { name, profileId: profile.id, artboardWidth, artboardHeight: sheetHeights[0], designGap, sheetHeights, guides, designs },
+        asNew ? null : projectId,
+      );
+      setProjectId(saved.id);
+      setProjectName(saved.name);
+      toast({ title: t("toast.projectSaved"), description: t("toast.projectSavedDesc", { name: saved.name }) });
+    } catch (error) {
+      console.error("Project save failed:", error);
+      toast({ title: t("toast.projectSaveFailed"), description: error instanceof Error ? error.message : t("toast.downloadFailedDesc"), variant: "destructive" });
+    }
+  }, [profile.id, artboardWidth, sheetHeights, designGap, guides, designs, projectId, toast]);
+
+  const applyProjectState = useCallback((state: ProjectState) => {
+    setDesigns(state.designs);
+    setArtboardWidth(state.artboardWidth);
+    setSheetHeights(state.sheetHeights && state.sheetHeights.length > 0 ? state.sheetHeights : [state.artboardHeight]);
+    setActiveSheet(0);
+    setGuides(state.guides ?? []);
+    setDesignGap(state.designGap);
+    const last = state.designs[state.designs.length - 1];
+    if (last) {
+      setImageInfo(last.imageInfo);
+      setDesignTransform(last.transform);
+      setResizeSettings(prev => ({ ...prev, widthInches: last.widthInches, heightInches: last.heightInches }));
+    }
+    setSelectedDesignId(last?.id ?? null);
+    setSelectedDesignIds(new Set());
+    setProjectName(state.name);
+  }, []);
+
+  const handleOpenProject = useCallback(async (id: number) => {
+    try {
+      const loaded = await loadProject(id);
+      saveSnapshot();
+      applyProjectState(loaded);
+      setProjectId(loaded.id);
+      setProjectModalOpen(false);
+      toast({ title: t("toast.projectLoaded"), description: t("toast.projectLoadedDesc", { name: loaded.name }) });
+    } catch (error) {
+      console.error("Project load failed:", error);
+      toast({ title: t("toast.projectLoadFailed"), description: error instanceof Error ? error.message : t("toast.downloadFailedDesc"), variant: "destructive" });
+    }
+  }, [saveSnapshot, applyProjectState, toast]);
+
+  const handleImportProjectFile = useCallback(async (file: File) => {
+    try {
+      const imported = await importGangsheetFile(file);
+      applyProjectState(imported);
+      setProjectId(null);
+      resetHistory();
+      if (imported.profileId !== profile.id) {
+        toast({ title: t("toast.projectLoaded"), description: t("toast.projectOtherProfile", { name: imported.name }) });
+      } else {
+        toast({ title: t("toast.projectLoaded"), description: t("toast.projectLoadedDesc", { name: imported.name }) });
+      }
+    } catch (error) {
+      console.error("Gangsheet import failed:", error);
+      toast({ title: t("toast.projectLoadFailed"), description: error instanceof Error ? error.message : t("toast.pdfFailedShort"), variant: "destructive" });
+    }
+  }, [applyProjectState, resetHistory, profile.id, toast]);
+
+  const handleExportProjectFile = useCallback(async (name: string) => {
+    try {
+      const blob = await exportGangsheetFile({ name, profileId: profile.id, artboardWidth, artboardHeight: sheetHeights[0], designGap, sheetHeights, guides, designs });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${name.replace(/[\\/:*?"<>|]+/g, '_') || 'gangsheet'}${GANGSHEET_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 5000);
+    } catch (error) {
+      console.error("Gangsheet export failed:", error);
+      toast({ title: t("toast.projectSaveFailed"), description: error instanceof Error ? error.message : t("toast.downloadFailedDesc"), variant: "destructive" });
+    }
+  }, [profile.id, artboardWidth, sheetHeights, designGap, guides, designs, toast]);
+
+  const handleProjectDeleted = useCallback((id: number) => {
+    if (id === projectId) setProjectId(null);
+  }, [projectId]);
+
+  const handleDownload = useCallback(async (downloadType: string = 'standard', format: string = 'png', spotColorsByDesign?: Record<string, SpotColorInput[]>) => {
+    if (!designs.some(d => !d.hidden)) {
       toast({ title: t("toast.noDesigns"), description: t("toast.noDesignsDesc"), variant: "destructive" });
       return;
     }
@@ -2170,76 +2854,131 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
 
     try {
       const firstName = (designs[0]?.name || imageInfo?.file.name || 'gangsheet').replace(/\.[^/.]+$/, '');
+      const sheets = sheetHeights.map((height, i) => ({ height, designs: designs.filter(d => (d.sheet ?? 0) === i && !d.hidden) }));
 
       await new Promise(r => setTimeout(r, 50));
 
       if (format === 'pdf') {
         const { PDFDocument, degrees } = await import('pdf-lib');
-        const { addSpotColorVectorsToPDF } = await import('@/lib/spot-color-vectors');
+        const { addSpotColorVectorsToPDF, addCutContourToPDF } = await import('@/lib/spot-color-vectors');
 
-        const exportDpi = 300;
         const pageWidthPt = artboardWidth * 72;
-        const pageHeightPt = artboardHeight * 72;
         const pdfDoc = await PDFDocument.create();
-        const page = pdfDoc.addPage([pageWidthPt, pageHeightPt]);
-
-        for (const design of designs) {
-          const img = design.imageInfo.image;
-          const cvs = document.createElement('canvas');
-          const drawW = Math.round(design.widthInches * design.transform.s * exportDpi);
-          const drawH = Math.round(design.heightInches * design.transform.s * exportDpi);
-          cvs.width = drawW;
-          cvs.height = drawH;
-          const cctx = cvs.getContext('2d');
-          if (!cctx) continue;
-          if (design.transform.flipX || design.transform.flipY) {
-            cctx.save();
-            cctx.translate(design.transform.flipX ? drawW : 0, design.transform.flipY ? drawH : 0);
-            cctx.scale(design.transform.flipX ? -1 : 1, design.transform.flipY ? -1 : 1);
-            cctx.drawImage(img, 0, 0, drawW, drawH);
-            cctx.restore();
-          } else {
-            cctx.drawImage(img, 0, 0, drawW, drawH);
+
+        // Designs uploaded as PDFs keep their source page as vectors. Copies share one embedded page;
+        // a source pdf-lib can't read (e.g. encrypted) falls back to the raster.
+        const sourcePages = new Map<ArrayBuffer, Map<number, Promise<PDFEmbeddedPage | null>>>();
+        const embedSourcePage = (data: ArrayBuffer, pageIndex: number) => {
+          let pages = sourcePages.get(data);
+          if (!pages) {
+            pages = new Map();
+            sourcePages.set(data, pages);
           }
-          const pngDataUrl = cvs.toDataURL('image/png');
-          const pngBytes = Uint8Array.from(atob(pngDataUrl.split(',')[1]), c => c.charCodeAt(0));
-          const pdfImage = await pdfDoc.embedPng(pngBytes);
-
-          const designWidthPt = design.widthInches * design.transform.s * 72;
-          const designHeightPt = design.heightInches * design.transform.s * 72;
-          const centerXPt = design.transform.nx * pageWidthPt;
-          const centerYPt = pageHeightPt - design.transform.ny * pageHeightPt;
-          const rotDeg = design.transform.rotation ?? 0;
-
-          page.drawImage(pdfImage, {
-            x: centerXPt - designWidthPt / 2,
-            y: centerYPt - designHeightPt / 2,
-            width: designWidthPt,
-            height: designHeightPt,
-            rotate: degrees(-rotDeg),
-          });
+          let pending = pages.get(pageIndex);
+          if (!pending) {
+            pending = pdfDoc.embedPdf(data, [pageIndex]).then(([embedded]) => embedded, (err) => {
+              console.warn('Could not embed source PDF page, using raster:', err);
+              return null;
+            });
+            pages.set(pageIndex, pending);
+          }
+          return pending;
+        };
+
+        for (const sheet of sheets) {
+          const pageHeightPt = sheet.height * 72;
+          const page = pdfDoc.addPage([pageWidthPt, pageHeightPt]);
+
+          for (const design of sheet.designs) {
+            const img = design.imageInfo.image;
+            const designWidthPt = design.widthInches * design.transform.s * 72;
+            const designHeightPt = design.heightInches * design.transform.s * 72;
+            const centerXPt = design.transform.nx * pageWidthPt;
+            const centerYPt = pageHeightPt - design.transform.ny * pageHeightPt;
+            const rotDeg = design.transform.rotation ?? 0;
+            const rotRad = (-rotDeg * Math.PI) / 180;
+
+            // Thresholded designs no longer match their source page, so they stay raster.
+            const sourcePage = design.imageInfo.originalPdfData && !design.alphaThresholded
+              ? await embedSourcePage(design.imageInfo.originalPdfData, design.imageInfo.pdfPageIndex ?? 0)
+              : null;
+            if (sourcePage) {
+              // drawPage scales about the page's lower-left corner; negative scales mirror it, so the
+              // signed half-size puts that corner where a center rotation (and flip) leaves it.
+              const halfW = (design.transform.flipX ? -designWidthPt : designWidthPt) / 2;
+              const halfH = (design.transform.flipY ? -designHeightPt : designHeightPt) / 2;
+              page.drawPage(sourcePage, {
+                x: centerXPt - halfW * Math.cos(rotRad) + halfH * Math.sin(rotRad),
+                y: centerYPt - halfW * Math.sin(rotRad) - halfH * Math.cos(rotRad),
+                xScale: (2 * halfW) / sourcePage.width,
+                yScale: (2 * halfH) / sourcePage.height,
+                rotate: degrees(-rotDeg),
+              });
+            } else {
+              const cvs = document.createElement('canvas');
+              const drawW = Math.round(design.widthInches * design.transform.s * exportDpi);
+              const drawH = Math.round(design.heightInches * design.transform.s * exportDpi);
+              cvs.width = drawW;
+              cvs.height = drawH;
+              const cctx = cvs.getContext('2d');
+              if (!cctx) continue;
+              if (design.transform.flipX || design.transform.flipY) {
+                cctx.save();
+                cctx.translate(design.transform.flipX ? drawW : 0, design.transform.flipY ? drawH : 0);
+                cctx.scale(design.transform.flipX ? -1 : 1, design.transform.flipY ? -1 : 1);
+                cctx.drawImage(img, 0, 0, drawW, drawH);
+                cctx.restore();
+              } else {
+                cctx.drawImage(img, 0, 0, drawW, drawH);
+              }
+              const pngDataUrl = cvs.toDataURL('image/png');
+              cvs.width = 0;
+              cvs.height = 0;
+              const pngBytes = Uint8Array.from(atob(pngDataUrl.split(',')[1]), c => c.charCodeAt(0));
+              const pdfImage = await pdfDoc.embedPng(pngBytes);
+
+              // pdf-lib rotates about the image's lower-left corner, so place that corner where a center rotation puts it.
+              const cornerX = centerXPt - (designWidthPt / 2) * Math.cos(rotRad) + (designHeightPt / 2) * Math.sin(rotRad);
+              const cornerY = centerYPt - (designWidthPt / 2) * Math.sin(rotRad) - (designHeightPt / 2) * Math.cos(rotRad);
+
+              page.drawImage(pdfImage, {
+                x: cornerX,
+                y: cornerY,
+                width: designWidthPt,
+                height: designHeightPt,
+                rotate: degrees(-rotDeg),
+              });
+            }
 
-          if (spotColorsByDesign) {
-            const designSpotColors = spotColorsByDesign[design.id];
-            if (designSpotColors && designSpotColors.length > 0) {
-              const hasFluor = designSpotColors.some((c: any) => c.spotFluorY || c.spotFluorM || c.spotFluorG || c.spotFluorOrange);
-              if (hasFluor) {
-                const offsetXInches = design.transform.nx * artboardWidth - (design.widthInches * design.transform.s) / 2;
-                const offsetYInches = design.transform.ny * artboardHeight - (design.heightInches * design.transform.s) / 2;
-                await addSpotColorVectorsToPDF(
-                  pdfDoc, page, img, designSpotColors,
-                  design.widthInches * design.transform.s,
-                  design.heightInches * design.transform.s,
-                  artboardHeight,
-                  offsetXInches,
-                  offsetYInches,
-                  design.transform.rotation ?? 0,
-                );
+            if (spotColorsByDesign) {
+              const designSpotColors = spotColorsByDesign[design.id];
+              if (designSpotColors && designSpotColors.length > 0) {
+                const hasFluor = designSpotColors.some(c => c.spotFluorY || c.spotFluorM || c.spotFluorG || c.spotFluorOrange);
+                if (hasFluor) {
+                  const offsetXInches = design.transform.nx * artboardWidth - (design.widthInches * design.transform.s) / 2;
+                  const offsetYInches = design.transform.ny * sheet.height - (design.heightInches * design.transform.s) / 2;
+                  await addSpotColorVectorsToPDF(
+                    pdfDoc, page, img, designSpotColors,
+                    design.widthInches * design.transform.s,
+                    design.heightInches * design.transform.s,
+                    sheet.height,
+                    offsetXInches,
+                    offsetYInches,
+                    design.transform.rotation ?? 0,
+                  );
+                }
               }
             }
           }
-          cvs.width = 0;
-          cvs.height = 0;
+
+          const cutPaths: Array<Array<{ x: number; y: number }>> = [];
+          for (const design of sheet.designs) {
+            if (!design.cutline?.enabled) continue;
+            const path = await computeDesignCutline(design).catch(() => null) ?? cutlinePaths.get(design.id);
+            if (!path) continue;
+            cutPaths.push(cutlineToArtboard(path, design.transform, design.widthInches, design.heightInches, artboardWidth, sheet.height));
+          }
+          addCutContourToPDF(pdfDoc, page, cutPaths, sheet.height);
         }
 
         const pdfBytes = await pdfDoc.save();
@@ -2253,123 +2992,133 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         document.body.removeChild(link);
         setTimeout(() => URL.revokeObjectURL(url), 10000);
       } else {
-        const filename = `${firstName}.png`;
+        const renderOnServer = async (sheetItems: DesignItem[], sheetHeight: number): Promise<Blob> => {
+          const progressToast = toast({ title: t("toast.serverRender"), description: t("toast.serverRenderDesc", { dpi: exportDpi, percent: 0 }) });
+          try {
+            return await renderGangsheetOnServer(sheetItems, {
+              artboardWidth,
+              artboardHeight: sheetHeight,
+              dpi: exportDpi,
+              iccProfile: iccProfile ?? undefined,
+              onProgress: (progress) => progressToast.update({
+                id: progressToast.id,
+                title: t("toast.serverRender"),
+                description: t("toast.serverRenderDesc", { dpi: exportDpi, percent: Math.round(progress * 100) }),
+              }),
+            });
+          } finally {
+            progressToast.dismiss();
+          }
+        };
 
-        const worker = getExportWorker();
-        const useWorker = worker && typeof OffscreenCanvas !== 'undefined';
+        // TIFF is only built from worker strips; the canvas and server fallbacks produce PNG.
+        const renderSheetTiff = async (sheetItems: DesignItem[], sheetHeight: number): Promise<Blob> => {
+          if (!canExportInWorkers()) throw new Error(t("toast.tiffUnsupported"));
+          return exportTiffInWorkers(sheetItems, {
+            outW: Math.max(1, Math.round(artboardWidth * exportDpi)),
+            outH: Math.max(1, Math.round(sheetHeight * exportDpi)),
+            exportDpi,
+            iccProfile: iccProfile ?? undefined,
+          });
+        };
 
-        let exportDpi: number;
-        if (useWorker) {
-          exportDpi = 300;
-        } else {
-          const MAX_FALLBACK_PIXELS = 80_000_000;
-          const MAX_FALLBACK_DIM = 12_000;
-          const dpiByArea = Math.sqrt(MAX_FALLBACK_PIXELS / Math.max(1e-6, artboardWidth * artboardHeight));
-          const dpiByDim = Math.min(MAX_FALLBACK_DIM / artboardWidth, MAX_FALLBACK_DIM / artboardHeight);
-          exportDpi = Math.min(300, dpiByArea, dpiByDim);
-          if (exportDpi < 300) {
-            toast({
-              title: t("toast.largeSheet"),
-              description: t("toast.largeSheetDesc", { dpi: Math.floor(exportDpi) }),
-            });
+        const renderSheetPng = async (sheetItems: DesignItem[], sheetHeight: number): Promise<Blob> => {
+          const useWorker = canExportInWorkers();
+
+          let sheetDpi: number;
+          if (useWorker) {
+            sheetDpi = exportDpi;
+          } else {
+            const MAX_FALLBACK_PIXELS = 80_000_000;
+            const MAX_FALLBACK_DIM = 12_000;
+            const dpiByArea = Math.sqrt(MAX_FALLBACK_PIXELS / Math.max(1e-6, artboardWidth * sheetHeight));
+            const dpiByDim = Math.min(MAX_FALLBACK_DIM / artboardWidth, MAX_FALLBACK_DIM / sheetHeight);
+            sheetDpi = Math.min(exportDpi, dpiByArea, dpiByDim);
+            if (sheetDpi < exportDpi) {
+              // This canvas can't hold the sheet at the chosen DPI; have the server composite it before settling for less.
+              try {
+                return await renderOnServer(sheetItems, sheetHeight);
+              } catch (err) {
+                console.warn('Server render failed, exporting at reduced DPI:', err);
+              }
+              toast({
+                title: t("toast.largeSheet"),
+                description: t("toast.largeSheetDesc", { dpi: Math.floor(sheetDpi), target: exportDpi }),
+              });
+            }
           }
-        }
 
-        const outW = Math.max(1, Math.round(artboardWidth * exportDpi));
-        const outH = Math.max(1, Math.round(artboardHeight * exportDpi));
+          const outW = Math.max(1, Math.round(artboardWidth * sheetDpi));
+          const outH = Math.max(1, Math.round(sheetHeight * sheetDpi));
 
-        let pngBlob: Blob;
+          let pngBlob: Blob;
 
-        if (useWorker) {
-          const bitmaps = await Promise.all(
-            designs.map(d => createImageBitmap(d.imageInfo.image))
-          );
-          const exportDesigns = designs.map((d, i) => ({
-            widthInches: d.widthInches,
-            heightInches: d.heightInches,
-            nx: d.transform.nx,
-            ny: d.transform.ny,
-            s: d.transform.s,
-            rotation: d.transform.rotation,
-            flipX: d.transform.flipX,
-            flipY: d.transform.flipY,
-            bitmap: bitmaps[i],
-            alphaThresholded: d.alphaThresholded,
-          }));
-          const requestId = ++_exportReqCounter;
-          pngBlob = await new Promise<Blob>((resolve, reject) => {
-            const EXPORT_TIMEOUT_MS = 300_000;
-            let settled = false;
-            const cleanup = () => {
-              worker.removeEventListener('message', handler);
-              worker.removeEventListener('error', errorHandler);
-              clearTimeout(timer);
-            };
-            const handler = (e: MessageEvent) => {
-              if (e.data.requestId !== requestId) return;
-              settled = true;
-              cleanup();
-              if (e.data.type === 'error') reject(new Error(e.data.error));
-              else resolve(e.data.blob);
-            };
-            const errorHandler = (ev: ErrorEvent) => {
-              if (settled) return;
-              settled = true;
-              cleanup();
-              reject(new Error(ev.message || 'Export worker crashed'));
-            };
-            const timer = setTimeout(() => {
-              if (settled) return;
-              settled = true;
-              cleanup();
-              reject(new Error('Export timed out — the gangsheet may be too large. Try a smaller size.'));
-            }, EXPORT_TIMEOUT_MS);
-            worker.addEventListener('message', handler);
-            worker.addEventListener('error', errorHandler);
-            worker.postMessage(
-              { type: 'export', requestId, designs: exportDesigns, outW, outH, exportDpi },
-              bitmaps,
-            );
-          });
-        } else {
-          const exportCanvas = document.createElement('canvas');
-          exportCanvas.width = outW;
-          exportCanvas.height = outH;
-          const ctx = exportCanvas.getContext('2d');
-          if (!ctx) throw new Error('Failed to prepare export canvas');
-          ctx.clearRect(0, 0, outW, outH);
-          ctx.imageSmoothingEnabled = true;
-          ctx.imageSmoothingQuality = 'high';
-          for (const design of designs) {
-            const img = design.imageInfo.image;
-            const drawW = Math.max(1, Math.round(design.widthInches * design.transform.s * exportDpi));
-            const drawH = Math.max(1, Math.round(design.heightInches * design.transform.s * exportDpi));
-            const centerX = design.transform.nx * outW;
-            const centerY = design.transform.ny * outH;
-            if (design.alphaThresholded) ctx.imageSmoothingEnabled = false;
-            ctx.save();
-            ctx.translate(centerX, centerY);
-            ctx.rotate((design.transform.rotation * Math.PI) / 180);
-            ctx.scale(design.transform.flipX ? -1 : 1, design.transform.flipY ? -1 : 1);
-            ctx.drawImage(img, -drawW / 2, -drawH / 2, drawW, drawH);
-            ctx.restore();
-            if (design.alphaThresholded) { ctx.imageSmoothingEnabled = true; ctx.imageSmoothingQuality = 'high'; }
+          if (useWorker) {
+            try {
+              pngBlob = await exportPngInWorkers(sheetItems, { outW, outH, exportDpi: sheetDpi, iccProfile: iccProfile ?? undefined });
+            } catch (err) {
+              console.warn('Export worker failed, rendering on the server:', err);
+              pngBlob = await renderOnServer(sheetItems, sheetHeight).catch(() => { throw err; });
+            }
+          } else {
+            const exportCanvas = document.createElement('canvas');
+            exportCanvas.width = outW;
+            exportCanvas.height = outH;
+            const ctx = exportCanvas.getContext('2d');
+            if (!ctx) throw new Error('Failed to prepare export canvas');
+            ctx.clearRect(0, 0, outW, outH);
+            ctx.imageSmoothingEnabled = true;
+            ctx.imageSmoothingQuality = 'high';
+            for (const design of sheetItems) {
+              const img = design.imageInfo.image;
+              const drawW = Math.max(1, Math.round(design.widthInches * design.transform.s * sheetDpi));
+              const drawH = Math.max(1, Math.round(design.heightInches * design.transform.s * sheetDpi));
+              const centerX = design.transform.nx * outW;
+              const centerY = design.transform.ny * outH;
+              if (design.alphaThresholded) ctx.imageSmoothingEnabled = false;
+              ctx.save();
+              ctx.translate(centerX, centerY);
+              ctx.rotate((design.transform.rotation * Math.PI) / 180);
+              ctx.scale(design.transform.flipX ? -1 : 1, design.transform.flipY ? -1 : 1);
+              ctx.drawImage(img, -drawW / 2, -drawH / 2, drawW, drawH);
+              ctx.restore();
+              if (design.alphaThresholded) { ctx.imageSmoothingEnabled = true; ctx.imageSmoothingQuality = 'high'; }
+            }
+            const rawBlob: Blob = await new Promise((res, rej) =>
+              exportCanvas.toBlob((b) => b ? res(b) : rej(new Error('toBlob failed')), 'image/png'));
+            exportCanvas.width = 0;
+            exportCanvas.height = 0;
+            pngBlob = await injectPngDpi(rawBlob, sheetDpi, iccProfile ?? undefined);
+          }
+          return pngBlob;
+        };
+
+        // A single sheet downloads as one image; several sheets come as one zip.
+        const extension = format === 'tiff' ? 'tiff' : 'png';
+        const renderSheet = format === 'tiff' ? renderSheetTiff : renderSheetPng;
+        let downloadBlob: Blob;
+        let filename: string;
+        if (sheets.length > 1) {
+          const { default: JSZip } = await import('jszip');
+          const zip = new JSZip();
+          for (let i = 0; i < sheets.length; i++) {
+            zip.file(`${firstName}-sheet-${i + 1}.${extension}`, await renderSheet(sheets[i].designs, sheets[i].height));
           }
-          const rawBlob: Blob = await new Promise((res, rej) =>
-            exportCanvas.toBlob((b) => b ? res(b) : rej(new Error('toBlob failed')), 'image/png'));
-          exportCanvas.width = 0;
-          exportCanvas.height = 0;
-          pngBlob = await injectPngDpi(rawBlob, exportDpi);
+          downloadBlob = await zip.generateAsync({ type: 'blob', compression: 'STORE' });
+          filename = `${firstName}-sheets.zip`;
+        } else {
+          downloadBlob = await renderSheet(sheets[0].designs, sheets[0].height);
+          filename = `${firstName}.${extension}`;
         }
 
-        const url = URL.createObjectURL(pngBlob);
+        const url = URL.createObjectURL(downloadBlob);
         const link = document.createElement('a');
         link.href = url;
         link.download = filename;
         document.body.appendChild(link);
         link.click();
         document.body.removeChild(link);
-        const revokeMs = Math.max(5000, Math.round(pngBlob.size / 100000));
+        const revokeMs = Math.max(5000, Math.round(downloadBlob.size / 100000));
         setTimeout(() => URL.revokeObjectURL(url), revokeMs);
       }
     } catch (error) {
@@ -2378,7 +3127,18 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
     } finally {
       setIsProcessing(false);
     }
-  }, [imageInfo, designs, artboardWidth, artboardHeight, toast]);
+  }, [imageInfo, designs, artboardWidth, sheetHeights, toast, cutlinePaths, exportDpi, iccProfile]);
+
+  const resolutionWarnings = useMemo(() => getResolutionWarnings(designs.filter(d => !d.hidden), profile), [designs, profile]);
+
+  // Designs under the profile's minimum DPI need a confirmation (or block the download) first.
+  const handleDownloadRequest = useCallback((...args: Parameters<typeof handleDownload>) => {
+    if (Array.from(resolutionWarnings.values()).some(w => w.belowMinimum)) {
+      setPendingLowResDownload(args);
+      return;
+    }
+    handleDownload(...args);
+  }, [resolutionWarnings, handleDownload]);
 
   if (!activeImageInfo) {
     return (
@@ -2404,13 +3164,44 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
               </div>
             </div>
           ) : (
-            <UploadSection 
-              onImageUpload={handleFileUploadUnified}
-              onBatchStart={handleBatchStart}
-              imageInfo={null}
-            />
+            <>
+              <UploadSection 
+                onImageUpload={handleFileUploadUnified}
+                onBatchStart={handleBatchStart}
+                onProjectFileUpload={handleImportProjectFile}
+                imageInfo={null}
+              />
+              <div className="flex justify-center mt-3">
+                <button
+                  onClick={() => setProjectModalOpen(true)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-gray-600 hover:text-cyan-600 hover:bg-gray-100 transition-colors"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  {t("project.openSaved")}
+                </button>
+              </div>
+            </>
           )}
         </div>
+        <ProjectModal
+          open={projectModalOpen}
+          onClose={() => setProjectModalOpen(false)}
+          profileId={profile.id}
+          currentProjectId={projectId}
+          currentName={projectName}
+          canSave={false}
+          onSave={handleSaveProject}
+          onOpen={handleOpenProject}
+          onDeleted={handleProjectDeleted}
+          onExportFile={handleExportProjectFile}
+          t={t}
+        />
+        <PdfPagePicker
+          request={pdfPageRequest}
+          onConfirm={resolvePdfPages}
+          onCancel={() => resolvePdfPages([])}
+          t={t}
+        />
       </div>
     );
   }
@@ -2424,7 +3215,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
           <ControlsSection
             resizeSettings={activeResizeSettings}
             onResizeChange={handleResizeChange}
-            onDownload={handleDownload}
+            onDownload={handleDownloadRequest}
             isProcessing={isProcessing}
             imageInfo={activeImageInfo}
             artboardWidth={artboardWidth}
@@ -2440,6 +3231,12 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
             onSpotPreviewChange={setSpotPreviewData}
             fluorPanelContainer={fluorPanelContainer}
             copySpotSelectionsRef={copySpotSelectionsRef}
+            exportDpi={exportDpi}
+            onExportDpiChange={setExportDpi}
+            rasterFormat={rasterFormat}
+            onRasterFormatChange={setRasterFormat}
+            iccProfile={iccProfile}
+            onIccProfileChange={setIccProfile}
           />
 
           {/* Fluorescent panel portal target */}
@@ -2470,7 +3267,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                   ref={sidebarFileRef}
                   type="file"
                   className="hidden"
-                  accept=".png,.jpg,.jpeg,.webp,.pdf,image/png,image/jpeg,image/webp,application/pdf"
+                  accept=".png,.jpg,.jpeg,.webp,.svg,.pdf,.ai,.eps,image/png,image/jpeg,image/webp,image/svg+xml,application/pdf,application/postscript,application/illustrator"
                   multiple
                   onChange={handleSidebarFileChange}
                 />
@@ -2489,39 +3286,83 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                     .layers-scroll::-webkit-scrollbar-thumb { background: #9ca3af; border-radius: 4px; }
                     .layers-scroll::-webkit-scrollbar-thumb:hover { background: #9ca3af; }
                   `}</style>
-                  {designs.map((d) => {
+                  {(function renderLayerNodes(nodes: LayerNode[], depth: number): React.ReactNode {
+                    return nodes.map(node => {
+                    if (node.kind === 'group') {
+                      const collapsed = collapsedGroups.has(node.id);
+                      const groupSelected = node.designIds.every(id => selectedDesignIds.has(id));
+                      const members = designs.filter(m => node.designIds.includes(m.id));
+                      const groupHidden = members.every(m => m.hidden);
+                      const groupLocked = members.every(m => m.locked);
+                      return (
+                        <div key={node.id}>
+                          <div
+                            className={`flex items-center gap-1.5 px-2.5 py-1 cursor-pointer transition-colors ${groupHidden ? 'opacity-50' : ''} ${groupSelected ? 'bg-cyan-50 border-l-2 border-cyan-400' : 'hover:bg-gray-100/70 border-l-2 border-transparent'}`}
+                            style={{ paddingLeft: 10 + depth * 12 }}
+                            onClick={() => handleMultiSelect(node.designIds)}
+                          >
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setCollapsedGroups(prev => {
+                                  const next = new Set(prev);
+                                  if (!next.delete(node.id)) next.add(node.id);
+                                  return next;
+                                });
+                              }}
+                              className="p-0 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-700 transition-colors flex-shrink-0"
+                              title={t(collapsed ? "editor.expandGroup" : "editor.collapseGroup")}
+                            >
+                              {collapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                            </button>
+                            <Group className="w-3.5 h-3.5 text-cyan-400 flex-shrink-0" />
+                            <span className="flex-1 min-w-0 text-[11px] text-gray-900 truncate">{t("editor.groupName", { n: layerGroupNumbers.get(node.id) ?? 1 })}</span>
+                            <span className="text-[10px] text-gray-600 bg-gray-100 px-1.5 py-0.5 rounded-full flex-shrink-0">{node.designIds.length}</span>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleSetDesignFlag(node.designIds, 'hidden', !groupHidden); }}
+                              className="p-0.5 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors flex-shrink-0"
+                              title={t(groupHidden ? "editor.show" : "editor.hide")}
+                            >
+                              {groupHidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                            </button>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleSetDesignFlag(node.designIds, 'locked', !groupLocked); }}
+                              className={`p-0.5 rounded hover:bg-gray-200 hover:text-gray-900 transition-colors flex-shrink-0 ${groupLocked ? 'text-amber-500' : 'text-gray-600'}`}
+                              title={t(groupLocked ? "editor.unlock" : "editor.lock")}
+                            >
+                              {groupLocked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                            </button>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleUngroup(new Set([node.id])); }}
+                              className="p-0.5 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors flex-shrink-0"
+                              title={t("editor.ungroup")}
+                            >
+                              <Ungroup className="w-3 h-3" />
+                            </button>
+                          </div>
+                          {!collapsed && renderLayerNodes(node.children, depth + 1)}
+                        </div>
+                      );
+                    }
+                    const d = node.design;
                     const isSelected = d.id === selectedDesignId || selectedDesignIds.has(d.id);
-                    const baseName = layerGroupInfo.baseNameOf(d.name);
-                    const group = layerGroupInfo.groups.get(baseName);
+                    const groupKey = copyGroupKey(d);
+                    const group = layerGroupInfo.groups.get(groupKey);
                     const groupCount = group?.count ?? 1;
                     const isResized = group ? layerGroupInfo.sizeKeyOf(d) !== group.baseSize : false;
+                    const resWarning = resolutionWarnings.get(d.id);
                     return (
                     <div
                       key={d.id}
-                      className={`flex items-center gap-2 px-2.5 py-1.5 cursor-pointer transition-colors ${isSelected ? 'bg-cyan-50 border-l-2 border-cyan-400' : 'hover:bg-gray-100/70 border-l-2 border-transparent'}`}
+                      className={`flex items-center gap-2 px-2.5 py-1.5 cursor-pointer transition-colors ${d.hidden ? 'opacity-50' : ''} ${isSelected ? 'bg-cyan-50 border-l-2 border-cyan-400' : 'hover:bg-gray-100/70 border-l-2 border-transparent'}`}
+                      style={{ paddingLeft: 10 + depth * 12 }}
                       onClick={(e) => {
                         if (e.ctrlKey || e.metaKey) {
-                          setSelectedDesignIds(prev => {
-                            const next = new Set(prev);
-                            if (next.has(d.id)) {
-                              next.delete(d.id);
-                              if (next.size === 1) {
-                                const remaining = next.values().next().value;
-                                setSelectedDesignId(remaining!);
-                                return next;
-                              }
-                              if (selectedDesignId === d.id) {
-                                setSelectedDesignId(next.size > 0 ? Array.from(next)[next.size - 1] : null);
-                              }
-                            } else {
-                              next.add(d.id);
-                              if (next.size > 1) {
-                                if (!next.has(selectedDesignId!)) next.add(selectedDesignId!);
-                              }
-                              setSelectedDesignId(d.id);
-                            }
-                            return next;
-                          });
+                          const next = new Set(selectedDesignIds);
+                          if (selectedDesignId) next.add(selectedDesignId);
+                          if (next.has(d.id)) next.delete(d.id);
+                          else next.add(d.id);
+                          handleMultiSelect(Array.from(next));
                         } else {
                           handleSelectDesign(d.id);
                         }
@@ -2543,27 +3384,61 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                         </p>
                         <p className={`text-gray-600 truncate tabular-nums ${lang !== 'en' ? 'text-[9px]' : 'text-[10px]'}`} title={formatDimensions(d.widthInches * d.transform.s, d.heightInches * d.transform.s, lang)}>
                           {formatDimensions(d.widthInches * d.transform.s, d.heightInches * d.transform.s, lang)}
+                          {resWarning && (
+                            <span
+                              className={`ml-1 inline-flex items-center gap-0.5 font-medium ${resWarning.belowMinimum ? 'text-red-500' : 'text-amber-500'} ${canUpscaleDesign(d) ? 'cursor-pointer hover:underline' : ''}`}
+                              title={t(canUpscaleDesign(d) ? "lowRes.layerUpscaleTitle" : "lowRes.layerTitle", { dpi: Math.round(resWarning.dpi) })}
+                              onClick={canUpscaleDesign(d) ? (e) => { e.stopPropagation(); setUpscaleModalDesignId(d.id); } : undefined}
+                            >
+                              <AlertTriangle className="w-2.5 h-2.5" />
+                              {Math.round(resWarning.dpi)}
+                            </span>
+                          )}
                         </p>
                       </div>
-                      {groupCount > 1 && (
-                        <div className="flex items-center gap-0.5 flex-shrink-0">
-                          <button
-                            onClick={(e) => { e.stopPropagation(); handleRemoveOneCopy(baseName); }}
-                            className="p-0 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-700 transition-colors"
-                            title={t("editor.removeOne")}
-                          >
-                            <ChevronDown className="w-3 h-3" />
-                          </button>
-                          <span className="text-[10px] text-cyan-400 font-medium min-w-[18px] text-center">x{groupCount}</span>
-                          <button
-                            onClick={(e) => { e.stopPropagation(); handleDuplicateById(d.id); }}
-                            className="p-0 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-700 transition-colors"
-                            title={t("editor.addOneMore")}
-                          >
-                            <ChevronUp className="w-3 h-3" />
-                          </button>
-                        </div>
-                      )}
+                      <div className="flex items-center gap-0.5 flex-shrink-0">
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleRemoveOneCopy(groupKey); }}
+                          disabled={groupCount <= 1}
+                          className="p-0 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-700 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                          title={t("editor.removeOne")}
+                        >
+                          <ChevronDown className="w-3 h-3" />
+                        </button>
+                        <input
+                          key={groupCount}
+                          type="number"
+                          min={1}
+                          max={MAX_DESIGN_QUANTITY}
+                          defaultValue={groupCount}
+                          onClick={(e) => e.stopPropagation()}
+                          onKeyDown={(e) => { e.stopPropagation(); if (e.key === 'Enter') e.currentTarget.blur(); }}
+                          onBlur={(e) => handleSetQuantity(d.id, e.currentTarget.valueAsNumber)}
+                          className={`w-7 h-4 bg-transparent border border-transparent hover:border-gray-300 focus:border-cyan-400 rounded text-[10px] font-medium text-center tabular-nums outline-none [appearance:textfield] [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none ${groupCount > 1 ? 'text-cyan-400' : 'text-gray-500'}`}
+                          title={t("editor.quantityTitle")}
+                        />
+                        <button
+                          onClick={(e) => { e.stopPropagation(); handleDuplicateById(d.id); }}
+                          className="p-0 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-700 transition-colors"
+                          title={t("editor.addOneMore")}
+                        >
+                          <ChevronUp className="w-3 h-3" />
+                        </button>
+                      </div>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleSetDesignFlag([d.id], 'hidden', !d.hidden); }}
+                        className="p-0.5 rounded hover:bg-gray-200 text-gray-600 hover:text-gray-900 transition-colors flex-shrink-0"
+                        title={t(d.hidden ? "editor.show" : "editor.hide")}
+                      >
+                        {d.hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleSetDesignFlag([d.id], 'locked', !d.locked); }}
+                        className={`p-0.5 rounded hover:bg-gray-200 hover:text-gray-900 transition-colors flex-shrink-0 ${d.locked ? 'text-amber-500' : 'text-gray-600'}`}
+                        title={t(d.locked ? "editor.unlock" : "editor.lock")}
+                      >
+                        {d.locked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+                      </button>
                       <button
                         onClick={(e) => { e.stopPropagation(); handleDeleteDesign(d.id); }}
                         className="p-0.5 rounded hover:bg-gray-200 text-gray-600 hover:text-red-400 transition-colors flex-shrink-0"
@@ -2571,7 +3446,8 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                         <Trash2 className="w-3 h-3" />
                       </button>
                     </div>
-                  ); })}
+                  ); });
+                  })(layerTree, 0)}
                 </div>
               )}
             </div>
@@ -2588,6 +3464,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
             <UploadSection 
               onImageUpload={handleFileUploadUnified}
               onBatchStart={handleBatchStart}
+              onProjectFileUpload={handleImportProjectFile}
               imageInfo={activeImageInfo}
             />
             {isUploading && (
@@ -2632,6 +3509,13 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
               >
                 <Redo2 className="w-4 h-4 lg:w-3.5 lg:h-3.5" />
               </button>
+              <button
+                onClick={() => setProjectModalOpen(true)}
+                className="p-2 lg:p-1.5 rounded-md hover:bg-gray-200/80 text-gray-600 hover:text-cyan-400 transition-colors min-w-[40px] min-h-[40px] lg:min-w-0 lg:min-h-0 flex items-center justify-center"
+                title={t("project.title")}
+              >
+                <FolderOpen className="w-4 h-4 lg:w-3.5 lg:h-3.5" />
+              </button>
               <div className="w-px h-4 bg-gray-100 mx-0.5" />
               <button
                 onClick={handleDuplicateDesign}
@@ -2736,6 +3620,45 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                   <option value="1">{useMetric(lang) ? formatLength(1, lang) : "1″"}</option>
                 </select>
               </div>
+              <div className="flex items-center gap-1">
+                <span className="text-[10px] text-gray-600">{t("editor.nesting")}</span>
+                <select
+                  value={angleStep > 0 ? `angled:${angleStep}` : String(nestingStep)}
+                  onChange={(e) => {
+                    const v = e.target.value;
+                    const angled = v.startsWith("angled:");
+                    setAngleStep(angled ? parseInt(v.slice("angled:".length), 10) : 0);
+                    setNestingStep(angled ? 0 : parseInt(v, 10));
+                    if (designs.length >= 2) {
+                      setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: false, preserveSelection: true }), 0);
+                    }
+                  }}
+                  className="h-5 px-1 bg-gray-100 border border-gray-300 rounded text-[10px] text-gray-700 outline-none cursor-pointer hover:border-gray-400 focus:border-cyan-500 transition-colors"
+                  title={t("editor.nestingTitle")}
+                >
+                  <option value="0">{t("editor.nestingBoxes")}</option>
+                  {ARRANGE_ANGLE_STEPS.map(step => (
+                    <option key={step} value={`angled:${step}`}>{t("editor.nestingAngled", { step })}</option>
+                  ))}
+                  <option value="90">{t("editor.nestingShapes", { step: 90 })}</option>
+                  <option value="45">{t("editor.nestingShapes", { step: 45 })}</option>
+                  <option value="15">{t("editor.nestingShapes", { step: 15 })}</option>
+                </select>
+              </div>
+              <button
+                onClick={() => {
+                  setAutoSheetHeight(prev => !prev);
+                  if (!autoSheetHeight && designs.length >= 2) {
+                    setTimeout(() => handleAutoArrangeRef.current({ skipSnapshot: false, preserveSelection: true }), 0);
+                  }
+                }}
+                className={`h-5 px-1.5 rounded border text-[10px] font-medium transition-colors whitespace-nowrap ${
+                  autoSheetHeight ? 'bg-cyan-50 border-cyan-500/60 text-cyan-600' : 'bg-gray-100 border-gray-300 text-gray-600 hover:border-gray-400'
+                }`}
+                title={t("editor.autoHeightTitle")}
+              >
+                {t("editor.autoHeight")}
+              </button>
             </div>
             {/* Row 3 on mobile: Rotate, Align, Clean Alpha */}
             <div className="flex items-center gap-0.5 flex-shrink-0 flex-wrap lg:flex-nowrap w-full lg:w-auto">
@@ -2809,6 +3732,53 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
                 <Droplets className="w-4 h-4 lg:w-3.5 lg:h-3.5" />
                 <span className={`font-medium ${lang !== 'en' ? 'text-[9px]' : 'text-[10px]'}`}>{t("editor.cleanAlphaAll")}</span>
               </button>
+              <div className="w-px h-4 bg-gray-100 mx-0.5 hidden lg:block" />
+              <button
+                onClick={() => handleCutlineChange({ enabled: !selectedDesign?.cutline?.enabled })}
+                disabled={!selectedDesignId}
+                className={`flex items-center gap-1 p-2 lg:px-2 lg:py-1 rounded-md transition-colors whitespace-nowrap disabled:opacity-30 disabled:pointer-events-none min-h-[40px] lg:min-h-0 ${
+                  selectedDesign?.cutline?.enabled ? 'bg-fuchsia-100 text-fuchsia-600' : 'hover:bg-gray-200/80 text-gray-600 hover:text-fuchsia-500'
+                }`}
+                title={t("editor.cutlineTitle")}
+              >
+                <Scissors className="w-4 h-4 lg:w-3.5 lg:h-3.5" />
+                <span className={`font-medium ${lang !== 'en' ? 'text-[9px]' : 'text-[10px]'}`}>{t("editor.cutline")}</span>
+              </button>
+              {selectedDesign?.cutline?.enabled && (
+                <>
+                  <select
+                    value={String(selectedDesign.cutline.offsetInches)}
+                    onChange={(e) => handleCutlineChange({ offsetInches: parseFloat(e.target.value) })}
+                    className="h-5 px-1 bg-gray-100 border border-gray-300 rounded text-[10px] text-gray-700 outline-none cursor-pointer hover:border-gray-400 focus:border-cyan-500 transition-colors"
+                    title={t("editor.cutlineOffset")}
+                  >
+                    {CUTLINE_OFFSETS.map(o => (
+                      <option key={o} value={String(o)}>{useMetric(lang) ? formatLength(o, lang) : CUTLINE_OFFSET_LABELS[o]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={selectedDesign.cutline.mode}
+                    onChange={(e) => handleCutlineChange({ mode: e.target.value as CutlineSettings['mode'] })}
+                    className="h-5 px-1 bg-gray-100 border border-gray-300 rounded text-[10px] text-gray-700 outline-none cursor-pointer hover:border-gray-400 focus:border-cyan-500 transition-colors"
+                    title={t("editor.cutlineMode")}
+                  >
+                    <option value="smooth">{t("editor.cutlineSmooth")}</option>
+                    <option value="scattered">{t("editor.cutlineScattered")}</option>
+                  </select>
+                  <select
+                    value={selectedDesign.cutline.algorithm ?? ''}
+                    onChange={(e) => handleCutlineChange({ algorithm: (e.target.value || undefined) as CutlineSettings['algorithm'] })}
+                    className="h-5 px-1 bg-gray-100 border border-gray-300 rounded text-[10px] text-gray-700 outline-none cursor-pointer hover:border-gray-400 focus:border-cyan-500 transition-colors"
+                    title={t("editor.cutlineAlgorithm")}
+                  >
+                    <option value="">{t("editor.cutlineAlgorithmDefault")}</option>
+                    <option value="silhouette">Silhouette</option>
+                    <option value="minkowski">Minkowski</option>
+                    <option value="ctcontour">CTContour</option>
+                    <option value="true-contour">TrueContour</option>
+                  </select>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -2823,7 +3793,7 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
             artboardHeight={artboardHeight}
             designTransform={activeDesignTransform}
             onTransformChange={handleDesignTransformChange}
-            designs={designs}
+            designs={sheetDesigns}
             selectedDesignId={selectedDesignId}
             selectedDesignIds={selectedDesignIds}
             onSelectDesign={handleSelectDesign}
@@ -2836,6 +3806,16 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
             onExpandArtboard={artboardHeight < MAX_ARTBOARD_HEIGHT ? handleExpandArtboard : undefined}
             onDesignContextMenu={handleCanvasContextMenu}
             spotPreviewData={profile.enableFluorescent ? spotPreviewData : undefined}
+            cutlinePaths={cutlinePaths}
+            sheetHeights={sheetHeights}
+            resolutionWarnings={resolutionWarnings}
+            designGap={designGap !== undefined && designGap >= 0 ? designGap : 0.25}
+            guides={sheetGuides}
+            onAddGuide={handleAddGuide}
+            onMoveGuide={handleMoveGuide}
+            onRemoveGuide={handleRemoveGuide}
+            activeSheet={activeSheet}
+            onSheetChange={handleSheetChange}
           />
         </div>
       </div>
@@ -2853,20 +3833,101 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         >
           {([
             { icon: Copy, label: t("editor.duplicate").replace(/ \(.*/, ''), shortcut: 'Ctrl+D', action: () => { handleDuplicateDesign(); setContextMenu(null); }, disabled: false },
+            { icon: CopyPlus, label: t("editor.fillRemaining"), shortcut: '', action: () => { handleFillRemaining(contextMenu.designId); setContextMenu(null); }, disabled: false },
             { icon: Trash2, label: t("editor.delete").replace(/ \(.*/, ''), shortcut: 'Del', action: () => { if (selectedDesignIds.size > 1) handleDeleteMulti(selectedDesignIds); else handleDeleteDesign(contextMenu.designId); setContextMenu(null); }, disabled: false },
             null,
             { icon: RotateCw, label: t("editor.rotate").replace(/ \(.*/, ''), shortcut: 'R', action: () => { handleRotate90(); setContextMenu(null); }, disabled: false },
             { icon: FlipHorizontal2, label: t("editor.flipH"), shortcut: '', action: () => { handleFlipX(); setContextMenu(null); }, disabled: false },
             { icon: FlipVertical2, label: t("editor.flipV"), shortcut: '', action: () => { handleFlipY(); setContextMenu(null); }, disabled: false },
             null,
+            'layout',
+            null,
+            { icon: BringToFront, label: t("editor.bringToFront"), shortcut: 'Ctrl+Shift+]', action: () => { handleZOrder('front'); setContextMenu(null); }, disabled: false },
+            { icon: ArrowUp, label: t("editor.bringForward"), shortcut: 'Ctrl+]', action: () => { handleZOrder('forward'); setContextMenu(null); }, disabled: false },
+            { icon: ArrowDown, label: t("editor.sendBackward"), shortcut: 'Ctrl+[', action: () => { handleZOrder('backward'); setContextMenu(null); }, disabled: false },
+            { icon: SendToBack, label: t("editor.sendToBack"), shortcut: 'Ctrl+Shift+[', action: () => { handleZOrder('back'); setContextMenu(null); }, disabled: false },
+            { icon: Lock, label: t("editor.lock"), shortcut: 'Ctrl+Shift+L', action: () => { handleLockSelection(); setContextMenu(null); }, disabled: false },
+            { icon: EyeOff, label: t("editor.hide"), shortcut: 'Ctrl+Shift+H', action: () => { handleHideSelection(); setContextMenu(null); }, disabled: false },
+            null,
+            { icon: Group, label: t("editor.group"), shortcut: 'Ctrl+G', action: () => { handleGroupSelection(); setContextMenu(null); }, disabled: new Set(designs.filter(d => selectedDesignIds.has(d.id)).map(d => outerGroup(d) ?? d.id)).size < 2 },
+            { icon: Ungroup, label: t("editor.ungroup"), shortcut: 'Ctrl+Shift+G', action: () => { handleUngroupSelection(); setContextMenu(null); }, disabled: !designs.some(d => selectedDesignIds.has(d.id) && d.groups) },
+            null,
             { icon: Droplets, label: t("editor.cleanAlpha"), shortcut: '', action: () => { handleThresholdAlpha(); setContextMenu(null); }, disabled: false },
+            { icon: Sparkles, label: t("editor.upscale"), shortcut: '', action: () => { setUpscaleModalDesignId(contextMenu.designId); setContextMenu(null); }, disabled: !designs.some(d => d.id === contextMenu.designId && canUpscaleDesign(d)) },
             null,
-            { icon: LayoutGrid, label: t("editor.selectAll"), shortcut: 'Ctrl+A', action: () => { handleMultiSelect(designs.map(d => d.id)); setContextMenu(null); }, disabled: designs.length === 0 },
+            { icon: LayoutGrid, label: t("editor.selectAll"), shortcut: 'Ctrl+A', action: () => { handleMultiSelect(sheetDesigns.filter(isSelectable).map(d => d.id)); setContextMenu(null); }, disabled: !sheetDesigns.some(isSelectable) },
             { icon: XCircle, label: t("editor.deselect"), shortcut: 'Esc', action: () => { handleSelectDesign(null); setContextMenu(null); }, disabled: false },
-          ] as Array<{ icon: React.ComponentType<any>; label: string; shortcut: string; action: () => void; disabled: boolean } | null>).map((item, i) =>
+          ] as Array<{ icon: React.ComponentType<any>; label: string; shortcut: string; action: () => void; disabled: boolean } | 'layout' | null>).map((item, i) =>
             item === null ? (
               <div key={`sep-${i}`} className="h-px bg-gray-100 my-1" />
-            ) : (
+            ) : item === 'layout' ? (() => {
+              const count = getLayoutItems().length;
+              const target = count >= 2 ? alignTarget : 'artboard';
+              const rows: Array<{ label: string; targets: boolean; tools: Array<{ icon: React.ComponentType<any>; label: string; shortcut: string; action: () => void; disabled: boolean }> }> = [
+                {
+                  label: t("editor.align"),
+                  targets: true,
+                  tools: ([
+                    ['left', AlignStartVertical, "editor.alignLeft", 'Alt+Shift+L'],
+                    ['center', AlignCenterVertical, "editor.alignCenter", 'Alt+Shift+C'],
+                    ['right', AlignEndVertical, "editor.alignRight", 'Alt+Shift+R'],
+                    ['top', AlignStartHorizontal, "editor.alignTop", 'Alt+Shift+T'],
+                    ['middle', AlignCenterHorizontal, "editor.alignMiddle", 'Alt+Shift+M'],
+                    ['bottom', AlignEndHorizontal, "editor.alignBottom", 'Alt+Shift+B'],
+                  ] as const).map(([edge, icon, label, shortcut]) => ({ icon, label: t(label), shortcut, action: () => handleAlign(edge), disabled: false })),
+                },
+                {
+                  label: t("editor.distribute"),
+                  targets: false,
+                  tools: [
+                    { icon: AlignHorizontalSpaceAround, label: t("editor.distributeGapsH"), shortcut: 'Alt+Shift+H', action: () => handleDistribute('x', 'gaps'), disabled: count < 3 },
+                    { icon: AlignHorizontalDistributeCenter, label: t("editor.distributeCentersH"), shortcut: 'Alt+Shift+X', action: () => handleDistribute('x', 'centers'), disabled: count < 3 },
+                    { icon: AlignVerticalSpaceAround, label: t("editor.distributeGapsV"), shortcut: 'Alt+Shift+V', action: () => handleDistribute('y', 'gaps'), disabled: count < 3 },
+                    { icon: AlignVerticalDistributeCenter, label: t("editor.distributeCentersV"), shortcut: 'Alt+Shift+Y', action: () => handleDistribute('y', 'centers'), disabled: count < 3 },
+                    { icon: FoldHorizontal, label: t("editor.packH"), shortcut: 'Alt+P', action: () => handlePackSelection('x'), disabled: count < 2 },
+                    { icon: FoldVertical, label: t("editor.packV"), shortcut: 'Alt+Shift+P', action: () => handlePackSelection('y'), disabled: count < 2 },
+                  ],
+                },
+              ];
+              return (
+                <div key="layout" className="px-3 py-1 space-y-1">
+                  {rows.map(row => (
+                    <div key={row.label}>
+                      <div className="flex items-center justify-between mb-0.5">
+                        <span className="text-[10px] text-gray-600">{row.label}</span>
+                        {row.targets && (
+                          <div className="flex rounded border border-gray-300 overflow-hidden">
+                            {(['selection', 'artboard'] as const).map(option => (
+                              <button
+                                key={option}
+                                onClick={() => setAlignTarget(option)}
+                                disabled={count < 2}
+                                className={`px-1.5 py-px text-[10px] transition-colors disabled:pointer-events-none ${target === option ? 'bg-cyan-500/20 text-cyan-600' : 'text-gray-600 hover:bg-gray-200'} ${count < 2 && option === 'selection' ? 'opacity-30' : ''}`}
+                              >
+                                {t(option === 'selection' ? "editor.alignToSelection" : "editor.alignToArtboard")}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-6 gap-0.5">
+                        {row.tools.map(tool => (
+                          <button
+                            key={tool.label}
+                            onClick={() => { tool.action(); setContextMenu(null); }}
+                            disabled={tool.disabled}
+                            className="flex items-center justify-center p-1.5 rounded-md text-gray-600 hover:bg-gray-200 hover:text-cyan-500 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                            title={`${tool.label} (${tool.shortcut})`}
+                          >
+                            <tool.icon className="w-3.5 h-3.5" />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              );
+            })() : (
               <button
                 key={item.label}
                 onClick={item.action}
@@ -2896,6 +3957,57 @@ export default function ImageEditor({ onDesignUploaded, profile = HOT_PEEL_PROFI
         ) : null;
       })()}
 
+      {upscaleModalDesignId && (() => {
+        const design = designs.find(d => d.id === upscaleModalDesignId);
+        return design ? (
+          <UpscaleModal
+            open={!!design}
+            onClose={() => setUpscaleModalDesignId(null)}
+            imageInfo={design.imageInfo}
+            printWidthInches={design.widthInches * design.transform.s}
+            onUpscale={(newInfo) => handleUpscaleApply(upscaleModalDesignId, newInfo)}
+            t={t}
+          />
+        ) : null;
+      })()}
+
+      <ProjectModal
+        open={projectModalOpen}
+        onClose={() => setProjectModalOpen(false)}
+        profileId={profile.id}
+        currentProjectId={projectId}
+        currentName={projectName}
+        canSave={designs.length > 0}
+        onSave={handleSaveProject}
+        onOpen={handleOpenProject}
+        onDeleted={handleProjectDeleted}
+        onExportFile={handleExportProjectFile}
+        t={t}
+      />
+
+      <PdfPagePicker
+        request={pdfPageRequest}
+        onConfirm={resolvePdfPages}
+        onCancel={() => resolvePdfPages([])}
+        t={t}
+      />
+
+      <LowResolutionModal
+        open={pendingLowResDownload !== null}
+        designs={designs}
+        warnings={resolutionWarnings}
+        minimumDpi={profile.lowResMinimumDpi}
+        blocked={!!profile.blockLowResDownload}
+        onConfirm={() => {
+          const args = pendingLowResDownload;
+          setPendingLowResDownload(null);
+          if (args) handleDownload(...args);
+        }}
+        onClose={() => setPendingLowResDownload(null)}
+        formatSize={(d) => formatDimensions(d.widthInches * d.transform.s, d.heightInches * d.transform.s, lang)}
+        t={t}
+      />
+
       {/* Processing Modal */}
       {isProcessing && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+import type { DesignItem } from "@/lib/types";
+import type { ResolutionWarning } from "@/lib/print-resolution";
+
+interface LowResolutionModalProps {
+  open: boolean;
+  designs: DesignItem[];
+  warnings: Map<string, ResolutionWarning>;
+  minimumDpi: number;
+  // When set the download is refused and only Close is offered.
+  blocked: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+  formatSize: (design: DesignItem) => string;
+  t: (key: string, vars?: Record<string, string | number>) => string;
+}
+
+export default function LowResolutionModal({
+  open,
+  designs,
+  warnings,
+  minimumDpi,
+  blocked,
+  onConfirm,
+  onClose,
+  formatSize,
+  t,
+}: LowResolutionModalProps) {
+  if (!open) return null;
+
+  const lowDesigns = designs.filter(d => warnings.get(d.id)?.belowMinimum);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-[420px] max-w-[90vw] max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start gap-3 px-6 py-3 border-b border-gray-200">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-800">{t("lowRes.title")}</h2>
+            <p className="text-xs text-gray-500">
+              {t(blocked ? "lowRes.blockedDesc" : "lowRes.confirmDesc", { dpi: minimumDpi })}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-[80px] overflow-y-auto py-1">
+          {lowDesigns.map(d => (
+            <div key={d.id} className="flex items-center gap-2 px-6 py-1.5">
+              <p className="min-w-0 flex-1 text-sm text-gray-900 truncate">{d.name}</p>
+              <span className="text-[11px] text-gray-500 tabular-nums">{formatSize(d)}</span>
+              <span className="text-[11px] font-semibold text-red-500 tabular-nums">
+                {t("lowRes.dpi", { dpi: Math.round(warnings.get(d.id)!.dpi) })}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-3 border-t border-gray-200">
+          <Button variant="outline" onClick={onClose}>
+            {blocked ? t("lowRes.close") : t("lowRes.cancel")}
+          </Button>
+          {!blocked && (
+            <Button onClick={onConfirm} className="bg-red-600 hover:bg-red-700">
+              {t("lowRes.downloadAnyway")}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, Loader2 } from "lucide-react";
+import { renderPdfThumbnails } from "@/lib/pdf-parser";
+
+export interface PdfPageRequest {
+  fileName: string;
+  data: ArrayBuffer;
+  pageCount: number;
+}
+
+interface PdfPagePickerProps {
+  request: PdfPageRequest | null;
+  onConfirm: (pageIndexes: number[]) => void;
+  onCancel: () => void;
+  t: (key: string, vars?: Record<string, string | number>) => string;
+}
+
+export default function PdfPagePicker({ request, onConfirm, onCancel, t }: PdfPagePickerProps) {
+  const [thumbnails, setThumbnails] = useState<(string | undefined)[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!request) return;
+    setThumbnails(new Array(request.pageCount).fill(undefined));
+    setSelected(new Set([0]));
+    const controller = new AbortController();
+    renderPdfThumbnails(request.data, (pageIndex, dataUrl) => {
+      setThumbnails(prev => {
+        const next = [...prev];
+        next[pageIndex] = dataUrl;
+        return next;
+      });
+    }, { signal: controller.signal }).catch(err => console.warn('PDF thumbnail render failed:', err));
+    return () => controller.abort();
+  }, [request]);
+
+  if (!request) return null;
+
+  const toggle = (pageIndex: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(pageIndex)) next.delete(pageIndex);
+      else next.add(pageIndex);
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === request.pageCount;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onCancel}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-[640px] max-w-[90vw] max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">{t("pdfPages.title")}</h2>
+          <p className="text-xs text-gray-500 truncate">
+            {t("pdfPages.subtitle", { name: request.fileName, count: request.pageCount })}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 grid grid-cols-3 sm:grid-cols-4 gap-3">
+          {thumbnails.map((src, i) => {
+            const isSelected = selected.has(i);
+            return (
+              <button
+                key={i}
+                onClick={() => toggle(i)}
+                className={`relative flex flex-col items-center gap-1 p-2 rounded-lg border-2 transition-colors ${isSelected ? 'border-cyan-500 bg-cyan-50' : 'border-gray-200 hover:border-gray-300'}`}
+                title={t("pdfPages.page", { page: i + 1 })}
+              >
+                <div className="w-full aspect-square flex items-center justify-center bg-gray-100 rounded">
+                  {src ? (
+                    <img src={src} alt="" className="max-w-full max-h-full object-contain" draggable={false} />
+                  ) : (
+                    <Loader2 className="w-5 h-5 text-cyan-500 animate-spin" />
+                  )}
+                </div>
+                <span className="text-[11px] text-gray-600">{t("pdfPages.page", { page: i + 1 })}</span>
+                {isSelected && (
+                  <span className="absolute top-1 right-1 w-5 h-5 rounded-full bg-cyan-500 flex items-center justify-center">
+                    <Check className="w-3.5 h-3.5 text-white" />
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 px-6 py-3 border-t border-gray-200">
+          <Button
+            variant="outline"
+            className="mr-auto"
+            onClick={() => setSelected(allSelected ? new Set() : new Set(thumbnails.map((_, i) => i)))}
+          >
+            {allSelected ? t("pdfPages.selectNone") : t("pdfPages.selectAll")}
+          </Button>
+          <Button variant="outline" onClick={onCancel}>
+            {t("pdfPages.cancel")}
+          </Button>
+          <Button
+            disabled={selected.size === 0}
+            onClick={() => onConfirm(Array.from(selected).sort((a, b) => a - b))}
+            className="bg-cyan-600 hover:bg-cyan-700"
+          >
+            {t(selected.size === 1 ? "pdfPages.addOne" : "pdfPages.addMany", { count: selected.size })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
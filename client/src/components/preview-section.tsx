@@ -1,12 +1,17 @@
 import { useEffect, useRef, forwardRef, useImperativeHandle, useState, useCallback, useMemo } from "react";
-import { ZoomIn, ZoomOut, RotateCcw, ScanSearch, MousePointer2, Focus } from "lucide-react";
+import { ZoomIn, ZoomOut, RotateCcw, ScanSearch, MousePointer2, Focus, Frame, Ruler } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from "@/lib/i18n";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { formatLength, formatDimensions } from "@/lib/format-length";
 import { Button } from "@/components/ui/button";
 import { ImageInfo, ResizeSettings, type ImageTransform, type DesignItem } from "./image-editor";
-import { computeLayerRect } from "@/lib/types";
+import { computeLayerRect, type CutlinePath } from "@/lib/types";
+import { scaleCutlineToDesign, CUTLINE_COLOR } from "@/lib/design-cutline";
+import type { ResolutionWarning } from "@/lib/print-resolution";
+import { computeSmartGuides, rotatedBounds, type SmartGuide } from "@/lib/smart-guides";
+import ArtboardRulers, { useArtboardFrame } from "./artboard-rulers";
+import type { SheetGuide } from "@shared/schema";
 
 const BASE_DPI_SCALE = 2;
 const ZOOM_MIN_ABSOLUTE = 0.1;
@@ -48,10 +53,24 @@ interface PreviewSectionProps {
   onExpandArtboard?: () => void;
   onDesignContextMenu?: (x: number, y: number, designId: string | null) => void;
   spotPreviewData?: { enabled: boolean; colors: Array<{ hex: string; rgb: { r: number; g: number; b: number }; spotWhite?: boolean; spotGloss?: boolean; spotFluorY?: boolean; spotFluorM?: boolean; spotFluorG?: boolean; spotFluorOrange?: boolean }> };
+  cutlinePaths?: Map<string, CutlinePath>;
+  // Heights of every gangsheet; tabs are shown once there is more than one.
+  sheetHeights?: number[];
+  activeSheet?: number;
+  onSheetChange?: (index: number) => void;
+  // Designs printing below the profile's DPI thresholds; each gets a badge on the canvas.
+  resolutionWarnings?: Map<string, ResolutionWarning>;
+  // Spacing auto-arrange leaves between designs, in inches; smart guides snap to it.
+  designGap?: number;
+  // Ruler guides of the active sheet.
+  guides?: SheetGuide[];
+  onAddGuide?: (axis: SheetGuide["axis"], pos: number) => void;
+  onMoveGuide?: (id: string, pos: number) => void;
+  onRemoveGuide?: (id: string) => void;
 }
 
 const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
-  ({ imageInfo, resizeSettings, artboardWidth = 24.5, artboardHeight = 12, designTransform, onTransformChange, designs = [], selectedDesignId, selectedDesignIds = new Set(), onSelectDesign, onMultiSelect, onMultiDragDelta, onMultiResizeDelta, onMultiRotateDelta, onDuplicateSelected, onInteractionEnd, onExpandArtboard, onDesignContextMenu, spotPreviewData }, ref) => {
+  ({ imageInfo, resizeSettings, artboardWidth = 24.5, artboardHeight = 12, designTransform, onTransformChange, designs = [], selectedDesignId, selectedDesignIds = new Set(), onSelectDesign, onMultiSelect, onMultiDragDelta, onMultiResizeDelta, onMultiRotateDelta, onDuplicateSelected, onInteractionEnd, onExpandArtboard, onDesignContextMenu, spotPreviewData, cutlinePaths, sheetHeights, activeSheet = 0, onSheetChange, resolutionWarnings, designGap = 0, guides = [], onAddGuide, onMoveGuide, onRemoveGuide }, ref) => {
     const { toast } = useToast();
     const { t, lang } = useLanguage();
     const isMobile = useIsMobile();
@@ -82,6 +101,12 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
     const selectionZoomActiveRef = useRef(false);
     selectionZoomActiveRef.current = selectionZoomActive;
     const [moveMode, setMoveMode] = useState(false);
+    const [showRulers, setShowRulers] = useState(true);
+    const [measureActive, setMeasureActive] = useState(false);
+    const measureActiveRef = useRef(false);
+    measureActiveRef.current = measureActive;
+    // Measured segment in artboard inches.
+    const [measureLine, setMeasureLine] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
     const moveModeRef = useRef(false);
     moveModeRef.current = moveMode;
     const isSelectionZoomDragging = useRef(false);
@@ -96,6 +121,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
     const [previewDims, setPreviewDims] = useState({ width: 360, height: 360 });
     const previewDimsRef = useRef(previewDims);
     previewDimsRef.current = previewDims;
+    const artboardFrame = useArtboardFrame(canvasAreaRef, containerRef, zoom, panX, panY, previewDims.width, previewDims.height, artboardWidth);
     const spotPulseRef = useRef(1);
     const spotAnimFrameRef = useRef<number | null>(null);
     const spotOverlayCacheRef = useRef<{ key: string; canvas: HTMLCanvasElement } | null>(null);
@@ -353,7 +379,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
     const isKeyboardScopeActiveRef = useRef(false);
     const wheelTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const isWheelZoomingRef = useRef(false);
-    const snapGuidesRef = useRef<Array<{axis: 'x' | 'y'; pos: number}>>([]);
+    const snapGuidesRef = useRef<SmartGuide[]>([]);
     const dragStartMouseRef = useRef<{x: number; y: number}>({x: 0, y: 0});
     const dragStartTransformRef = useRef<ImageTransform>({nx: 0.5, ny: 0.5, s: 1, rotation: 0});
     const resizeStartDistRef = useRef(0);
@@ -442,6 +468,11 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
 
     useEffect(() => {
       const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape' && measureActiveRef.current) {
+          setMeasureActive(false);
+          setMeasureLine(null);
+          return;
+        }
         if (e.key === 'Escape' && selectionZoomActiveRef.current) {
           setSelectionZoomActive(false);
           isSelectionZoomDragging.current = false;
@@ -750,6 +781,18 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
     const overlappingDesignsRef = useRef(overlappingDesigns);
     overlappingDesignsRef.current = overlappingDesigns;
 
+    // Cutline in canvas pixels around the design center, flipped but not yet rotated.
+    const getCutlinePolygon = useCallback((d: DesignItem, t: ImageTransform, widthInches: number, heightInches: number, rectWidth: number): Array<{ x: number; y: number }> | null => {
+      const path = d.cutline?.enabled ? cutlinePaths?.get(d.id) : undefined;
+      if (!path) return null;
+      const w = widthInches * t.s;
+      const h = heightInches * t.s;
+      const k = rectWidth / w;
+      const kx = t.flipX ? -k : k;
+      const ky = t.flipY ? -k : k;
+      return scaleCutlineToDesign(path, w, h).points.map(p => ({ x: p.x * kx, y: p.y * ky }));
+    }, [cutlinePaths]);
+
     const overlapWorkerRef = useRef<Worker | null>(null);
     useEffect(() => {
       try {
@@ -776,8 +819,9 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
       const sw = Math.max(60, Math.round(canvas.width * scale));
       const sh = Math.max(30, Math.round(canvas.height * scale));
 
-      const designRects: Array<{id: string; left: number; top: number; right: number; bottom: number; design: DesignItem; rect: {x: number; y: number; width: number; height: number}}> = [];
+      const designRects: Array<{id: string; left: number; top: number; right: number; bottom: number; design: DesignItem; rect: {x: number; y: number; width: number; height: number}; cutline: Array<{x: number; y: number}> | null}> = [];
       for (const d of designs) {
+        if (d.hidden) continue;
         const rect = computeLayerRect(
           d.imageInfo.image.width, d.imageInfo.image.height,
           d.transform, sw, sh,
@@ -791,7 +835,23 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         const sin = Math.abs(Math.sin(rad));
         const rotW = rect.width * cos + rect.height * sin;
         const rotH = rect.width * sin + rect.height * cos;
-        designRects.push({ id: d.id, left: cx - rotW / 2, top: cy - rotH / 2, right: cx + rotW / 2, bottom: cy + rotH / 2, design: d, rect });
+        const cutline = getCutlinePolygon(d, d.transform, d.widthInches, d.heightInches, rect.width);
+        if (cutline) {
+          const rrad = (d.transform.rotation * Math.PI) / 180;
+          const rcos = Math.cos(rrad), rsin = Math.sin(rrad);
+          let left = cx - rotW / 2, top = cy - rotH / 2, right = cx + rotW / 2, bottom = cy + rotH / 2;
+          for (const p of cutline) {
+            const px = cx + p.x * rcos - p.y * rsin;
+            const py = cy + p.x * rsin + p.y * rcos;
+            if (px < left) left = px;
+            if (px > right) right = px;
+            if (py < top) top = py;
+            if (py > bottom) bottom = py;
+          }
+          designRects.push({ id: d.id, left, top, right, bottom, design: d, rect, cutline });
+        } else {
+          designRects.push({ id: d.id, left: cx - rotW / 2, top: cy - rotH / 2, right: cx + rotW / 2, bottom: cy + rotH / 2, design: d, rect, cutline: null });
+        }
       }
 
       const outOfBounds = new Set<string>();
@@ -853,6 +913,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
             rotation: dr.design.transform.rotation,
             cx: dr.rect.x + dr.rect.width / 2,
             cy: dr.rect.y + dr.rect.height / 2,
+            ...(dr.cutline ? { cutline: dr.cutline } : {}),
           }));
 
           const handler = (ev: MessageEvent) => {
@@ -901,6 +962,14 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
           octx.rotate((d.transform.rotation * Math.PI) / 180);
           try {
             octx.drawImage(d.imageInfo.image, -rect.width / 2, -rect.height / 2, rect.width, rect.height);
+            const cutline = designRects[idx].cutline;
+            if (cutline) {
+              octx.beginPath();
+              octx.moveTo(cutline[0].x, cutline[0].y);
+              for (let ci = 1; ci < cutline.length; ci++) octx.lineTo(cutline[ci].x, cutline[ci].y);
+              octx.closePath();
+              octx.fill();
+            }
             octx.restore();
             alphaBuffers.set(idx, octx.getImageData(0, 0, sw, sh).data);
           } catch { octx.restore(); continue; }
@@ -932,13 +1001,14 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         }
         } catch (err) { console.warn('Main-thread overlap detection failed:', err); }
       }
-    }, [designs, artboardWidth, artboardHeight]);
+    }, [designs, artboardWidth, artboardHeight, getCutlinePolygon]);
 
     const findDesignAtPoint = useCallback((px: number, py: number): string | null => {
       const canvas = canvasRef.current;
       if (!canvas) return null;
       for (let i = designs.length - 1; i >= 0; i--) {
         const d = designs[i];
+        if (d.locked || d.hidden) continue;
         const rect = computeLayerRect(
           d.imageInfo.image.width, d.imageInfo.image.height,
           d.transform, canvas.width, canvas.height,
@@ -1235,48 +1305,30 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
           ny: dragStartTransformRef.current.ny + dny,
         };
 
-        // Smart guides snapping
-        const SNAP_THRESHOLD = 0.008;
-        const guides: Array<{axis: 'x' | 'y'; pos: number}> = [];
-        const snapTargetsX = [0.5]; // artboard center
-        const snapTargetsY = [0.5];
-
-        for (const d of designs) {
-          if (d.id === selectedDesignId) continue;
-          snapTargetsX.push(d.transform.nx);
-          snapTargetsY.push(d.transform.ny);
-        }
-
-        let snappedNx = unclamped.nx;
-        let snappedNy = unclamped.ny;
-        let bestDx = SNAP_THRESHOLD;
-        let bestTx: number | null = null;
-        for (const tx of snapTargetsX) {
-          const dx = Math.abs(unclamped.nx - tx);
-          if (dx < bestDx) {
-            bestDx = dx;
-            bestTx = tx;
-          }
-        }
-        if (bestTx !== null) {
-          snappedNx = bestTx;
-          guides.push({ axis: 'x', pos: bestTx });
-        }
-        let bestDy = SNAP_THRESHOLD;
-        let bestTy: number | null = null;
-        for (const ty of snapTargetsY) {
-          const dy = Math.abs(unclamped.ny - ty);
-          if (dy < bestDy) {
-            bestDy = dy;
-            bestTy = ty;
-          }
-        }
-        if (bestTy !== null) {
-          snappedNy = bestTy;
-          guides.push({ axis: 'y', pos: bestTy });
-        }
-        unclamped = { ...unclamped, nx: snappedNx, ny: snappedNy };
-        snapGuidesRef.current = guides;
+        // Smart guides snapping (edges, centers, gap and equal spacing, in inches)
+        const SNAP_THRESHOLD_PX = 6;
+        const moving = rotatedBounds(
+          unclamped.nx * artboardWidth, unclamped.ny * artboardHeight,
+          resizeSettings.widthInches * unclamped.s, resizeSettings.heightInches * unclamped.s,
+          unclamped.rotation,
+        );
+        const others = designs
+          .filter(d => d.id !== selectedDesignId && !d.hidden)
+          .map(d => rotatedBounds(
+            d.transform.nx * artboardWidth, d.transform.ny * artboardHeight,
+            d.widthInches * d.transform.s, d.heightInches * d.transform.s,
+            d.transform.rotation,
+          ));
+        const userGuides = showRulers
+          ? { x: guides.filter(g => g.axis === 'x').map(g => g.pos), y: guides.filter(g => g.axis === 'y').map(g => g.pos) }
+          : undefined;
+        const snap = computeSmartGuides(
+          moving, others, artboardWidth, artboardHeight, designGap,
+          SNAP_THRESHOLD_PX * artboardWidth / canvasRect.width,
+          userGuides,
+        );
+        unclamped = { ...unclamped, nx: unclamped.nx + snap.dx / artboardWidth, ny: unclamped.ny + snap.dy / artboardHeight };
+        snapGuidesRef.current = snap.guides;
 
         const newTransform = clampTransformToArtboard(unclamped);
         transformRef.current = newTransform;
@@ -1338,7 +1390,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         transformRef.current = newTransform;
         onTransformChangeRef.current?.(newTransform);
       }
-    }, [onTransformChange, canvasToLocal, clampTransformToArtboard, getMaxScaleForArtboard, toast, onMultiDragDelta, onMultiResizeDelta, onMultiRotateDelta, onDuplicateSelected, startBottomGlow, stopBottomGlow, startAutoPan, designs, selectedDesignId, artboardHeight]);
+    }, [onTransformChange, canvasToLocal, clampTransformToArtboard, getMaxScaleForArtboard, toast, onMultiDragDelta, onMultiResizeDelta, onMultiRotateDelta, onDuplicateSelected, startBottomGlow, stopBottomGlow, startAutoPan, designs, selectedDesignId, artboardWidth, artboardHeight, resizeSettings.widthInches, resizeSettings.heightInches, designGap, guides, showRulers]);
     handleInteractionMoveRef.current = handleInteractionMove;
 
     useEffect(() => {
@@ -1367,6 +1419,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         if (mr && mr.w > 4 && mr.h > 4 && cvs) {
           const hitIds: string[] = [];
           for (const d of designs) {
+            if (d.locked || d.hidden) continue;
             const rect = computeLayerRect(
               d.imageInfo.image.width, d.imageInfo.image.height,
               d.transform, cvs.width, cvs.height,
@@ -1460,7 +1513,7 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
     }, [selectedDesignId, onTransformChange, canvasToLocal, hitTestHandles]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
-      if (selectionZoomActiveRef.current) return;
+      if (selectionZoomActiveRef.current || measureActiveRef.current) return;
       if (isPanningRef.current) {
         const dx = e.clientX - panStartRef.current.x;
         const dy = e.clientY - panStartRef.current.y;
@@ -1637,6 +1690,59 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
       };
     }, [selectionZoomActive, clampPanValue]);
 
+    // Measure tool: drag on the canvas to measure; Shift constrains the angle to 45° steps.
+    useEffect(() => {
+      const area = canvasAreaRef.current;
+      if (!area || !measureActive) return;
+      area.style.cursor = 'crosshair';
+      let start: { x: number; y: number } | null = null;
+
+      const toInches = (clientX: number, clientY: number) => {
+        const canvasRect = canvasRef.current?.getBoundingClientRect();
+        if (!canvasRect) return null;
+        return {
+          x: ((clientX - canvasRect.left) / canvasRect.width) * artboardWidth,
+          y: ((clientY - canvasRect.top) / canvasRect.height) * artboardHeight,
+        };
+      };
+
+      const onDown = (e: MouseEvent) => {
+        if (e.button !== 0) return;
+        if ((e.target as HTMLElement).closest('[data-scrollbar]')) return;
+        e.preventDefault();
+        e.stopPropagation();
+        start = toInches(e.clientX, e.clientY);
+        if (start) setMeasureLine({ x1: start.x, y1: start.y, x2: start.x, y2: start.y });
+      };
+
+      const onMove = (e: MouseEvent) => {
+        if (!start) return;
+        const end = toInches(e.clientX, e.clientY);
+        if (!end) return;
+        let dx = end.x - start.x;
+        let dy = end.y - start.y;
+        if (e.shiftKey) {
+          const length = Math.hypot(dx, dy);
+          const angle = Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+          dx = length * Math.cos(angle);
+          dy = length * Math.sin(angle);
+        }
+        setMeasureLine({ x1: start.x, y1: start.y, x2: start.x + dx, y2: start.y + dy });
+      };
+
+      const onUp = () => { start = null; };
+
+      area.addEventListener('mousedown', onDown, true);
+      window.addEventListener('mousemove', onMove);
+      window.addEventListener('mouseup', onUp);
+      return () => {
+        area.removeEventListener('mousedown', onDown, true);
+        window.removeEventListener('mousemove', onMove);
+        window.removeEventListener('mouseup', onUp);
+        area.style.cursor = getIdleCursor();
+      };
+    }, [measureActive, artboardWidth, artboardHeight, getIdleCursor]);
+
 
     const pinchStartDistRef = useRef(0);
     const pinchStartZoomRef = useRef(1);
@@ -2280,6 +2386,23 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
       ctx.restore();
     }, [artboardWidth, artboardHeight]);
 
+    const drawCutline = useCallback((ctx: CanvasRenderingContext2D, design: DesignItem, t: ImageTransform, widthInches: number, heightInches: number, rect: { x: number; y: number; width: number; height: number }) => {
+      const pts = getCutlinePolygon(design, t, widthInches, heightInches, rect.width);
+      if (!pts || pts.length < 3) return;
+      ctx.save();
+      ctx.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+      ctx.rotate((t.rotation * Math.PI) / 180);
+      ctx.strokeStyle = CUTLINE_COLOR;
+      ctx.lineWidth = 1.5 * dpiScaleRef.current / Math.max(0.25, zoomRef.current);
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(pts[0].x, pts[0].y);
+      for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+      ctx.closePath();
+      ctx.stroke();
+      ctx.restore();
+    }, [getCutlinePolygon]);
+
     useEffect(() => {
       if (!canvasRef.current || (!imageInfo && designs.length === 0)) return;
 
@@ -2322,7 +2445,12 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
 
 
       for (const design of designs) {
-        if (design.id === selectedDesignId) continue;
+        if (design.hidden) continue;
+        if (design.id === selectedDesignId) {
+          // Drawn from the live transform, but in its place in the stacking order.
+          if (imageInfo) drawSelectedArtwork(ctx, canvasWidth, canvasHeight);
+          continue;
+        }
         drawSingleDesign(ctx, design, canvasWidth, canvasHeight);
         if (overlappingDesigns.has(design.id)) {
           const rect = computeLayerRect(
@@ -2358,36 +2486,26 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         }
       }
 
-      if (!imageInfo || !selectedDesignId) return;
-
-      drawImageWithResizePreview(ctx, canvas.width, canvas.height);
+      for (const design of designs) {
+        if (design.id === selectedDesignId || design.hidden || !design.cutline?.enabled) continue;
+        const rect = computeLayerRect(
+          design.imageInfo.image.width, design.imageInfo.image.height,
+          design.transform, canvasWidth, canvasHeight,
+          artboardWidth, artboardHeight,
+          design.widthInches, design.heightInches,
+        );
+        drawCutline(ctx, design, design.transform, design.widthInches, design.heightInches, rect);
+      }
 
-      // Draw smart alignment guides
-      if (snapGuidesRef.current.length > 0) {
-        ctx.save();
-        ctx.strokeStyle = '#f472b6';
-        ctx.lineWidth = 1 * dpiScaleRef.current;
-        ctx.setLineDash([4 * dpiScaleRef.current, 4 * dpiScaleRef.current]);
-        ctx.globalAlpha = 0.8;
-        for (const guide of snapGuidesRef.current) {
-          ctx.beginPath();
-          if (guide.axis === 'x') {
-            const px = guide.pos * canvasWidth;
-            ctx.moveTo(px, 0);
-            ctx.lineTo(px, canvasHeight);
-          } else {
-            const py = guide.pos * canvasHeight;
-            ctx.moveTo(0, py);
-            ctx.lineTo(canvasWidth, py);
-          }
-          ctx.stroke();
-        }
-        ctx.setLineDash([]);
-        ctx.restore();
+      if (!imageInfo || !selectedDesignId) {
+        drawResolutionBadges(ctx, canvasWidth, canvasHeight);
+        return;
       }
-      
-      
-      
+
+      drawSelectedOverlay(ctx, canvas.width, canvas.height);
+
+      drawSmartGuides(ctx, canvasWidth, canvasHeight);
+
       // Marquee selection is rendered as a DOM overlay for instant feedback
 
       if (selectedDesignIds.size > 1) {
@@ -2487,6 +2605,8 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         }
       }
 
+      drawResolutionBadges(ctx, canvasWidth, canvasHeight);
+
       // Draw bottom-edge glow when user is dragging near the bottom (read from ref to avoid re-creating this effect)
       const glowVal = bottomGlowRef.current;
       if (glowVal > 0 && onExpandArtboard) {
@@ -2522,20 +2642,124 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
       };
       renderRef.current = doRender;
       doRender();
-    }, [imageInfo, resizeSettings, previewDims.height, previewDims.width, artboardWidth, artboardHeight, designTransform, designs, selectedDesignId, selectedDesignIds, drawSingleDesign, overlappingDesigns, previewBgColor, zoomDpiTier, isMobile]);
+    }, [imageInfo, resizeSettings, previewDims.height, previewDims.width, artboardWidth, artboardHeight, designTransform, designs, selectedDesignId, selectedDesignIds, drawSingleDesign, drawCutline, overlappingDesigns, previewBgColor, zoomDpiTier, isMobile, resolutionWarnings]);
 
-    const drawImageWithResizePreview = (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
-      if (!imageInfo) return;
+    // A "⚠ 142 DPI" pill at the top-left of each flagged design's bounds, kept at a constant screen size.
+    const drawResolutionBadges = (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
+      if (!resolutionWarnings || resolutionWarnings.size === 0) return;
+      const z = Math.max(0.25, zoomRef.current);
+      const inv = dpiScaleRef.current / z;
+      const fontSize = 10 * inv;
+      const padX = 4 * inv;
+      const height = 15 * inv;
+      ctx.save();
+      ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'middle';
+      for (const d of designs) {
+        const warning = resolutionWarnings.get(d.id);
+        if (!warning || d.hidden) continue;
+        const r = computeLayerRect(
+          d.imageInfo.image.width, d.imageInfo.image.height,
+          d.transform, canvasWidth, canvasHeight,
+          artboardWidth, artboardHeight, d.widthInches, d.heightInches,
+        );
+        const rad = (d.transform.rotation * Math.PI) / 180;
+        const ex = Math.abs(Math.cos(rad)) * r.width / 2 + Math.abs(Math.sin(rad)) * r.height / 2;
+        const ey = Math.abs(Math.sin(rad)) * r.width / 2 + Math.abs(Math.cos(rad)) * r.height / 2;
+        const x = r.x + r.width / 2 - ex + 2 * inv;
+        const y = r.y + r.height / 2 - ey + 2 * inv;
+        const label = `\u26A0 ${Math.round(warning.dpi)} DPI`;
+        const width = ctx.measureText(label).width + padX * 2;
+        ctx.fillStyle = warning.belowMinimum ? 'rgba(220,38,38,0.9)' : 'rgba(217,119,6,0.9)';
+        ctx.beginPath();
+        ctx.roundRect(x, y, width, height, 3 * inv);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, x + padX, y + height / 2);
+      }
+      ctx.restore();
+    };
 
+    // Alignment lines are dashed; spacing guides are solid with end ticks and a length label.
+    const drawSmartGuides = (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
+      if (snapGuidesRef.current.length === 0) return;
+      const z = Math.max(0.25, zoomRef.current);
+      const inv = dpiScaleRef.current / z;
+      const toX = (inches: number) => (inches / artboardWidth) * canvasWidth;
+      const toY = (inches: number) => (inches / artboardHeight) * canvasHeight;
+      const tick = 4 * inv;
+      const fontSize = 10 * inv;
+      const labelH = 15 * inv;
+      ctx.save();
+      ctx.strokeStyle = '#f472b6';
+      ctx.lineWidth = 1 * inv;
+      ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      for (const guide of snapGuidesRef.current) {
+        if (guide.kind === 'align') {
+          ctx.globalAlpha = 0.8;
+          ctx.setLineDash([4 * inv, 4 * inv]);
+          ctx.beginPath();
+          if (guide.axis === 'x') {
+            ctx.moveTo(toX(guide.pos), toY(guide.from));
+            ctx.lineTo(toX(guide.pos), toY(guide.to));
+          } else {
+            ctx.moveTo(toX(guide.from), toY(guide.pos));
+            ctx.lineTo(toX(guide.to), toY(guide.pos));
+          }
+          ctx.stroke();
+          continue;
+        }
+        ctx.globalAlpha = 1;
+        ctx.setLineDash([]);
+        const horizontal = guide.axis === 'x';
+        const x1 = horizontal ? toX(guide.from) : toX(guide.at);
+        const y1 = horizontal ? toY(guide.at) : toY(guide.from);
+        const x2 = horizontal ? toX(guide.to) : toX(guide.at);
+        const y2 = horizontal ? toY(guide.at) : toY(guide.to);
+        ctx.beginPath();
+        ctx.moveTo(x1, y1);
+        ctx.lineTo(x2, y2);
+        if (horizontal) {
+          ctx.moveTo(x1, y1 - tick); ctx.lineTo(x1, y1 + tick);
+          ctx.moveTo(x2, y2 - tick); ctx.lineTo(x2, y2 + tick);
+        } else {
+          ctx.moveTo(x1 - tick, y1); ctx.lineTo(x1 + tick, y1);
+          ctx.moveTo(x2 - tick, y2); ctx.lineTo(x2 + tick, y2);
+        }
+        ctx.stroke();
+        const label = `${formatLength(Math.abs(guide.to - guide.from), lang)}${lang === "en" ? '"' : ""}`;
+        const labelW = ctx.measureText(label).width + 8 * inv;
+        const mx = (x1 + x2) / 2;
+        const my = (y1 + y2) / 2;
+        ctx.fillStyle = '#f472b6';
+        ctx.beginPath();
+        ctx.roundRect(mx - labelW / 2, my - labelH / 2, labelW, labelH, 3 * inv);
+        ctx.fill();
+        ctx.fillStyle = '#ffffff';
+        ctx.fillText(label, mx, my);
+      }
+      ctx.restore();
+    };
+
+    // The selected design follows the in-progress transform rather than its entry in `designs`.
+    const getSelectedRect = (image: HTMLImageElement, canvasWidth: number, canvasHeight: number) => {
       const t = designTransform || { nx: 0.5, ny: 0.5, s: 1, rotation: 0 };
       const rect = computeLayerRect(
-        imageInfo.image.width, imageInfo.image.height,
+        image.width, image.height,
         t,
         canvasWidth, canvasHeight,
         artboardWidth, artboardHeight,
         resizeSettings.widthInches, resizeSettings.heightInches,
       );
+      return { t, rect };
+    };
 
+    const drawSelectedArtwork = (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
+      if (!imageInfo) return;
+      const { t, rect } = getSelectedRect(imageInfo.image, canvasWidth, canvasHeight);
       const selDesign = selectedDesignId ? designs.find(d => d.id === selectedDesignId) : null;
       ctx.save();
       if (selDesign?.alphaThresholded) ctx.imageSmoothingEnabled = false;
@@ -2552,6 +2776,14 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
         ctx.globalAlpha = 1;
       }
       ctx.restore();
+    };
+
+    // Cutline and handles stay above every design, whatever the selected one's stacking position.
+    const drawSelectedOverlay = (ctx: CanvasRenderingContext2D, canvasWidth: number, canvasHeight: number) => {
+      if (!imageInfo) return;
+      const { t, rect } = getSelectedRect(imageInfo.image, canvasWidth, canvasHeight);
+      const selDesign = selectedDesignId ? designs.find(d => d.id === selectedDesignId) : null;
+      if (selDesign) drawCutline(ctx, selDesign, t, resizeSettings.widthInches, resizeSettings.heightInches, rect);
 
       drawSelectionHandles(ctx, rect, t);
     };
@@ -2699,6 +2931,23 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
 
     return (
       <div className="h-full flex flex-col">
+        {sheetHeights && sheetHeights.length > 1 && (
+          <div className="flex items-center gap-1 px-3 pt-2 bg-gray-100 flex-shrink-0 overflow-x-auto">
+            {sheetHeights.map((height, i) => (
+              <button
+                key={i}
+                onClick={() => onSheetChange?.(i)}
+                className={`px-2.5 py-1 rounded-t-md border border-b-0 font-medium whitespace-nowrap transition-colors ${lang === 'en' ? 'text-[11px]' : 'text-[10px]'} ${
+                  i === activeSheet ? 'bg-white border-gray-300 text-cyan-600' : 'bg-gray-200/60 border-transparent text-gray-600 hover:text-gray-900'
+                }`}
+                title={t("preview.sheetOf", { n: i + 1, total: sheetHeights.length })}
+              >
+                {t("preview.sheet", { n: i + 1 })}
+                <span className="ml-1 text-gray-500 font-normal">{formatLength(height, lang)}{lang === "en" ? '"' : ""}</span>
+              </button>
+            ))}
+          </div>
+        )}
         {/* Canvas area - fills available height */}
         <div
           ref={canvasAreaRef}
@@ -2963,6 +3212,47 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
               }}
             />
           )}
+          {showRulers && artboardFrame && (
+            <ArtboardRulers
+              frame={artboardFrame}
+              artboardWidth={artboardWidth}
+              artboardHeight={artboardHeight}
+              guides={guides}
+              onAddGuide={onAddGuide}
+              onMoveGuide={onMoveGuide}
+              onRemoveGuide={onRemoveGuide}
+              lang={lang}
+              t={t}
+            />
+          )}
+          {measureLine && artboardFrame && (() => {
+            const { originX, originY, pxPerInch } = artboardFrame;
+            const x1 = originX + measureLine.x1 * pxPerInch;
+            const y1 = originY + measureLine.y1 * pxPerInch;
+            const x2 = originX + measureLine.x2 * pxPerInch;
+            const y2 = originY + measureLine.y2 * pxPerInch;
+            const dx = measureLine.x2 - measureLine.x1;
+            const dy = measureLine.y2 - measureLine.y1;
+            const unit = lang === "en" ? '"' : "";
+            // Angle counter-clockwise from the positive x axis, as on a protractor.
+            const angle = (Math.atan2(-dy, dx) * 180) / Math.PI;
+            return (
+              <>
+                <svg className="absolute inset-0 pointer-events-none z-40" width="100%" height="100%">
+                  <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="#f59e0b" strokeWidth={1.5} />
+                  <circle cx={x1} cy={y1} r={3} fill="#ffffff" stroke="#f59e0b" strokeWidth={1.5} />
+                  <circle cx={x2} cy={y2} r={3} fill="#ffffff" stroke="#f59e0b" strokeWidth={1.5} />
+                </svg>
+                <div
+                  className="absolute pointer-events-none z-40 px-1.5 py-0.5 rounded bg-gray-800/90 text-white text-[10px] leading-tight tabular-nums whitespace-nowrap"
+                  style={{ left: (x1 + x2) / 2, top: (y1 + y2) / 2, transform: 'translate(-50%, calc(-100% - 8px))' }}
+                >
+                  <div className="font-semibold">{formatLength(Math.hypot(dx, dy), lang)}{unit} · {angle.toFixed(1)}°</div>
+                  <div className="text-gray-300">Δx {formatLength(Math.abs(dx), lang)}{unit} · Δy {formatLength(Math.abs(dy), lang)}{unit}</div>
+                </div>
+              </>
+            );
+          })()}
           {showDragPerfDebug && dragPerfText && (
             <div
               className="absolute top-2 right-2 z-50 pointer-events-none"
@@ -3073,7 +3363,11 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
                 <Button 
                   variant="ghost"
                   size="sm"
-                  onClick={() => setSelectionZoomActive(prev => !prev)}
+                  onClick={() => {
+                    setMeasureActive(false);
+                    setMeasureLine(null);
+                    setSelectionZoomActive(prev => !prev);
+                  }}
                   className={`h-6 px-1.5 hover:bg-gray-200 rounded whitespace-nowrap ${lang !== 'en' ? 'text-[10px]' : 'text-[11px]'} ${selectionZoomActive ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-600'}`}
                   title={t("preview.selectionZoom")}
                 >
@@ -3108,6 +3402,30 @@ const PreviewSection = forwardRef<HTMLCanvasElement, PreviewSectionProps>(
                   <MousePointer2 className="h-2.5 w-2.5 mr-0.5 flex-shrink-0" />
                   {t("preview.move")}
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowRulers(prev => !prev)}
+                  className={`h-6 px-1.5 hover:bg-gray-200 rounded whitespace-nowrap ${lang !== 'en' ? 'text-[10px]' : 'text-[11px]'} ${showRulers ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-600'}`}
+                  title={t("preview.rulersTitle")}
+                >
+                  <Frame className="h-2.5 w-2.5 mr-0.5 flex-shrink-0" />
+                  {t("preview.rulers")}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setMeasureLine(null);
+                    setSelectionZoomActive(false);
+                    setMeasureActive(prev => !prev);
+                  }}
+                  className={`h-6 px-1.5 hover:bg-gray-200 rounded whitespace-nowrap ${lang !== 'en' ? 'text-[10px]' : 'text-[11px]'} ${measureActive ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-600'}`}
+                  title={t("preview.measureTitle")}
+                >
+                  <Ruler className="h-2.5 w-2.5 mr-0.5 flex-shrink-0" />
+                  {t("preview.measure")}
+                </Button>
                 {selectedDesignId && (
                   <Button
                     variant="ghost"
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Trash2, FolderOpen, Download } from "lucide-react";
+import { listProjects, deleteProject, type ProjectListItem } from "@/lib/project-storage";
+
+interface ProjectModalProps {
+  open: boolean;
+  onClose: () => void;
+  profileId: string;
+  currentProjectId: number | null;
+  currentName: string;
+  canSave: boolean;
+  onSave: (name: string, asNew: boolean) => Promise<void>;
+  onOpen: (id: number) => Promise<void>;
+  onDeleted: (id: number) => void;
+  onExportFile: (name: string) => Promise<void>;
+  t: (key: string, vars?: Record<string, string | number>) => string;
+}
+
+export default function ProjectModal({
+  open,
+  onClose,
+  profileId,
+  currentProjectId,
+  currentName,
+  canSave,
+  onSave,
+  onOpen,
+  onDeleted,
+  onExportFile,
+  t,
+}: ProjectModalProps) {
+  const [name, setName] = useState(currentName);
+  const [projects, setProjects] = useState<ProjectListItem[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const all = await listProjects();
+      setProjects(all.filter(p => p.profileId === profileId));
+      setError(null);
+    } catch (err) {
+      setProjects([]);
+      setError(err instanceof Error ? err.message : t("project.loadFailed"));
+    }
+  }, [profileId, t]);
+
+  useEffect(() => {
+    if (open) {
+      setName(currentName);
+      setProjects(null);
+      refresh();
+    }
+  }, [open, currentName, refresh]);
+
+  if (!open) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const trimmedName = name.trim();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-[420px] max-w-[90vw] max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-gray-800 px-6 py-3 border-b border-gray-200">
+          {t("project.title")}
+        </h2>
+
+        <div className="px-6 py-3 border-b border-gray-200 space-y-2">
+          <label className="text-xs font-medium text-gray-600">{t("project.name")}</label>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("project.namePlaceholder")}
+            className="w-full h-9 px-3 text-sm bg-white border border-gray-300 rounded-md text-gray-800 focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500 outline-none"
+            maxLength={120}
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={busy || !canSave}
+              onClick={() => run(() => onExportFile(trimmedName || t("project.namePlaceholder")))}
+              className="mr-auto"
+              title={t("project.exportFileTitle")}
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {t("project.exportFile")}
+            </Button>
+            {currentProjectId !== null && (
+              <Button
+                variant="outline"
+                disabled={busy || !canSave || !trimmedName}
+                onClick={() => run(async () => { await onSave(trimmedName, true); await refresh(); })}
+              >
+                {t("project.saveAsNew")}
+              </Button>
+            )}
+            <Button
+              disabled={busy || !canSave || !trimmedName}
+              onClick={() => run(async () => { await onSave(trimmedName, false); await refresh(); })}
+              className="bg-cyan-600 hover:bg-cyan-700"
+            >
+              {busy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {currentProjectId !== null ? t("project.save") : t("project.saveNew")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-[120px] overflow-y-auto">
+          <p className="text-xs font-medium text-gray-600 px-6 pt-3 pb-1">{t("project.saved")}</p>
+          {projects === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 text-cyan-500 animate-spin" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-500 px-6 py-3">{error}</p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-gray-500 px-6 py-3">{t("project.none")}</p>
+          ) : (
+            projects.map((p) => (
+              <div
+                key={p.id}
+                className={`flex items-center gap-2 px-6 py-2 ${p.id === currentProjectId ? 'bg-cyan-50' : 'hover:bg-gray-50'}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900 truncate">{p.name}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {t(p.designCount === 1 ? "controls.designs" : "controls.designsPlural", { count: p.designCount })}
+                    {" · "}
+                    {new Date(p.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  disabled={busy}
+                  onClick={() => run(async () => { await onOpen(p.id); })}
+                  className="p-1.5 rounded-md hover:bg-gray-200 text-gray-600 hover:text-cyan-600 transition-colors disabled:opacity-30"
+                  title={t("project.open")}
+                >
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => run(async () => {
+                    try {
+                      await deleteProject(p.id);
+                      onDeleted(p.id);
+                      await refresh();
+                    } catch (err) {
+                      setError(err instanceof Error ? err.message : t("project.deleteFailed"));
+                    }
+                  })}
+                  className="p-1.5 rounded-md hover:bg-gray-200 text-gray-600 hover:text-red-400 transition-colors disabled:opacity-30"
+                  title={t("project.delete")}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-end px-6 py-3 border-t border-gray-200">
+          <Button variant="outline" onClick={onClose}>
+            {t("project.close")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,13 @@ import { Upload } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLanguage } from "@/lib/i18n";
 import { useMetric } from "@/lib/format-length";
+import { isGangsheetFile } from "@/lib/gangsheet-file";
+import { isVectorDocumentFile } from "@/lib/pdf-parser";
+import { isSVGFile } from "@/lib/svg-import";
 import type { ImageInfo, ResizeSettings } from "./image-editor";
 
-const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf'];
-const ACCEPTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.pdf'];
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml', 'application/pdf', 'application/postscript', 'application/illustrator'];
+const ACCEPTED_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.svg', '.pdf', '.ai', '.eps'];
 const GRADIENT_COLORS = [
   { bg: 'rgb(34, 197, 94)', glow: 'rgba(34, 197, 94, 0.5)' },
   { bg: 'rgb(234, 179, 8)', glow: 'rgba(234, 179, 8, 0.5)' },
@@ -17,19 +20,25 @@ const GRADIENT_COLORS = [
 interface UploadSectionProps {
   onImageUpload: (file: File, image: HTMLImageElement | null) => void;
   onBatchStart?: (fileCount: number) => void;
+  onProjectFileUpload?: (file: File) => void;
   imageInfo?: ImageInfo | null;
   resizeSettings?: ResizeSettings | null;
 }
 
-export default function UploadSection({ onImageUpload, onBatchStart, imageInfo }: UploadSectionProps) {
+export default function UploadSection({ onImageUpload, onBatchStart, onProjectFileUpload, imageInfo }: UploadSectionProps) {
   const { toast } = useToast();
   const { t, lang } = useLanguage();
   const metric = useMetric(lang);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = useCallback(async (file: File) => {
+    if (onProjectFileUpload && isGangsheetFile(file)) {
+      onProjectFileUpload(file);
+      return;
+    }
+
     const ext = file.name.toLowerCase();
-    const isPdf = file.type === 'application/pdf' || ext.endsWith('.pdf');
+    const isPdf = isVectorDocumentFile(file);
     const isImage = ACCEPTED_TYPES.includes(file.type) || ACCEPTED_EXTENSIONS.some(e => ext.endsWith(e));
 
     if (!isImage && !isPdf) {
@@ -37,7 +46,8 @@ export default function UploadSection({ onImageUpload, onBatchStart, imageInfo }
       return;
     }
 
-    if (isPdf) {
+    // Vector files are parsed by the editor, which keeps their source for export.
+    if (isPdf || isSVGFile(file)) {
       onImageUpload(file, null as unknown as HTMLImageElement);
       return;
     }
@@ -93,12 +103,13 @@ export default function UploadSection({ onImageUpload, onBatchStart, imageInfo }
       toast({ title: t("toast.failedLoad"), description: t("toast.failedLoadDesc"), variant: "destructive" });
     };
     img.src = originalUrl;
-  }, [onImageUpload, toast, t]);
+  }, [onImageUpload, onProjectFileUpload, toast, t]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     const files = Array.from(e.dataTransfer.files);
-    if (files.length > 1) onBatchStart?.(files.length);
+    const imageCount = files.filter(f => !isGangsheetFile(f)).length;
+    if (imageCount > 1) onBatchStart?.(imageCount);
     for (const file of files) {
       handleFileUpload(file);
     }
@@ -111,7 +122,8 @@ export default function UploadSection({ onImageUpload, onBatchStart, imageInfo }
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
       const files = Array.from(e.target.files);
-      if (files.length > 1) onBatchStart?.(files.length);
+      const imageCount = files.filter(f => !isGangsheetFile(f)).length;
+      if (imageCount > 1) onBatchStart?.(imageCount);
       for (const file of files) {
         handleFileUpload(file);
       }
@@ -179,7 +191,7 @@ export default function UploadSection({ onImageUpload, onBatchStart, imageInfo }
           type="file" 
           ref={fileInputRef}
           className="hidden" 
-          accept=".png,.jpg,.jpeg,.webp,.pdf,image/png,image/jpeg,image/webp,application/pdf" 
+          accept={`.png,.jpg,.jpeg,.webp,.svg,.pdf,.ai,.eps,image/png,image/jpeg,image/webp,image/svg+xml,application/pdf,application/postscript,application/illustrator${onProjectFileUpload ? ',.gangsheet' : ''}`}
           multiple
           onChange={handleFileInputChange}
         />
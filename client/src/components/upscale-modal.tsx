@@ -0,0 +1,289 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import type { ImageInfo } from "@/lib/types";
+import { UPSCALE_FACTORS, looksLikePixelArt, maxUpscaleFactor, upscaleImageAsync, type UpscaleMethod } from "@/lib/image-upscale";
+
+interface UpscaleModalProps {
+  open: boolean;
+  onClose: () => void;
+  imageInfo: ImageInfo;
+  // Printed width of the design, for the before/after DPI readout.
+  printWidthInches: number;
+  onUpscale: (upscaledImageInfo: ImageInfo) => void;
+  t: (key: string, vars?: Record<string, string | number>) => string;
+}
+
+// Side of each square before/after detail panel, in CSS pixels.
+const PANEL_SIZE = 280;
+const OVERVIEW_SIZE = 120;
+
+function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Failed to load image")); };
+    img.src = url;
+  });
+}
+
+export default function UpscaleModal({
+  open,
+  onClose,
+  imageInfo,
+  printWidthInches,
+  onUpscale,
+  t,
+}: UpscaleModalProps) {
+  const img = imageInfo.image;
+  const imgW = img.naturalWidth || img.width;
+  const imgH = img.naturalHeight || img.height;
+  const maxFactor = maxUpscaleFactor(imgW, imgH);
+
+  const [method, setMethod] = useState<UpscaleMethod>("smooth");
+  const [factor, setFactor] = useState(2);
+  const [sharpen, setSharpen] = useState(0.5);
+  const [result, setResult] = useState<HTMLCanvasElement | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [applying, setApplying] = useState(false);
+  // Centre of the detail panels, normalized to the image.
+  const [focus, setFocus] = useState({ x: 0.5, y: 0.5 });
+  const beforeRef = useRef<HTMLCanvasElement>(null);
+  const afterRef = useRef<HTMLCanvasElement>(null);
+  const runRef = useRef(0);
+  const panRef = useRef<{ x: number; y: number; focus: typeof focus } | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setMethod(looksLikePixelArt(img) ? "pixel-art" : "smooth");
+    setFactor(Math.max(1, Math.min(2, maxFactor)));
+    setFocus({ x: 0.5, y: 0.5 });
+  }, [open, img, maxFactor]);
+
+  useEffect(() => {
+    if (!open || factor < 2) return;
+    const run = ++runRef.current;
+    setProcessing(true);
+    setFailed(false);
+    // Let quick slider drags settle before starting a full-image pass.
+    const timer = setTimeout(() => {
+      upscaleImageAsync(img, { factor, method, sharpen })
+        .then(canvas => { if (run === runRef.current) setResult(canvas); })
+        .catch(err => {
+          console.error("Upscale failed:", err);
+          if (run === runRef.current) { setResult(null); setFailed(true); }
+        })
+        .finally(() => { if (run === runRef.current) setProcessing(false); });
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [open, img, factor, method, sharpen]);
+
+  useEffect(() => {
+    if (!open) setResult(null);
+  }, [open]);
+
+  // Both panels show the same region of the print: the original enlarged by the browser, the result at 1:1.
+  useEffect(() => {
+    const drawRegion = (canvas: HTMLCanvasElement | null, source: CanvasImageSource, sw: number, sh: number, scale: number, smooth: boolean) => {
+      const ctx = canvas?.getContext("2d");
+      if (!canvas || !ctx) return;
+      ctx.clearRect(0, 0, PANEL_SIZE, PANEL_SIZE);
+      ctx.imageSmoothingEnabled = smooth;
+      const regionW = PANEL_SIZE / scale;
+      const regionH = PANEL_SIZE / scale;
+      const sx = Math.max(0, Math.min(sw - regionW, focus.x * sw - regionW / 2));
+      const sy = Math.max(0, Math.min(sh - regionH, focus.y * sh - regionH / 2));
+      const dx = regionW > sw ? (PANEL_SIZE - sw * scale) / 2 : 0;
+      const dy = regionH > sh ? (PANEL_SIZE - sh * scale) / 2 : 0;
+      ctx.drawImage(source, sx, sy, Math.min(regionW, sw), Math.min(regionH, sh), dx, dy, Math.min(regionW, sw) * scale, Math.min(regionH, sh) * scale);
+    };
+    if (!open) return;
+    drawRegion(beforeRef.current, img, imgW, imgH, factor, method === "smooth");
+    if (result) drawRegion(afterRef.current, result, result.width, result.height, 1, false);
+  }, [open, img, imgW, imgH, factor, method, result, focus]);
+
+  const handlePanStart = useCallback((e: React.PointerEvent) => {
+    e.preventDefault();
+    panRef.current = { x: e.clientX, y: e.clientY, focus };
+  }, [focus]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onMove = (e: PointerEvent) => {
+      const start = panRef.current;
+      if (!start) return;
+      const clamp = (v: number) => Math.max(0, Math.min(1, v));
+      setFocus({
+        x: clamp(start.focus.x - (e.clientX - start.x) / (imgW * factor)),
+        y: clamp(start.focus.y - (e.clientY - start.y) / (imgH * factor)),
+      });
+    };
+    const onUp = () => { panRef.current = null; };
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+    };
+  }, [open, imgW, imgH, factor]);
+
+  const handleOverviewPointer = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === "pointermove" && e.buttons !== 1) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocus({
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    });
+  }, []);
+
+  const handleApply = useCallback(async () => {
+    if (!result) return;
+    setApplying(true);
+    try {
+      const blob = await new Promise<Blob | null>((res) => result.toBlob((b) => res(b), "image/png"));
+      if (!blob) return;
+      const upscaledImg = await loadImageFromBlob(blob);
+      const file = new File([blob], imageInfo.file.name.replace(/\.[^/.]+$/, "") + "-upscaled.png", { type: "image/png" });
+      onUpscale({
+        file,
+        image: upscaledImg,
+        originalWidth: upscaledImg.naturalWidth,
+        originalHeight: upscaledImg.naturalHeight,
+        dpi: imageInfo.dpi * factor,
+      });
+      onClose();
+    } finally {
+      setApplying(false);
+    }
+  }, [result, imageInfo, factor, onUpscale, onClose]);
+
+  if (!open) return null;
+
+  const beforeDpi = printWidthInches > 0 ? Math.round(imgW / printWidthInches) : 0;
+  const overviewScale = Math.min(OVERVIEW_SIZE / imgW, OVERVIEW_SIZE / imgH);
+  const overviewW = imgW * overviewScale;
+  const overviewH = imgH * overviewScale;
+  const windowW = Math.min(overviewW, PANEL_SIZE / factor * overviewScale);
+  const windowH = Math.min(overviewH, PANEL_SIZE / factor * overviewScale);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-[90vw] max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold text-gray-800 px-6 py-3 border-b border-gray-200">
+          {t("upscale.title")}
+        </h2>
+        <p className="text-sm text-gray-500 px-6 pt-2 pb-2">
+          {t("upscale.desc")}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 px-6 pb-3 text-xs text-gray-700">
+          <div className="flex items-center gap-1">
+            {(["smooth", "pixel-art"] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMethod(m)}
+                className={`px-2.5 py-1 rounded-md border transition-colors ${method === m ? 'border-cyan-500 bg-cyan-50 text-cyan-700' : 'border-gray-200 hover:border-gray-300'}`}
+              >
+                {t(m === "smooth" ? "upscale.smooth" : "upscale.pixelArt")}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            {UPSCALE_FACTORS.map(f => (
+              <button
+                key={f}
+                onClick={() => setFactor(f)}
+                disabled={f > maxFactor}
+                className={`px-2.5 py-1 rounded-md border tabular-nums transition-colors disabled:opacity-30 disabled:pointer-events-none ${factor === f ? 'border-cyan-500 bg-cyan-50 text-cyan-700' : 'border-gray-200 hover:border-gray-300'}`}
+              >
+                {f}×
+              </button>
+            ))}
+          </div>
+          {method === "smooth" && (
+            <label className="flex items-center gap-2">
+              {t("upscale.sharpen")}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={sharpen}
+                onChange={(e) => setSharpen(parseFloat(e.target.value))}
+                className="w-24 accent-cyan-600"
+              />
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-3 px-6 pb-3">
+          <div
+            className="relative flex-shrink-0 bg-gray-900 rounded flex items-center justify-center cursor-crosshair"
+            style={{ width: OVERVIEW_SIZE, height: OVERVIEW_SIZE }}
+          >
+            <div
+              className="relative"
+              style={{ width: overviewW, height: overviewH }}
+              onPointerDown={handleOverviewPointer}
+              onPointerMove={handleOverviewPointer}
+            >
+              <img src={img.src} alt="" className="w-full h-full select-none pointer-events-none" draggable={false} />
+              <div
+                className="absolute border border-cyan-400 bg-cyan-400/20 pointer-events-none"
+                style={{
+                  width: windowW,
+                  height: windowH,
+                  left: Math.max(0, Math.min(overviewW - windowW, focus.x * overviewW - windowW / 2)),
+                  top: Math.max(0, Math.min(overviewH - windowH, focus.y * overviewH - windowH / 2)),
+                }}
+              />
+            </div>
+          </div>
+          {([["before", beforeRef], ["after", afterRef]] as const).map(([key, ref]) => (
+            <div key={key} className="flex flex-col gap-1">
+              <div
+                className="relative bg-gray-900 rounded overflow-hidden cursor-grab active:cursor-grabbing"
+                style={{ width: PANEL_SIZE, height: PANEL_SIZE }}
+                onPointerDown={handlePanStart}
+              >
+                <canvas ref={ref} width={PANEL_SIZE} height={PANEL_SIZE} className="block" />
+                {key === "after" && (processing || failed) && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-gray-900/70 text-xs text-gray-200">
+                    {processing ? <Loader2 className="w-5 h-5 text-cyan-400 animate-spin" /> : t("upscale.failed")}
+                  </div>
+                )}
+              </div>
+              <span className="text-[11px] text-gray-600 tabular-nums">
+                {key === "before"
+                  ? t("upscale.before", { dpi: beforeDpi, width: imgW, height: imgH })
+                  : t("upscale.after", { dpi: beforeDpi * factor, width: imgW * factor, height: imgH * factor })}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {maxFactor < 2 && (
+          <p className="text-xs text-red-500 px-6 pb-2">{t("upscale.tooLarge")}</p>
+        )}
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-gray-200">
+          <Button variant="outline" onClick={onClose}>
+            {t("upscale.cancel")}
+          </Button>
+          <Button
+            onClick={handleApply}
+            disabled={!result || processing || applying}
+            className="bg-cyan-600 hover:bg-cyan-700"
+          >
+            {t("upscale.apply", { factor })}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useRef, useCallback } from "react";
+import type { SheetGuide } from "@shared/schema";
 
 export interface HistorySnapshot {
   designsJson: string;
@@ -6,6 +7,8 @@ export interface HistorySnapshot {
   imageInfoMap?: Map<string, unknown>;
   artboardWidth?: number;
   artboardHeight?: number;
+  sheetHeights?: number[];
+  guides?: SheetGuide[];
 }
 
 const MAX_HISTORY = 50;
@@ -50,8 +53,15 @@ export function useHistory() {
     isUndoRedoRef.current = false;
   }, []);
 
+  // Drops all undo/redo entries so the current state becomes the new baseline (e.g. after importing a sheet).
+  const reset = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    isUndoRedoRef.current = false;
+  }, []);
+
   const canUndo = useCallback(() => pastRef.current.length > 0, []);
   const canRedo = useCallback(() => futureRef.current.length > 0, []);
 
-  return { pushSnapshot, undo, redo, clearIsUndoRedo, canUndo, canRedo };
+  return { pushSnapshot, undo, redo, clearIsUndoRedo, reset, canUndo, canRedo };
 }
@@ -0,0 +1,84 @@
+// Align, distribute and pack commands for a multi-selection. Everything is in artboard inches, +y down.
+import type { GuideBox } from './smart-guides';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeMode = 'gaps' | 'centers';
+
+export interface LayoutItem {
+  id: string;
+  box: GuideBox;
+}
+
+// How far each design moves, keyed by design id. Designs that stay put are left out.
+export type LayoutOffsets = Map<string, { dx: number; dy: number }>;
+
+export function selectionBounds(items: LayoutItem[]): GuideBox {
+  return {
+    left: Math.min(...items.map(i => i.box.left)),
+    top: Math.min(...items.map(i => i.box.top)),
+    right: Math.max(...items.map(i => i.box.right)),
+    bottom: Math.max(...items.map(i => i.box.bottom)),
+  };
+}
+
+function lo(box: GuideBox, axis: 'x' | 'y') { return axis === 'x' ? box.left : box.top; }
+function hi(box: GuideBox, axis: 'x' | 'y') { return axis === 'x' ? box.right : box.bottom; }
+function mid(box: GuideBox, axis: 'x' | 'y') { return (lo(box, axis) + hi(box, axis)) / 2; }
+
+function addOffset(offsets: LayoutOffsets, id: string, axis: 'x' | 'y', delta: number) {
+  if (Math.abs(delta) < 1e-9) return;
+  offsets.set(id, axis === 'x' ? { dx: delta, dy: 0 } : { dx: 0, dy: delta });
+}
+
+/** Lines every item's `edge` up with the same edge of `target` (the selection bounds or the artboard). */
+export function alignItems(items: LayoutItem[], edge: AlignEdge, target: GuideBox): LayoutOffsets {
+  const axis = edge === 'left' || edge === 'center' || edge === 'right' ? 'x' : 'y';
+  const pick = edge === 'left' || edge === 'top' ? lo : edge === 'right' || edge === 'bottom' ? hi : mid;
+  const line = pick(target, axis);
+  const offsets: LayoutOffsets = new Map();
+  for (const item of items) addOffset(offsets, item.id, axis, line - pick(item.box, axis));
+  return offsets;
+}
+
+/**
+ * Spreads items along `axis` between the two outermost ones, which stay where they are. `gaps`
+ * leaves the same space between neighbours; `centers` puts the centers the same distance apart.
+ */
+export function distributeItems(items: LayoutItem[], axis: 'x' | 'y', mode: DistributeMode): LayoutOffsets {
+  const offsets: LayoutOffsets = new Map();
+  if (items.length < 3) return offsets;
+  const sorted = [...items].sort((a, b) => mid(a.box, axis) - mid(b.box, axis));
+  const first = sorted[0].box;
+  const last = sorted[sorted.length - 1].box;
+
+  if (mode === 'centers') {
+    const step = (mid(last, axis) - mid(first, axis)) / (sorted.length - 1);
+    sorted.forEach((item, i) => addOffset(offsets, item.id, axis, mid(first, axis) + step * i - mid(item.box, axis)));
+    return offsets;
+  }
+
+  const start = Math.min(...sorted.map(i => lo(i.box, axis)));
+  const end = Math.max(...sorted.map(i => hi(i.box, axis)));
+  const occupied = sorted.reduce((sum, i) => sum + hi(i.box, axis) - lo(i.box, axis), 0);
+  // Negative when the items overlap more than they are spread out; they then overlap equally.
+  const gap = (end - start - occupied) / (sorted.length - 1);
+  let cursor = start;
+  for (const item of sorted) {
+    addOffset(offsets, item.id, axis, cursor - lo(item.box, axis));
+    cursor += hi(item.box, axis) - lo(item.box, axis) + gap;
+  }
+  return offsets;
+}
+
+/** Closes up the spacing along `axis` to exactly `gap`, keeping the leading item in place. */
+export function packItems(items: LayoutItem[], axis: 'x' | 'y', gap: number): LayoutOffsets {
+  const offsets: LayoutOffsets = new Map();
+  if (items.length < 2) return offsets;
+  const sorted = [...items].sort((a, b) => lo(a.box, axis) - lo(b.box, axis) || mid(a.box, axis) - mid(b.box, axis));
+  let cursor = lo(sorted[0].box, axis);
+  for (const item of sorted) {
+    addOffset(offsets, item.id, axis, cursor - lo(item.box, axis));
+    cursor += hi(item.box, axis) - lo(item.box, axis) + gap;
+  }
+  return offsets;
+}
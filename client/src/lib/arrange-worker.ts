@@ -10,10 +10,20 @@ interface FixedRect {
   h: number;
 }
 
+type OutlinePoint = { x: number; y: number };
+
+interface NestingOptions {
+  // Degrees between tried orientations (90 → 0/90/180/270).
+  rotationStep: number;
+  // Collision grid cell size in inches; derived from the sheet width when omitted.
+  resolution?: number;
+}
+
 interface ArrangeInput {
   type: 'arrange';
   requestId: number;
-  items: Array<{ id: string; w: number; h: number; fill: number }>;
+  // outline: simplified outer contour in inches around the item center, unrotated (+y down).
+  items: Array<{ id: string; w: number; h: number; fill: number; outline?: OutlinePoint[] }>;
   usableW: number;
   usableH: number;
   artboardWidth: number;
@@ -21,6 +31,12 @@ interface ArrangeInput {
   isAggressive: boolean;
   customGap?: number;
   fixedRects?: FixedRect[];
+  nesting?: NestingOptions;
+  // Extra orientations (degrees) tried per item using the rotated outline's bounding box; 0°/90° are always tried.
+  rotationAngles?: number[];
+  // Standard sheet heights; when set, items are spread over sheets of these heights and the
+  // last sheet gets the shortest one that holds what is left.
+  candidateHeights?: number[];
 }
 
 function findBestPos(sky: SkylineSeg[], itemW: number, itemH: number, usableH: number): { x: number; y: number; waste: number } | null {
@@ -445,8 +461,255 @@ function shelfPack(
   return { result, maxHeight, wastedArea };
 }
 
+// ── Shape nesting ───────────────────────────────────────────────────────────
+// Items are rasterized into row intervals on a coarse grid and dropped at the
+// lowest, then left-most, collision-free cell (bottom-left fill). Placed shapes
+// are stamped dilated by the gap, so a bare candidate touching the stamp stays
+// at least `gap` away from its neighbour.
+
+type RowSpans = Array<Array<[number, number]>>;
+
+interface NestMask {
+  cols: number;
+  rows: number;
+  spans: RowSpans;
+  // Offset from the mask's top-left corner to the item center, in inches.
+  centerX: number;
+  centerY: number;
+  area: number;
+}
+
+function rasterizeOutline(outline: OutlinePoint[], angleDeg: number, res: number): NestMask {
+  const rad = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  const pts = outline.map(p => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos }));
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of pts) {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.y > maxY) maxY = p.y;
+  }
+  const cols = Math.max(1, Math.ceil((maxX - minX) / res));
+  const rows = Math.max(1, Math.ceil((maxY - minY) / res));
+  const spans: RowSpans = [];
+  let area = 0;
+
+  for (let r = 0; r < rows; r++) {
+    const yTop = minY + r * res;
+    const yBot = yTop + res;
+    // Sample the row at its top, middle and bottom so thin features are not dropped.
+    const hits: Array<[number, number]> = [];
+    for (const y of [yTop + res * 0.05, yTop + res * 0.5, yBot - res * 0.05]) {
+      const xs: number[] = [];
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const a = pts[i], b = pts[j];
+        if ((a.y > y) !== (b.y > y)) {
+          xs.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      xs.sort((p, q) => p - q);
+      for (let k = 0; k + 1 < xs.length; k += 2) {
+        const c0 = Math.max(0, Math.floor((xs[k] - minX) / res));
+        const c1 = Math.min(cols - 1, Math.floor((xs[k + 1] - minX) / res));
+        if (c1 >= c0) hits.push([c0, c1]);
+      }
+    }
+    const merged = mergeSpans(hits);
+    for (const [a, b] of merged) area += (b - a + 1) * res * res;
+    spans.push(merged);
+  }
+
+  return { cols, rows, spans, centerX: -minX, centerY: -minY, area };
+}
+
+function rectOutline(w: number, h: number): OutlinePoint[] {
+  return [
+    { x: -w / 2, y: -h / 2 }, { x: w / 2, y: -h / 2 },
+    { x: w / 2, y: h / 2 }, { x: -w / 2, y: h / 2 },
+  ];
+}
+
+function mergeSpans(spans: Array<[number, number]>): Array<[number, number]> {
+  if (spans.length < 2) return spans;
+  spans.sort((a, b) => a[0] - b[0]);
+  const out: Array<[number, number]> = [[spans[0][0], spans[0][1]]];
+  for (let i = 1; i < spans.length; i++) {
+    const last = out[out.length - 1];
+    if (spans[i][0] <= last[1] + 1) last[1] = Math.max(last[1], spans[i][1]);
+    else out.push([spans[i][0], spans[i][1]]);
+  }
+  return out;
+}
+
+class NestGrid {
+  readonly cols: number;
+  readonly rows: number;
+  private cells: Uint8Array;
+  // lastOccupied[row * cols + x] = largest occupied column ≤ x in that row, or -1.
+  private lastOccupied: Int32Array;
+
+  constructor(cols: number, rows: number) {
+    this.cols = cols;
+    this.rows = rows;
+    this.cells = new Uint8Array(cols * rows);
+    this.lastOccupied = new Int32Array(cols * rows).fill(-1);
+  }
+
+  private refreshRow(row: number) {
+    const base = row * this.cols;
+    let last = -1;
+    for (let x = 0; x < this.cols; x++) {
+      if (this.cells[base + x]) last = x;
+      this.lastOccupied[base + x] = last;
+    }
+  }
+
+  fillSpan(row: number, x0: number, x1: number) {
+    if (row < 0 || row >= this.rows) return;
+    const a = Math.max(0, x0), b = Math.min(this.cols - 1, x1);
+    if (b < a) return;
+    this.cells.fill(1, row * this.cols + a, row * this.cols + b + 1);
+  }
+
+  // Stamps a mask at (x, y) grown by a disc of `radius` cells.
+  stamp(mask: NestMask, x: number, y: number, radius: number) {
+    const touched = new Set<number>();
+    for (let r = 0; r < mask.rows; r++) {
+      for (const [a, b] of mask.spans[r]) {
+        for (let dy = -radius; dy <= radius; dy++) {
+          const grow = Math.floor(Math.sqrt(radius * radius - dy * dy));
+          const row = y + r + dy;
+          if (row < 0 || row >= this.rows) continue;
+          this.fillSpan(row, x + a - grow, x + b + grow);
+          touched.add(row);
+        }
+      }
+    }
+    touched.forEach(row => this.refreshRow(row));
+  }
+
+  stampRect(x0: number, y0: number, x1: number, y1: number) {
+    for (let row = Math.max(0, y0); row <= Math.min(this.rows - 1, y1); row++) {
+      this.fillSpan(row, x0, x1);
+      this.refreshRow(row);
+    }
+  }
+
+  // Returns 0 when the mask fits at (x, y), otherwise how far x must advance to clear the first collision.
+  collisionSkip(mask: NestMask, x: number, y: number): number {
+    let skip = 0;
+    for (let r = 0; r < mask.rows; r++) {
+      const base = (y + r) * this.cols;
+      for (const [a, b] of mask.spans[r]) {
+        const last = this.lastOccupied[base + x + b];
+        if (last >= x + a) skip = Math.max(skip, last - (x + a) + 1);
+      }
+    }
+    return skip;
+  }
+}
+
+function nestPack(
+  items: Array<{ id: string; w: number; h: number; outline?: OutlinePoint[] }>,
+  gap: number,
+  usableW: number,
+  usableH: number,
+  abW: number,
+  abH: number,
+  options: NestingOptions,
+  fixedRects?: FixedRect[],
+): { result: PlacedItem[]; maxHeight: number; wastedArea: number } {
+  const res = options.resolution ?? Math.max(0.04, usableW / 400);
+  const grid = new NestGrid(Math.max(1, Math.floor(usableW / res)), Math.max(1, Math.floor(usableH / res)));
+  // One extra cell absorbs rasterization error on both shapes.
+  const gapCells = Math.ceil(gap / res) + 1;
+  const step = Math.max(1, Math.min(360, options.rotationStep));
+  const angles: number[] = [];
+  for (let a = 0; a < 360 - 0.001; a += step) angles.push(a);
+
+  if (fixedRects) {
+    for (const fr of fixedRects) {
+      grid.stampRect(
+        Math.floor((fr.x - gap) / res), Math.floor((fr.y - gap) / res),
+        Math.ceil((fr.x + fr.w + gap) / res), Math.ceil((fr.y + fr.h + gap) / res),
+      );
+    }
+  }
+
+  const result: PlacedItem[] = [];
+  let maxHeight = 0;
+  let totalArea = 0;
+
+  for (const item of items) {
+    const outline = item.outline && item.outline.length >= 3 ? item.outline : rectOutline(item.w, item.h);
+    let best: { mask: NestMask; x: number; y: number; angle: number } | null = null;
+    let bestBottom = Infinity;
+
+    const seen = new Set<string>();
+    for (const angle of angles) {
+      const mask = rasterizeOutline(outline, angle, res);
+      const key = `${mask.cols}x${mask.rows}:${mask.spans.map(r => r.map(s => s.join('-')).join(',')).join('|')}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (mask.cols > grid.cols || mask.rows > grid.rows) continue;
+
+      const lastY = Math.min(grid.rows - mask.rows, bestBottom - mask.rows);
+      for (let y = 0; y <= lastY; y++) {
+        let x = 0;
+        let placedX = -1;
+        while (x + mask.cols <= grid.cols) {
+          const skip = grid.collisionSkip(mask, x, y);
+          if (skip === 0) { placedX = x; break; }
+          x += skip;
+        }
+        if (placedX >= 0) {
+          const bottom = y + mask.rows;
+          if (bottom < bestBottom || (bottom === bestBottom && best && placedX < best.x)) {
+            best = { mask, x: placedX, y, angle };
+            bestBottom = bottom;
+          }
+          break;
+        }
+      }
+    }
+
+    if (best) {
+      grid.stamp(best.mask, best.x, best.y, gapCells);
+      const cx = best.x * res + best.mask.centerX;
+      const cy = best.y * res + best.mask.centerY;
+      maxHeight = Math.max(maxHeight, (best.y + best.mask.rows) * res);
+      totalArea += best.mask.area;
+      result.push({ id: item.id, nx: cx / abW, ny: cy / abH, rotation: best.angle, overflows: false });
+    } else {
+      const { nx, ny } = toNxNy(item.w / 2, maxHeight + item.h / 2, item.w, item.h, abW, abH);
+      result.push({ id: item.id, nx, ny, rotation: 0, overflows: true });
+      maxHeight += item.h + gap;
+    }
+  }
+
+  return { result, maxHeight, wastedArea: Math.max(0, usableW * maxHeight - totalArea) };
+}
+
+// Bounding box of an outline rotated about the item center. cx/cy is the box center
+// relative to the item center, which is non-zero for lopsided artwork.
+function rotatedBounds(outline: OutlinePoint[], angleDeg: number): { w: number; h: number; cx: number; cy: number } {
+  const rad = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(rad), sin = Math.sin(rad);
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of outline) {
+    const x = p.x * cos - p.y * sin;
+    const y = p.x * sin + p.y * cos;
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  return { w: maxX - minX, h: maxY - minY, cx: (minX + maxX) / 2, cy: (minY + maxY) / 2 };
+}
+
 function runArrange(input: ArrangeInput) {
-  const { items, usableW, usableH, artboardWidth, artboardHeight, isAggressive, customGap, fixedRects } = input;
+  const { items, usableW, usableH, artboardWidth, artboardHeight, isAggressive, customGap, fixedRects, nesting, rotationAngles } = input;
   const hasCustomGap = customGap !== undefined && customGap >= 0;
   const GAP = hasCustomGap ? customGap : 0.25;
 
@@ -466,6 +729,57 @@ function runArrange(input: ArrangeInput) {
       return { id: d.id, w, h, rotation: rot, gap: g };
     });
 
+  // Angled mode: each item takes the angle whose rotated outline box is smallest, then
+  // packers place that box. Box centers are shifted back to design centers afterwards.
+  const angleSet = (rotationAngles ?? []).map(a => ((a % 180) + 180) % 180).filter(a => a > 0.01 && Math.abs(a - 90) > 0.01);
+  const bestAngles = new Map<string, { angle: number; w: number; h: number }>();
+  if (angleSet.length > 0) {
+    for (const d of items) {
+      if (!d.outline || d.outline.length < 3) continue;
+      const upright = rotatedBounds(d.outline, 0);
+      let best = { angle: 0, w: upright.w, h: upright.h };
+      for (const angle of angleSet) {
+        const b = rotatedBounds(d.outline, angle);
+        if (b.w * b.h < best.w * best.h - 0.01) best = { angle, w: b.w, h: b.h };
+      }
+      if (best.angle !== 0) bestAngles.set(d.id, best);
+    }
+  }
+
+  const makeAngledItems = (order: typeof items, orient: 'normal' | 'landscape' | 'portrait', gapOverride?: number): PackItem[] =>
+    order.map(d => {
+      const g = gapOverride !== undefined ? gapOverride : getItemGap(d.fill);
+      const best = bestAngles.get(d.id);
+      let w = best ? best.w : d.w, h = best ? best.h : d.h, rot = best ? best.angle : 0;
+      if ((orient === 'landscape' && h > w) || (orient === 'portrait' && w > h)) { const tmp = w; w = h; h = tmp; rot += 90; }
+      return { id: d.id, w, h, rotation: rot, gap: g };
+    });
+
+  const recenterAngled = (pack: { result: PlacedItem[]; maxHeight: number; wastedArea: number }) => {
+    for (const p of pack.result) {
+      const d = bestAngles.has(p.id) ? items.find(it => it.id === p.id) : undefined;
+      if (!d?.outline) continue;
+      const b = rotatedBounds(d.outline, p.rotation);
+      p.nx -= b.cx / artboardWidth;
+      p.ny -= b.cy / artboardHeight;
+    }
+    return pack;
+  };
+
+  const runAngledCandidates = (gapOverride?: number): Candidate[] => {
+    const cands: Candidate[] = [];
+    const g = gapOverride !== undefined ? gapOverride : GAP;
+    const obstacles = fixedRects && fixedRects.length > 0 ? fixedRects : undefined;
+    for (const order of sortOrders) {
+      for (const orient of ['normal', 'landscape', 'portrait'] as const) {
+        const pi = makeAngledItems(order, orient, gapOverride);
+        cands.push(evaluate(recenterAngled(maxRectsPack(pi, usableW, usableH, artboardWidth, artboardHeight, 'bssf', obstacles, g))));
+        if (!obstacles) cands.push(evaluate(recenterAngled(skylinePack(pi, usableW, usableH, artboardWidth, artboardHeight))));
+      }
+    }
+    return cands;
+  };
+
   const totalItemArea = items.reduce((sum, d) => sum + d.w * d.h, 0);
 
   const byWidth = [...items].sort((a, b) => b.w - a.w || b.h - a.h);
@@ -537,6 +851,16 @@ function runArrange(input: ArrangeInput) {
           ...runCandidates(0.0625),
         ]);
 
+  if (bestAngles.size > 0) {
+    candidates.push(...runAngledCandidates());
+  }
+
+  if (nesting) {
+    for (const order of [byArea, byLongestSide, byHeight]) {
+      candidates.push(evaluate(nestPack(order, GAP, usableW, usableH, artboardWidth, artboardHeight, nesting, fixedRects)));
+    }
+  }
+
   candidates.sort((a, b) => {
     if (a.overflows !== b.overflows) return a.overflows - b.overflows;
     const aFits = a.maxHeight <= usableH ? 0 : 1;
@@ -552,10 +876,63 @@ function runArrange(input: ArrangeInput) {
   return candidates[0];
 }
 
+// Binary-searches the standard heights (ascending) for the shortest sheet that holds
+// every item; `atTallest` is the already-computed run at the last height.
+function fitShortestHeight(input: ArrangeInput, sorted: number[], atTallest: Candidate) {
+  let best = atTallest;
+  let bestHeight = sorted[sorted.length - 1];
+  let lo = 0, hi = sorted.length - 2;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const cand = runArrange({ ...input, usableH: sorted[mid], artboardHeight: sorted[mid] });
+    if (cand.overflows === 0) {
+      best = cand;
+      bestHeight = sorted[mid];
+      hi = mid - 1;
+    } else {
+      lo = mid + 1;
+    }
+  }
+  return { ...best, artboardHeight: bestHeight };
+}
+
+// Distributes items over as few sheets as possible: full sheets at the tallest height, then
+// the leftovers on the shortest height that fits them, which keeps total film length down.
+function runArrangeSheets(input: ArrangeInput, heights: number[]) {
+  const sorted = Array.from(new Set(heights.filter(h => h > 0))).sort((a, b) => a - b);
+  const tallest = sorted[sorted.length - 1];
+  const sheets: Array<Candidate & { artboardHeight: number }> = [];
+  let remaining = input.items;
+
+  while (remaining.length > 0) {
+    const atTallest = runArrange({ ...input, items: remaining, usableH: tallest, artboardHeight: tallest });
+    if (atTallest.overflows === 0) {
+      sheets.push(fitShortestHeight({ ...input, items: remaining }, sorted, atTallest));
+      break;
+    }
+    const placed = new Set(atTallest.result.filter(r => !r.overflows).map(r => r.id));
+    // Items larger than the tallest sheet can never be placed; leave them overflowing.
+    if (placed.size === 0) {
+      sheets.push({ ...atTallest, artboardHeight: tallest });
+      break;
+    }
+    const result = atTallest.result.filter(r => !r.overflows);
+    sheets.push({ ...atTallest, result, overflows: 0, artboardHeight: tallest });
+    remaining = remaining.filter(d => !placed.has(d.id));
+  }
+  return sheets;
+}
+
 self.onmessage = function(e: MessageEvent) {
   try {
     if (e.data.type === 'arrange') {
-      const result = runArrange(e.data);
+      const input: ArrangeInput = e.data;
+      if (input.candidateHeights && input.candidateHeights.length > 0) {
+        const sheets = runArrangeSheets(input, input.candidateHeights);
+        self.postMessage({ type: 'result', requestId: input.requestId, ...sheets[0], sheets });
+        return;
+      }
+      const result = runArrange(input);
       self.postMessage({ type: 'result', requestId: e.data.requestId, ...result });
     }
   } catch (err) {
@@ -1,4 +1,4 @@
-import { ShapeSettings } from "@/components/image-editor";
+import type { ShapeSettings } from "@/lib/cutline-types";
 
 export interface CadCutBounds {
   isWithinBounds: boolean;
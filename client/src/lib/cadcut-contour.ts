@@ -1,4 +1,4 @@
-import { StrokeSettings } from "@/components/image-editor";
+import type { StrokeSettings } from "@/lib/cutline-types";
 
 export function createCadCutContour(
   image: HTMLImageElement,
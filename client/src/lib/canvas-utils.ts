@@ -1,4 +1,4 @@
-import { StrokeSettings } from "@/components/image-editor";
+import type { StrokeSettings } from "@/lib/cutline-types";
 
 function hexToRgb(hex: string): { r: number; g: number; b: number } {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
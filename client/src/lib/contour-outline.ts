@@ -1,4 +1,5 @@
-import type { StrokeSettings, ResizeSettings } from "@/lib/types";
+import type { ResizeSettings } from "@/lib/types";
+import type { StrokeSettings } from "@/lib/cutline-types";
 import { PDFDocument, PDFName, PDFArray, PDFDict } from 'pdf-lib';
 import { removeLoopsWithClipper, ensureClockwise, detectSelfIntersections, gaussianSmoothContour, subsamplePolygon } from "@/lib/clipper-path";
 import { getContourWorkerManager } from "@/lib/contour-worker-manager";
@@ -0,0 +1,44 @@
+import type { ContourMode } from "./contour-worker-manager";
+import type { CornerMode } from "./minkowski-offset";
+import type { ResizeSettings } from "./types";
+
+export interface StrokeSettings {
+  // Offset from the artwork edge, in inches.
+  width: number;
+  color: string;
+  enabled: boolean;
+  alphaThreshold: number;
+  backgroundColor: string;
+  useCustomBackground: boolean;
+  autoBridging: boolean;
+  // Gaps narrower than this (inches) are bridged into one outline.
+  autoBridgingThreshold: number;
+  contourMode?: ContourMode;
+  cornerMode?: CornerMode;
+}
+
+export type ShapeType = 'circle' | 'oval' | 'square' | 'rectangle' | 'rounded-square' | 'rounded-rectangle';
+
+export interface ShapeSettings {
+  enabled: boolean;
+  type: ShapeType;
+  widthInches: number;
+  heightInches: number;
+  offset: number;
+  offsetX: number;
+  offsetY: number;
+  cornerRadius: number;
+  fillColor: string;
+  strokeEnabled: boolean;
+  strokeWidth: number;
+  strokeColor: string;
+}
+
+export type CutlineAlgorithm = 'ctcontour' | 'true-contour' | 'minkowski' | 'silhouette';
+
+export interface CutlineGeneratorSettings {
+  algorithm: CutlineAlgorithm;
+  stroke: StrokeSettings;
+  // Physical size of the image; generators that need a DPI assume 300 when omitted.
+  resizeSettings?: ResizeSettings;
+}
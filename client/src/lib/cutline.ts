@@ -0,0 +1,118 @@
+import { createCTContour } from "./ctcontour";
+import { createTrueContour } from "./true-contour";
+import { createSilhouetteContour } from "./contour-outline";
+import { createMinkowskiContour, traceBoundary, type Point } from "./minkowski-offset";
+import type { CutlineGeneratorSettings, StrokeSettings } from "./cutline-types";
+
+const DEFAULT_DPI = 300;
+
+// Solid pixels that touch the background surrounding the artwork. Transparent areas enclosed by the
+// artwork (holes) can't be reached from the canvas border, so their edges are left out.
+function outerEdgePixels(data: Uint8ClampedArray, width: number, height: number, threshold: number): Point[] {
+  const solid = (i: number) => data[i * 4 + 3] >= threshold;
+  const outside = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let top = 0;
+  const visit = (i: number) => {
+    if (outside[i] || solid(i)) return;
+    outside[i] = 1;
+    stack[top++] = i;
+  };
+  for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+  for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+  while (top > 0) {
+    const i = stack[--top];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+
+  const open = (x: number, y: number) => x < 0 || x >= width || y < 0 || y >= height || outside[y * width + x] === 1;
+  const edgePixels: Point[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!solid(y * width + x)) continue;
+      if (open(x - 1, y) || open(x + 1, y) || open(x, y - 1) || open(x, y + 1)) edgePixels.push({ x, y });
+    }
+  }
+  return edgePixels;
+}
+
+function createMinkowskiCutline(image: HTMLImageElement, strokeSettings: StrokeSettings, dpi: number): HTMLCanvasElement {
+  const offsetPx = Math.max(0, Math.round(strokeSettings.width * dpi));
+  const pad = offsetPx + 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width + pad * 2;
+  canvas.height = image.height + pad * 2;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return canvas;
+
+  ctx.drawImage(image, pad, pad);
+  if (!strokeSettings.enabled) return canvas;
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const edgePixels = outerEdgePixels(data, width, height, strokeSettings.alphaThreshold);
+
+  const contour = createMinkowskiContour(edgePixels, offsetPx, strokeSettings.cornerMode ?? 'rounded');
+  if (contour.length < 3) return canvas;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = strokeSettings.color;
+  ctx.beginPath();
+  ctx.moveTo(contour[0].x, contour[0].y);
+  for (let i = 1; i < contour.length; i++) ctx.lineTo(contour[i].x, contour[i].y);
+  ctx.closePath();
+  ctx.fill();
+  ctx.drawImage(image, pad, pad);
+  return canvas;
+}
+
+/**
+ * Single entry point for the canvas-based cutline generators, so callers pick
+ * an algorithm instead of importing each implementation directly.
+ */
+export function createCutline(image: HTMLImageElement, settings: CutlineGeneratorSettings): HTMLCanvasElement {
+  const { stroke, resizeSettings } = settings;
+  const dpi = resizeSettings && resizeSettings.widthInches > 0
+    ? image.width / resizeSettings.widthInches
+    : DEFAULT_DPI;
+
+  switch (settings.algorithm) {
+    case 'ctcontour':
+      return createCTContour(image, {
+        strokeSettings: stroke,
+        precision: 1.0,
+        threshold: stroke.alphaThreshold,
+        simplification: 2.0,
+      });
+    case 'true-contour':
+      return createTrueContour(image, {
+        strokeSettings: stroke,
+        threshold: stroke.alphaThreshold,
+        smoothing: 1,
+        includeHoles: false,
+        holeMargin: 0,
+        fillHoles: true,
+        autoTextBackground: false,
+      });
+    case 'minkowski':
+      return createMinkowskiCutline(image, stroke, dpi);
+    case 'silhouette':
+    default:
+      return createSilhouetteContour(image, stroke, resizeSettings);
+  }
+}
+
+/**
+ * Outermost outline of a canvas produced by createCutline, in canvas pixels (the artwork sits
+ * centred in it). Null when nothing solid was drawn.
+ */
+export function traceCutlineCanvas(canvas: HTMLCanvasElement, threshold: number): Point[] | null {
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const outline = traceBoundary(outerEdgePixels(data, canvas.width, canvas.height, threshold));
+  return outline.length >= 3 ? outline : null;
+}
@@ -0,0 +1,176 @@
+// Helpers for building one zlib stream out of raw-deflate segments compressed independently
+// (one per strip, in parallel workers), the way pigz splices its blocks.
+
+const ADLER_BASE = 65521;
+// Largest run of bytes whose sums can't overflow before the modulo is taken.
+const ADLER_NMAX = 5552;
+
+export function adler32(data: Uint8Array, adler = 1): number {
+  let a = adler & 0xFFFF;
+  let b = adler >>> 16;
+  for (let i = 0; i < data.length;) {
+    const end = Math.min(i + ADLER_NMAX, data.length);
+    for (; i < end; i++) {
+      a += data[i];
+      b += a;
+    }
+    a %= ADLER_BASE;
+    b %= ADLER_BASE;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+// Adler-32 of A followed by B, from the checksums of each and the length of B (zlib's adler32_combine).
+export function adler32Combine(adlerA: number, adlerB: number, lengthB: number): number {
+  const rem = lengthB % ADLER_BASE;
+  let sum1 = adlerA & 0xFFFF;
+  let sum2 = (rem * sum1) % ADLER_BASE;
+  sum1 += (adlerB & 0xFFFF) + ADLER_BASE - 1;
+  sum2 += (adlerA >>> 16) + (adlerB >>> 16) + ADLER_BASE - rem;
+  if (sum1 >= ADLER_BASE) sum1 -= ADLER_BASE;
+  if (sum1 >= ADLER_BASE) sum1 -= ADLER_BASE;
+  if (sum2 >= ADLER_BASE * 2) sum2 -= ADLER_BASE * 2;
+  if (sum2 >= ADLER_BASE) sum2 -= ADLER_BASE;
+  return ((sum2 << 16) | sum1) >>> 0;
+}
+
+const LENGTH_EXTRA_BITS = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_EXTRA_BITS = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface HuffmanTable {
+  // Indexed by the next `bits` bits of input; each entry is symbol << 4 | code length (0 = invalid code).
+  entries: Uint32Array;
+  bits: number;
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  let maxLen = 0;
+  const count = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    count[lengths[i]]++;
+    if (lengths[i] > maxLen) maxLen = lengths[i];
+  }
+  count[0] = 0;
+  const nextCode = new Uint16Array(16);
+  for (let len = 1, code = 0; len < 16; len++) {
+    code = (code + count[len - 1]) << 1;
+    nextCode[len] = code;
+  }
+  const bits = Math.max(1, maxLen);
+  const entries = new Uint32Array(1 << bits);
+  for (let sym = 0; sym < lengths.length; sym++) {
+    const len = lengths[sym];
+    if (!len) continue;
+    // Deflate stores Huffman codes most-significant bit first inside an LSB-first stream.
+    let code = nextCode[len]++;
+    let reversed = 0;
+    for (let i = 0; i < len; i++) { reversed = (reversed << 1) | (code & 1); code >>= 1; }
+    for (let i = reversed; i < entries.length; i += 1 << len) entries[i] = (sym << 4) | len;
+  }
+  return { entries, bits };
+}
+
+let fixedTables: { lit: HuffmanTable; dist: HuffmanTable } | null = null;
+
+function getFixedTables() {
+  if (!fixedTables) {
+    const lit = new Uint8Array(288);
+    lit.fill(8, 0, 144);
+    lit.fill(9, 144, 256);
+    lit.fill(7, 256, 280);
+    lit.fill(8, 280, 288);
+    fixedTables = { lit: buildHuffmanTable(lit), dist: buildHuffmanTable(new Uint8Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+/**
+ * Walks the block headers of a raw deflate stream (decoding symbols only to skip them) and
+ * returns where the final block starts and where it ends, both in bits.
+ */
+function locateFinalBlock(data: Uint8Array): { headerBit: number; endBit: number } {
+  let pos = 0;
+  const totalBits = data.length * 8;
+  // Bytes past the end read as undefined, which bitwise ops treat as 0.
+  const peek = (n: number) => {
+    const i = pos >>> 3;
+    const word = (data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24)) >>> (pos & 7);
+    return word & ((1 << n) - 1);
+  };
+  const read = (n: number) => { const v = peek(n); pos += n; return v; };
+  const decode = (table: HuffmanTable) => {
+    const entry = table.entries[peek(table.bits)];
+    if (!(entry & 15)) throw new Error('Invalid deflate data');
+    pos += entry & 15;
+    return entry >>> 4;
+  };
+
+  for (;;) {
+    if (pos + 3 > totalBits) throw new Error('Deflate stream ended without a final block');
+    const headerBit = pos;
+    const isFinal = read(1);
+    const type = read(2);
+    if (type === 0) {
+      pos = (pos + 7) & ~7;
+      const len = read(16);
+      pos += 16 + len * 8;
+    } else if (type === 1 || type === 2) {
+      let lit: HuffmanTable, dist: HuffmanTable;
+      if (type === 1) {
+        ({ lit, dist } = getFixedTables());
+      } else {
+        const hlit = read(5) + 257;
+        const hdist = read(5) + 1;
+        const hclen = read(4) + 4;
+        const clLengths = new Uint8Array(19);
+        for (let i = 0; i < hclen; i++) clLengths[CODE_LENGTH_ORDER[i]] = read(3);
+        const clTable = buildHuffmanTable(clLengths);
+        const lengths = new Uint8Array(hlit + hdist);
+        for (let i = 0; i < lengths.length;) {
+          const sym = decode(clTable);
+          if (sym < 16) { lengths[i++] = sym; continue; }
+          let repeat: number, value = 0;
+          if (sym === 16) { repeat = 3 + read(2); value = lengths[i - 1]; }
+          else if (sym === 17) repeat = 3 + read(3);
+          else repeat = 11 + read(7);
+          lengths.fill(value, i, i + repeat);
+          i += repeat;
+        }
+        lit = buildHuffmanTable(lengths.subarray(0, hlit));
+        dist = buildHuffmanTable(lengths.subarray(hlit));
+      }
+      for (;;) {
+        if (pos > totalBits) throw new Error('Truncated deflate data');
+        const sym = decode(lit);
+        if (sym < 256) continue;
+        if (sym === 256) break;
+        pos += LENGTH_EXTRA_BITS[sym - 257];
+        const distSym = decode(dist);
+        pos += DIST_EXTRA_BITS[distSym];
+      }
+    } else {
+      throw new Error('Invalid deflate block type');
+    }
+    if (pos > totalBits) throw new Error('Truncated deflate data');
+    if (isFinal) return { headerBit, endBit: pos };
+  }
+}
+
+/**
+ * Turns a complete raw deflate stream into a segment another segment can follow: the final
+ * block is made non-final and an empty stored block pads the stream to a byte boundary
+ * (the same output zlib's Z_SYNC_FLUSH produces).
+ */
+export function toSyncFlushedSegment(data: Uint8Array): Uint8Array {
+  const { headerBit, endBit } = locateFinalBlock(data);
+  // The stored block's 3 header bits (non-final, type 00) are zeros, then padding to the next byte.
+  const alignedEnd = (endBit + 3 + 7) >>> 3;
+  const out = new Uint8Array(alignedEnd + 4);
+  out.set(data.subarray(0, Math.min(data.length, alignedEnd)));
+  out[headerBit >>> 3] &= ~(1 << (headerBit & 7));
+  if (endBit & 7) out[endBit >>> 3] &= (1 << (endBit & 7)) - 1;
+  for (let i = (endBit + 7) >>> 3; i < alignedEnd; i++) out[i] = 0;
+  out.set([0x00, 0x00, 0xFF, 0xFF], alignedEnd);
+  return out;
+}
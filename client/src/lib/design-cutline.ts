@@ -0,0 +1,190 @@
+import { processContourInWorker, type ContourMode } from "./contour-worker-manager";
+import { simplifyPathForPDF } from "./contour-outline";
+import { createCutline, traceCutlineCanvas } from "./cutline";
+import type { CutlineAlgorithm, CutlineGeneratorSettings, StrokeSettings } from "./cutline-types";
+import type { CutlinePath, CutlineSettings, DesignItem, ImageTransform, ResizeSettings } from "./types";
+
+export const CUTLINE_OFFSETS = [0.03125, 0.0625, 0.125, 0.25];
+
+export const DEFAULT_CUTLINE: CutlineSettings = {
+  enabled: true,
+  offsetInches: 0.0625,
+  mode: 'smooth',
+};
+
+export const CUTLINE_COLOR = '#ff00ff';
+
+// Tolerance (inches) used to thin traced outlines before they are sent to the nesting worker.
+const OUTLINE_SIMPLIFY_TOLERANCE = 0.02;
+
+const MAX_CACHED_CUTLINES = 200;
+const cutlineCache = new Map<string, CutlinePath>();
+
+// The contour worker only keeps one pending request, so per-design traces are chained.
+let traceQueue: Promise<unknown> = Promise.resolve();
+
+export function cutlineKey(design: DesignItem): string | null {
+  if (!design.cutline?.enabled) return null;
+  const w = design.widthInches * design.transform.s;
+  const h = design.heightInches * design.transform.s;
+  return `${design.imageInfo.image.src}|${w.toFixed(2)}|${h.toFixed(2)}|${design.cutline.offsetInches}|${design.cutline.mode}|${design.cutline.algorithm ?? ''}`;
+}
+
+export function getCachedCutline(design: DesignItem): CutlinePath | null {
+  const key = cutlineKey(design);
+  return key ? cutlineCache.get(key) ?? null : null;
+}
+
+function rememberCutline(key: string, path: CutlinePath) {
+  if (cutlineCache.size >= MAX_CACHED_CUTLINES) {
+    const oldest = cutlineCache.keys().next().value;
+    if (oldest !== undefined) cutlineCache.delete(oldest);
+  }
+  cutlineCache.set(key, path);
+}
+
+function outlineKey(design: DesignItem): string {
+  const w = design.widthInches * design.transform.s;
+  const h = design.heightInches * design.transform.s;
+  return `${design.imageInfo.image.src}|${w.toFixed(2)}|${h.toFixed(2)}|outline`;
+}
+
+// The canvas generators run on the main thread; their drawn outline is traced back into a path.
+function traceWithGenerator(design: DesignItem, key: string, settings: CutlineGeneratorSettings): CutlinePath | null {
+  const image = design.imageInfo.image;
+  if (!image.width || !image.height || !settings.resizeSettings) return null;
+  const canvas = createCutline(image, settings);
+  const outline = traceCutlineCanvas(canvas, settings.stroke.alphaThreshold);
+  if (!outline) return null;
+
+  const { widthInches: w, heightInches: h } = settings.resizeSettings;
+  const sx = w / image.width;
+  const sy = h / image.height;
+  const path: CutlinePath = {
+    points: outline.map(p => ({ x: (p.x - canvas.width / 2) * sx, y: (p.y - canvas.height / 2) * sy })),
+    widthInches: w,
+    heightInches: h,
+  };
+  rememberCutline(key, path);
+  return path;
+}
+
+async function traceCutline(design: DesignItem, key: string, offsetInches: number, mode: ContourMode, algorithm?: CutlineAlgorithm): Promise<CutlinePath | null> {
+  const cached = cutlineCache.get(key);
+  if (cached) return cached;
+
+  const w = design.widthInches * design.transform.s;
+  const h = design.heightInches * design.transform.s;
+  const stroke: StrokeSettings = {
+    width: offsetInches,
+    color: CUTLINE_COLOR,
+    enabled: true,
+    alphaThreshold: 10,
+    backgroundColor: '#ffffff',
+    useCustomBackground: false,
+    autoBridging: true,
+    autoBridgingThreshold: 0.02,
+    contourMode: mode,
+  };
+  const resizeSettings: ResizeSettings = { widthInches: w, heightInches: h, maintainAspectRatio: true, outputDPI: 300 };
+  if (algorithm) return traceWithGenerator(design, key, { algorithm, stroke, resizeSettings });
+
+  const result = await processContourInWorker(design.imageInfo.image, stroke, resizeSettings);
+
+  const data = result.contourData;
+  if (!data || data.pathPoints.length < 3) return null;
+
+  // Worker paths are Y-up page inches anchored at the contour's bounding box; re-centre them on the design.
+  const path: CutlinePath = {
+    points: data.pathPoints.map(p => ({
+      x: p.x - data.imageOffsetX - w / 2,
+      y: (data.heightInches - p.y) - data.imageOffsetY - h / 2,
+    })),
+    widthInches: w,
+    heightInches: h,
+  };
+  rememberCutline(key, path);
+  return path;
+}
+
+function enqueueTrace(run: () => Promise<CutlinePath | null>): Promise<CutlinePath | null> {
+  const next = traceQueue.then(run, run);
+  traceQueue = next.catch(() => null);
+  return next;
+}
+
+export function computeDesignCutline(design: DesignItem): Promise<CutlinePath | null> {
+  const key = cutlineKey(design);
+  if (!key) return Promise.resolve(null);
+  const cached = cutlineCache.get(key);
+  if (cached) return Promise.resolve(cached);
+
+  const { offsetInches, mode, algorithm } = design.cutline!;
+  return enqueueTrace(() => traceCutline(design, key, offsetInches, mode, algorithm));
+}
+
+// Bare artwork silhouette (no offset), simplified for shape nesting; independent of the cutline setting.
+export function computeDesignOutline(design: DesignItem): Promise<CutlinePath | null> {
+  const key = outlineKey(design);
+  const cached = cutlineCache.get(key);
+  if (cached) return Promise.resolve(cached);
+
+  return enqueueTrace(async () => {
+    const traced = await traceCutline(design, `${key}|raw`, 0, 'smooth');
+    if (!traced) return null;
+    const path = simplifyOutline(traced);
+    rememberCutline(key, path);
+    return path;
+  });
+}
+
+export function simplifyOutline(path: CutlinePath): CutlinePath {
+  return { ...path, points: simplifyPathForPDF(path.points, OUTLINE_SIMPLIFY_TOLERANCE) };
+}
+
+// Stretches a path traced at one size onto the design's current size (used while a resize is still being re-traced).
+export function scaleCutlineToDesign(path: CutlinePath, widthInches: number, heightInches: number): CutlinePath {
+  if (Math.abs(path.widthInches - widthInches) < 1e-4 && Math.abs(path.heightInches - heightInches) < 1e-4) return path;
+  const sx = widthInches / path.widthInches;
+  const sy = heightInches / path.heightInches;
+  return {
+    points: path.points.map(p => ({ x: p.x * sx, y: p.y * sy })),
+    widthInches,
+    heightInches,
+  };
+}
+
+export function cutlineHalfExtents(path: CutlinePath): { hw: number; hh: number } {
+  let hw = path.widthInches / 2;
+  let hh = path.heightInches / 2;
+  for (const p of path.points) {
+    if (Math.abs(p.x) > hw) hw = Math.abs(p.x);
+    if (Math.abs(p.y) > hh) hh = Math.abs(p.y);
+  }
+  return { hw, hh };
+}
+
+// Places a design's cutline on the artboard: flip, rotate about the design center, then translate (inches, +y down).
+export function cutlineToArtboard(
+  path: CutlinePath,
+  transform: ImageTransform,
+  widthInches: number,
+  heightInches: number,
+  artboardWidth: number,
+  artboardHeight: number,
+): Array<{ x: number; y: number }> {
+  const w = widthInches * transform.s;
+  const h = heightInches * transform.s;
+  const cx = transform.nx * artboardWidth;
+  const cy = transform.ny * artboardHeight;
+  const rad = ((transform.rotation ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const fx = transform.flipX ? -1 : 1;
+  const fy = transform.flipY ? -1 : 1;
+  return scaleCutlineToDesign(path, w, h).points.map(p => {
+    const x = p.x * fx;
+    const y = p.y * fy;
+    return { x: cx + x * cos - y * sin, y: cy + x * sin + y * cos };
+  });
+}
@@ -0,0 +1,167 @@
+// Persistent design groups. A design's `groups` lists the groups it belongs to, outermost first;
+// the outermost group is what selection, arranging and the layers panel treat as one unit.
+import type { DesignItem } from './types';
+import { rotatedBounds, type GuideBox } from './smart-guides';
+
+export function outerGroup(design: DesignItem): string | undefined {
+  return design.groups?.[0];
+}
+
+/** `ids` plus every other design in the outermost groups they belong to. */
+export function expandToGroups(ids: Iterable<string>, designs: DesignItem[]): Set<string> {
+  const result = new Set(ids);
+  const groups = new Set(designs.filter(d => result.has(d.id)).map(outerGroup).filter((g): g is string => !!g));
+  if (groups.size === 0) return result;
+  for (const d of designs) {
+    const g = outerGroup(d);
+    if (g && groups.has(g)) result.add(d.id);
+  }
+  return result;
+}
+
+/** "Group N" numbers in order of first appearance, so labels stay stable while designs move. */
+export function groupNumbers(designs: DesignItem[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  for (const d of designs) {
+    for (const g of d.groups ?? []) if (!numbers.has(g)) numbers.set(g, numbers.size + 1);
+  }
+  return numbers;
+}
+
+// Groups left with a single design (e.g. after deleting the rest) no longer group anything.
+function dissolveSingletonGroups(designs: DesignItem[]): DesignItem[] | null {
+  const counts = new Map<string, number>();
+  for (const d of designs) for (const g of d.groups ?? []) counts.set(g, (counts.get(g) ?? 0) + 1);
+  if (!Array.from(counts.values()).some(n => n < 2)) return null;
+  return designs.map(d => {
+    if (!d.groups) return d;
+    const groups = d.groups.filter(g => (counts.get(g) ?? 0) >= 2);
+    return { ...d, groups: groups.length > 0 ? groups : undefined };
+  });
+}
+
+// Copies get their own groups: the same structure under fresh ids, shared only within the batch.
+// A group only partly copied (locked or hidden members aren't selected) keeps just the copied members.
+export function withFreshGroupIds(designs: DesignItem[]): DesignItem[] {
+  const fresh = new Map<string, string>();
+  const renamed = (g: string) => {
+    let id = fresh.get(g);
+    if (!id) { id = crypto.randomUUID(); fresh.set(g, id); }
+    return id;
+  };
+  const copies = designs.map(d => d.groups ? { ...d, groups: d.groups.map(renamed) } : d);
+  return dissolveSingletonGroups(copies) ?? copies;
+}
+
+/** `designs` without `ids`, dissolving any group the removal leaves with a single design. */
+export function removeDesigns(designs: DesignItem[], ids: Set<string>): DesignItem[] {
+  const remaining = designs.filter(d => !ids.has(d.id));
+  return dissolveSingletonGroups(remaining) ?? remaining;
+}
+
+export type LayerNode =
+  | { kind: 'design'; design: DesignItem }
+  | { kind: 'group'; id: string; children: LayerNode[]; designIds: string[] };
+
+/** Nests designs under their groups, each group where its first member is in the list. */
+export function buildLayerTree(designs: DesignItem[], depth = 0): LayerNode[] {
+  const nodes: LayerNode[] = [];
+  const seen = new Set<string>();
+  for (const d of designs) {
+    const g = d.groups?.[depth];
+    if (!g) { nodes.push({ kind: 'design', design: d }); continue; }
+    if (seen.has(g)) continue;
+    seen.add(g);
+    const members = designs.filter(m => m.groups?.[depth] === g);
+    nodes.push({ kind: 'group', id: g, children: buildLayerTree(members, depth + 1), designIds: members.map(m => m.id) });
+  }
+  return nodes;
+}
+
+/** Bounds (inches) of each outermost group on the artboard, from its designs' rotated footprints. */
+export function groupBounds(
+  designs: DesignItem[],
+  footprint: (d: DesignItem) => { w: number; h: number },
+  artboardWidth: number,
+  sheetHeight: (d: DesignItem) => number,
+): Map<string, GuideBox> {
+  const bounds = new Map<string, GuideBox>();
+  for (const d of designs) {
+    const g = outerGroup(d);
+    if (!g) continue;
+    const { w, h } = footprint(d);
+    const box = rotatedBounds(d.transform.nx * artboardWidth, d.transform.ny * sheetHeight(d), w, h, d.transform.rotation);
+    const cur = bounds.get(g);
+    bounds.set(g, cur
+      ? { left: Math.min(cur.left, box.left), top: Math.min(cur.top, box.top), right: Math.max(cur.right, box.right), bottom: Math.max(cur.bottom, box.bottom) }
+      : box);
+  }
+  return bounds;
+}
+
+// One packing item for the arrange worker: a lone design, or a whole group as a rigid box.
+export interface ArrangeUnit {
+  id: string;
+  w: number;
+  h: number;
+  // Set for groups: each design's offset (inches) from the box center, in the group's current orientation.
+  members?: Array<{ design: DesignItem; dx: number; dy: number }>;
+  design?: DesignItem;
+}
+
+export function buildArrangeUnits(
+  designs: DesignItem[],
+  footprint: (d: DesignItem) => { w: number; h: number },
+  artboardWidth: number,
+  sheetHeight: (d: DesignItem) => number,
+): ArrangeUnit[] {
+  const bounds = groupBounds(designs, footprint, artboardWidth, sheetHeight);
+  const units: ArrangeUnit[] = [];
+  const byGroup = new Map<string, ArrangeUnit>();
+  for (const d of designs) {
+    const g = outerGroup(d);
+    const box = g ? bounds.get(g) : undefined;
+    if (!g || !box) { units.push({ id: d.id, ...footprint(d), design: d }); continue; }
+    let unit = byGroup.get(g);
+    if (!unit) {
+      unit = { id: g, w: box.right - box.left, h: box.bottom - box.top, members: [] };
+      byGroup.set(g, unit);
+      units.push(unit);
+    }
+    unit.members!.push({
+      design: d,
+      dx: d.transform.nx * artboardWidth - (box.left + box.right) / 2,
+      dy: d.transform.ny * sheetHeight(d) - (box.top + box.bottom) / 2,
+    });
+  }
+  return units;
+}
+
+/**
+ * Turns arrange placements (one per unit) into per-design placements. A lone design takes the
+ * placed rotation; a group is turned by it as a whole, so its designs keep their relative layout.
+ */
+export function expandUnitPlacements<P extends { id: string; nx: number; ny: number; rotation: number }>(
+  units: ArrangeUnit[],
+  placements: P[],
+  artboardWidth: number,
+  sheetHeight: number,
+): P[] {
+  const unitById = new Map(units.map(u => [u.id, u]));
+  return placements.flatMap(p => {
+    const unit = unitById.get(p.id);
+    if (!unit?.members) return [p];
+    const rad = (p.rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const cx = p.nx * artboardWidth;
+    const cy = p.ny * sheetHeight;
+    return unit.members.map(({ design, dx, dy }) => ({
+      ...p,
+      id: design.id,
+      nx: (cx + dx * cos - dy * sin) / artboardWidth,
+      ny: (cy + dx * sin + dy * cos) / sheetHeight,
+      rotation: (((design.transform.rotation + p.rotation) % 360) + 360) % 360,
+    }));
+  });
+}
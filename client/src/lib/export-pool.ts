@@ -0,0 +1,281 @@
+import ExportWorker from './export-worker?worker';
+import type { DesignExportData, ExportInput, StripInput, StripResult, TiffStripInput, TiffStripResult } from './export-worker';
+import { adler32Combine } from './deflate-splice';
+import { makeColorChunks, makePhysChunk, makePngChunk } from './png-chunks';
+import { buildTiff } from './tiff-writer';
+import type { DesignItem, IccProfile } from './types';
+
+// Each strip worker holds a strip canvas plus its pixels and filtered rows, so cap the pool.
+const MAX_EXPORT_WORKERS = 6;
+const MAX_STRIP_ROWS = 4096;
+// Bounds one strip canvas (~64 MB of RGBA) however wide the sheet is.
+const MAX_STRIP_PIXELS = 16_000_000;
+const MAX_IDAT_BYTES = 2 * 1024 * 1024;
+// TIFF strips stay small (~2 MB of RGBA at 24" / 300 DPI) so RIPs can decode them row by row.
+const TIFF_ROWS_PER_STRIP = 64;
+const STRIP_TIMEOUT_MS = 120_000;
+const LEGACY_EXPORT_TIMEOUT_MS = 300_000;
+
+export interface WorkerExportOptions {
+  outW: number;
+  outH: number;
+  exportDpi: number;
+  iccProfile?: IccProfile;
+}
+
+let requestCounter = 0;
+
+class ExportWorkerPool {
+  private workers: Worker[] = [];
+
+  get size(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+    // Leave a core for the page, which also assembles the output.
+    return Math.max(1, Math.min(MAX_EXPORT_WORKERS, cores - 1));
+  }
+
+  // Spawns up to `count` workers; returns fewer (possibly none) if the browser refuses.
+  acquire(count: number): Worker[] {
+    while (this.workers.length < count) {
+      try { this.workers.push(new ExportWorker()); }
+      catch { break; }
+    }
+    return this.workers.slice(0, count);
+  }
+
+  // A worker that crashed or timed out may still be busy, so it is replaced rather than reused.
+  discard(worker: Worker) {
+    worker.terminate();
+    this.workers = this.workers.filter(w => w !== worker);
+  }
+
+  request<T>(worker: Worker, message: StripInput | TiffStripInput | ExportInput, transfer: Transferable[], timeoutMs: number, timeoutMessage: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      const cleanup = () => {
+        worker.removeEventListener('message', handler);
+        worker.removeEventListener('error', errorHandler);
+        clearTimeout(timer);
+      };
+      const handler = (e: MessageEvent) => {
+        if (e.data.requestId !== message.requestId) return;
+        settled = true;
+        cleanup();
+        if (e.data.type === 'error') reject(new Error(e.data.error));
+        else resolve(e.data);
+      };
+      const errorHandler = (ev: ErrorEvent) => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        this.discard(worker);
+        reject(new Error(ev.message || 'Export worker crashed'));
+      };
+      const timer = setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        cleanup();
+        this.discard(worker);
+        reject(new Error(timeoutMessage));
+      }, timeoutMs);
+      worker.addEventListener('message', handler);
+      worker.addEventListener('error', errorHandler);
+      worker.postMessage(message, transfer);
+    });
+  }
+}
+
+const pool = new ExportWorkerPool();
+
+export function canExportInWorkers(): boolean {
+  return typeof OffscreenCanvas !== 'undefined' && pool.acquire(1).length > 0;
+}
+
+function drawSize(d: DesignItem, exportDpi: number) {
+  return {
+    drawW: Math.max(1, Math.round(d.widthInches * d.transform.s * exportDpi)),
+    drawH: Math.max(1, Math.round(d.heightInches * d.transform.s * exportDpi)),
+  };
+}
+
+// SVG designs are rasterized from the vector at the exact size they are drawn, so they stay sharp at any size.
+function rasterizeVector(d: DesignItem, exportDpi: number): ImageBitmap {
+  const { drawW, drawH } = drawSize(d, exportDpi);
+  const canvas = new OffscreenCanvas(drawW, drawH);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create canvas context for SVG rendering');
+  ctx.drawImage(d.imageInfo.image, 0, 0, drawW, drawH);
+  return canvas.transferToImageBitmap();
+}
+
+// With `vectors`, each SVG design is rasterized once and every call gets a copy; the caller closes the cached bitmaps.
+async function toExportDesigns(designs: DesignItem[], exportDpi: number, vectors?: Map<DesignItem, ImageBitmap>): Promise<{ designs: DesignExportData[]; bitmaps: ImageBitmap[] }> {
+  const bitmaps = await Promise.all(designs.map(d => {
+    if (!d.imageInfo.svgSource || d.alphaThresholded) return createImageBitmap(d.imageInfo.image);
+    if (!vectors) return rasterizeVector(d, exportDpi);
+    let raster = vectors.get(d);
+    if (!raster) {
+      raster = rasterizeVector(d, exportDpi);
+      vectors.set(d, raster);
+    }
+    return createImageBitmap(raster);
+  }));
+  return {
+    bitmaps,
+    designs: designs.map((d, i) => ({
+      widthInches: d.widthInches,
+      heightInches: d.heightInches,
+      nx: d.transform.nx,
+      ny: d.transform.ny,
+      s: d.transform.s,
+      rotation: d.transform.rotation,
+      flipX: d.transform.flipX,
+      flipY: d.transform.flipY,
+      bitmap: bitmaps[i],
+      alphaThresholded: d.alphaThresholded,
+    })),
+  };
+}
+
+/**
+ * Splits the sheet into bands of `stripRows` rows and renders them across the pool. Results come
+ * back in sheet order whichever worker finished first.
+ */
+async function renderStrips<R>(
+  designs: DesignItem[],
+  options: WorkerExportOptions,
+  stripRows: number,
+  makeMessage: (index: number, stripY: number, stripH: number, designs: DesignExportData[]) => StripInput | TiffStripInput,
+): Promise<R[]> {
+  const { outH, exportDpi } = options;
+  const stripCount = Math.ceil(outH / stripRows);
+  const workers = pool.acquire(Math.min(pool.size, stripCount));
+  if (workers.length === 0) throw new Error('Export worker unavailable');
+
+  const spans = designs.map(d => {
+    const { drawW, drawH } = drawSize(d, exportDpi);
+    const radius = Math.sqrt(drawW * drawW + drawH * drawH) / 2;
+    const centerY = d.transform.ny * outH;
+    return { design: d, top: centerY - radius, bottom: centerY + radius };
+  });
+
+  const results: R[] = new Array(stripCount);
+  const vectors = new Map<DesignItem, ImageBitmap>();
+  let nextStrip = 0;
+  let failed = false;
+  // Each worker pulls the next strip as soon as it is free, so slow (busy) strips don't hold up the rest.
+  const runWorker = async (worker: Worker) => {
+    while (!failed && nextStrip < stripCount) {
+      const index = nextStrip++;
+      const stripY = index * stripRows;
+      const stripH = Math.min(stripRows, outH - stripY);
+      const crossing = spans.filter(s => s.bottom >= stripY && s.top <= stripY + stripH).map(s => s.design);
+      // Bitmaps are transferred, so every strip gets its own copies of the designs it draws.
+      const { designs: stripDesigns, bitmaps } = await toExportDesigns(crossing, exportDpi, vectors);
+      try {
+        results[index] = await pool.request<R>(worker, makeMessage(index, stripY, stripH, stripDesigns), bitmaps, STRIP_TIMEOUT_MS,
+          'Export timed out — the gangsheet may be too large. Try a smaller size.');
+      } catch (err) {
+        failed = true;
+        throw err;
+      }
+    }
+  };
+  try {
+    await Promise.all(workers.map(runWorker));
+  } finally {
+    vectors.forEach(bitmap => bitmap.close());
+  }
+  return results;
+}
+
+/**
+ * Renders a sheet to PNG across the worker pool. Workers rasterize, filter and deflate strips in
+ * parallel; the strips' deflate segments are spliced here, in order, into a single zlib stream.
+ */
+export async function exportPngInWorkers(designs: DesignItem[], options: WorkerExportOptions): Promise<Blob> {
+  const { outW, outH, exportDpi, iccProfile } = options;
+
+  if (typeof CompressionStream === 'undefined') {
+    const [worker] = pool.acquire(1);
+    if (!worker) throw new Error('Export worker unavailable');
+    const { designs: exportDesigns, bitmaps } = await toExportDesigns(designs, exportDpi);
+    const message: ExportInput = { type: 'export', requestId: ++requestCounter, designs: exportDesigns, outW, outH, exportDpi, iccProfile };
+    const result = await pool.request<{ blob: Blob }>(worker, message, bitmaps, LEGACY_EXPORT_TIMEOUT_MS,
+      'Export timed out — the gangsheet may be too large. Try a smaller size.');
+    return result.blob;
+  }
+
+  const stripRows = Math.max(1, Math.min(MAX_STRIP_ROWS, Math.floor(MAX_STRIP_PIXELS / outW)));
+  const stripCount = Math.ceil(outH / stripRows);
+  const results = await renderStrips<StripResult>(designs, options, stripRows, (index, stripY, stripH, stripDesigns) => ({
+    type: 'strip', requestId: ++requestCounter, designs: stripDesigns,
+    outW, outH, stripY, stripH, exportDpi, final: index === stripCount - 1,
+  }));
+
+  const ihdrData = new Uint8Array(13);
+  const ihdrDv = new DataView(ihdrData.buffer);
+  ihdrDv.setUint32(0, outW);
+  ihdrDv.setUint32(4, outH);
+  ihdrData[8] = 8;   // bit depth
+  ihdrData[9] = 6;   // color type RGBA
+  ihdrData[10] = 0;  // compression
+  ihdrData[11] = 0;  // filter
+  ihdrData[12] = 0;  // interlace
+
+  // zlib header (deflate, 32K window, default level), then the segments, then the Adler-32 of all rows.
+  let adler = results[0].adler;
+  for (let i = 1; i < results.length; i++) adler = adler32Combine(adler, results[i].adler, results[i].length);
+  const trailer = new Uint8Array(4);
+  new DataView(trailer.buffer).setUint32(0, adler);
+  const segments = [new Uint8Array([0x78, 0x9C]), ...results.map(r => r.data), trailer];
+
+  // IDAT boundaries are arbitrary, so segments are packed into chunks of up to MAX_IDAT_BYTES.
+  const idatChunks: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  const flushIdat = () => {
+    if (pendingBytes === 0) return;
+    const data = new Uint8Array(pendingBytes);
+    let pos = 0;
+    for (const p of pending) { data.set(p, pos); pos += p.length; }
+    idatChunks.push(makePngChunk('IDAT', data));
+    pending = [];
+    pendingBytes = 0;
+  };
+  for (const segment of segments) {
+    for (let i = 0; i < segment.length;) {
+      const take = Math.min(segment.length - i, MAX_IDAT_BYTES - pendingBytes);
+      pending.push(segment.subarray(i, i + take));
+      pendingBytes += take;
+      i += take;
+      if (pendingBytes === MAX_IDAT_BYTES) flushIdat();
+    }
+  }
+  flushIdat();
+
+  return new Blob([
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    makePngChunk('IHDR', ihdrData),
+    makePhysChunk(exportDpi),
+    ...(await makeColorChunks(iccProfile)),
+    ...idatChunks,
+    makePngChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+}
+
+// Renders a sheet to a Deflate-compressed RGBA TIFF; needs CompressionStream in the workers.
+export async function exportTiffInWorkers(designs: DesignItem[], options: WorkerExportOptions): Promise<Blob> {
+  const { outW, outH, exportDpi, iccProfile } = options;
+  if (typeof CompressionStream === 'undefined') throw new Error('TIFF export is not supported in this browser');
+
+  // Bands hold a whole number of TIFF strips so every strip but the last has RowsPerStrip rows.
+  const bandRows = Math.max(1, Math.min(MAX_STRIP_ROWS, Math.floor(MAX_STRIP_PIXELS / outW)));
+  const stripRows = Math.max(TIFF_ROWS_PER_STRIP, bandRows - (bandRows % TIFF_ROWS_PER_STRIP));
+  const bands = await renderStrips<TiffStripResult>(designs, options, stripRows, (_index, stripY, stripH, stripDesigns) => ({
+    type: 'tiff-strip', requestId: ++requestCounter, designs: stripDesigns,
+    outW, outH, stripY, stripH, exportDpi, rowsPerStrip: TIFF_ROWS_PER_STRIP,
+  }));
+
+  return buildTiff(bands.flatMap(b => b.strips), { width: outW, height: outH, rowsPerStrip: TIFF_ROWS_PER_STRIP, dpi: exportDpi, iccProfile });
+}
@@ -1,4 +1,8 @@
-interface DesignExportData {
+import { adler32, toSyncFlushedSegment } from './deflate-splice';
+import { makeColorChunks, retagPng, zlibCompress } from './png-chunks';
+import type { IccProfile } from './types';
+
+export interface DesignExportData {
   widthInches: number;
   heightInches: number;
   nx: number;
@@ -11,39 +15,70 @@ interface DesignExportData {
   alphaThresholded?: boolean;
 }
 
-interface ExportInput {
+// Whole sheet on one canvas, for browsers without CompressionStream.
+export interface ExportInput {
   type: 'export';
   requestId: number;
   designs: DesignExportData[];
   outW: number;
   outH: number;
+  // Any resolution the target printer runs at (300, 360, 600, ...); written to pHYs.
   exportDpi: number;
+  // Embedded as iCCP when set; otherwise the PNG is tagged sRGB.
+  iccProfile?: IccProfile;
 }
 
-const STRIP_HEIGHT = 4096;
-const BATCH_ROWS = 512;
-const MAX_IDAT_BYTES = 2 * 1024 * 1024;
+/**
+ * One horizontal band of the sheet, rendered by whichever pool worker picks it up. `designs`
+ * holds only the designs crossing the band, positioned against the full sheet.
+ */
+export interface StripInput {
+  type: 'strip';
+  requestId: number;
+  designs: DesignExportData[];
+  outW: number;
+  outH: number;
+  stripY: number;
+  stripH: number;
+  exportDpi: number;
+  // The last strip closes the deflate stream; earlier ones end on a byte boundary so the next can follow.
+  final: boolean;
+}
 
-function crc32(data: Uint8Array): number {
-  let c = 0xFFFFFFFF;
-  for (let i = 0; i < data.length; i++) {
-    c ^= data[i];
-    for (let j = 0; j < 8; j++) c = (c >>> 1) ^ (c & 1 ? 0xEDB88320 : 0);
-  }
-  return (c ^ 0xFFFFFFFF) >>> 0;
+export interface StripResult {
+  type: 'strip-result';
+  requestId: number;
+  // Raw deflate of the strip's filtered rows.
+  data: Uint8Array;
+  adler: number;
+  // Uncompressed (filtered) byte count, needed to combine the Adler-32 checksums.
+  length: number;
+}
+
+// Same band as StripInput, written as TIFF strips of `rowsPerStrip` rows (the band is a multiple of it).
+export interface TiffStripInput extends Omit<StripInput, 'type' | 'final'> {
+  type: 'tiff-strip';
+  rowsPerStrip: number;
+}
+
+export interface TiffStripResult {
+  type: 'tiff-strip-result';
+  requestId: number;
+  // One zlib stream (TIFF compression 8) per TIFF strip, top to bottom.
+  strips: Uint8Array[];
 }
 
-function makePngChunk(type: string, data: Uint8Array): Uint8Array {
-  const chunk = new Uint8Array(12 + data.length);
-  const dv = new DataView(chunk.buffer);
-  dv.setUint32(0, data.length);
-  chunk[4] = type.charCodeAt(0);
-  chunk[5] = type.charCodeAt(1);
-  chunk[6] = type.charCodeAt(2);
-  chunk[7] = type.charCodeAt(3);
-  chunk.set(data, 8);
-  dv.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
-  return chunk;
+const BATCH_ROWS = 512;
+
+function getDrawInfos(designs: DesignExportData[], outW: number, outH: number, exportDpi: number) {
+  return designs.map(d => {
+    const drawW = Math.max(1, Math.round(d.widthInches * d.s * exportDpi));
+    const drawH = Math.max(1, Math.round(d.heightInches * d.s * exportDpi));
+    const centerX = d.nx * outW;
+    const centerY = d.ny * outH;
+    const radius = Math.sqrt(drawW * drawW + drawH * drawH) / 2;
+    return { design: d, drawW, drawH, centerX, centerY, radius };
+  });
 }
 
 function drawDesignsOnCtx(
@@ -70,43 +105,34 @@ function drawDesignsOnCtx(
   }
 }
 
-async function buildPngStreaming(input: ExportInput): Promise<Blob> {
-  const { designs, outW, outH, exportDpi } = input;
+// Draws the designs crossing one band and returns its RGBA rows (unpremultiplied).
+function rasterizeStrip(input: StripInput | TiffStripInput): Uint8ClampedArray {
+  const { designs, outW, outH, stripY, stripH, exportDpi } = input;
 
-  const ppm = Math.round(exportDpi / 0.0254);
+  const canvas = new OffscreenCanvas(outW, stripH);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get strip canvas context');
 
-  const signature = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+  ctx.clearRect(0, 0, outW, stripH);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
 
-  const ihdrData = new Uint8Array(13);
-  const ihdrDv = new DataView(ihdrData.buffer);
-  ihdrDv.setUint32(0, outW);
-  ihdrDv.setUint32(4, outH);
-  ihdrData[8] = 8;   // bit depth
-  ihdrData[9] = 6;   // color type RGBA
-  ihdrData[10] = 0;  // compression
-  ihdrData[11] = 0;  // filter
-  ihdrData[12] = 0;  // interlace
-  const ihdrChunk = makePngChunk('IHDR', ihdrData);
+  drawDesignsOnCtx(ctx, getDrawInfos(designs, outW, outH, exportDpi), stripY, stripH);
 
-  const physData = new Uint8Array(9);
-  const physDv = new DataView(physData.buffer);
-  physDv.setUint32(0, ppm);
-  physDv.setUint32(4, ppm);
-  physData[8] = 1;
-  const physChunk = makePngChunk('pHYs', physData);
+  const pixels = ctx.getImageData(0, 0, outW, stripH).data;
+  canvas.width = 0;
+  canvas.height = 0;
+  for (const d of designs) d.bitmap.close();
+  return pixels;
+}
 
-  const drawInfos = designs.map(d => {
-    const drawW = Math.max(1, Math.round(d.widthInches * d.s * exportDpi));
-    const drawH = Math.max(1, Math.round(d.heightInches * d.s * exportDpi));
-    const centerX = d.nx * outW;
-    const centerY = d.ny * outH;
-    const radius = Math.sqrt(drawW * drawW + drawH * drawH) / 2;
-    return { design: d, drawW, drawH, centerX, centerY, radius };
-  });
+// Rasterizes one strip, adds the PNG filter bytes and deflates it.
+async function renderStrip(input: StripInput): Promise<Omit<StripResult, 'type' | 'requestId'>> {
+  const { outW, stripH, final } = input;
+  const pixels = rasterizeStrip(input);
 
-  const cs = new CompressionStream('deflate');
+  const cs = new CompressionStream('deflate-raw');
   const writer = cs.writable.getWriter();
-
   const compressedParts: Uint8Array[] = [];
   const reader = cs.readable.getReader();
   const readPromise = (async () => {
@@ -119,40 +145,22 @@ async function buildPngStreaming(input: ExportInput): Promise<Blob> {
 
   const rowBytes = outW * 4;
   const filteredRowLen = 1 + rowBytes;
-
-  for (let stripY = 0; stripY < outH; stripY += STRIP_HEIGHT) {
-    const stripH = Math.min(STRIP_HEIGHT, outH - stripY);
-
-    const canvas = new OffscreenCanvas(outW, stripH);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Failed to get strip canvas context');
-
-    ctx.clearRect(0, 0, outW, stripH);
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-
-    drawDesignsOnCtx(ctx, drawInfos, stripY, stripH);
-
-    const imageData = ctx.getImageData(0, 0, outW, stripH);
-    const pixels = imageData.data;
-
-    for (let startRow = 0; startRow < stripH; startRow += BATCH_ROWS) {
-      const endRow = Math.min(startRow + BATCH_ROWS, stripH);
-      const batchCount = endRow - startRow;
-      const batch = new Uint8Array(batchCount * filteredRowLen);
-      for (let r = 0; r < batchCount; r++) {
-        const off = r * filteredRowLen;
-        batch[off] = 0; // PNG filter type None
-        batch.set(
-          pixels.subarray((startRow + r) * rowBytes, (startRow + r + 1) * rowBytes),
-          off + 1,
-        );
-      }
-      await writer.write(batch);
+  let adler = 1;
+
+  for (let startRow = 0; startRow < stripH; startRow += BATCH_ROWS) {
+    const endRow = Math.min(startRow + BATCH_ROWS, stripH);
+    const batchCount = endRow - startRow;
+    const batch = new Uint8Array(batchCount * filteredRowLen);
+    for (let r = 0; r < batchCount; r++) {
+      const off = r * filteredRowLen;
+      batch[off] = 0; // PNG filter type None
+      batch.set(
+        pixels.subarray((startRow + r) * rowBytes, (startRow + r + 1) * rowBytes),
+        off + 1,
+      );
     }
-
-    canvas.width = 0;
-    canvas.height = 0;
+    adler = adler32(batch, adler);
+    await writer.write(batch);
   }
 
   await writer.close();
@@ -164,21 +172,28 @@ async function buildPngStreaming(input: ExportInput): Promise<Blob> {
   let pos = 0;
   for (const p of compressedParts) { compressed.set(p, pos); pos += p.length; }
 
-  const idatChunks: Uint8Array[] = [];
-  for (let i = 0; i < compressed.length; i += MAX_IDAT_BYTES) {
-    idatChunks.push(makePngChunk('IDAT', compressed.subarray(i, Math.min(i + MAX_IDAT_BYTES, compressed.length))));
-  }
-
-  const iendChunk = makePngChunk('IEND', new Uint8Array(0));
-
-  for (const d of designs) d.bitmap.close();
+  return {
+    data: final ? compressed : toSyncFlushedSegment(compressed),
+    adler,
+    length: stripH * filteredRowLen,
+  };
+}
 
-  return new Blob([signature, ihdrChunk, physChunk, ...idatChunks, iendChunk], { type: 'image/png' });
+async function renderTiffStrip(input: TiffStripInput): Promise<Uint8Array[]> {
+  const { outW, stripH, rowsPerStrip } = input;
+  const pixels = rasterizeStrip(input);
+  const rowBytes = outW * 4;
+  const strips: Uint8Array[] = [];
+  for (let row = 0; row < stripH; row += rowsPerStrip) {
+    const end = Math.min(row + rowsPerStrip, stripH);
+    strips.push(await zlibCompress(new Uint8Array(pixels.buffer, row * rowBytes, (end - row) * rowBytes)));
+  }
+  return strips;
 }
 
 // Legacy single-canvas export for browsers without CompressionStream
 async function runExportLegacy(input: ExportInput): Promise<Blob> {
-  const { designs, outW, outH, exportDpi } = input;
+  const { designs, outW, outH, exportDpi, iccProfile } = input;
 
   const canvas = new OffscreenCanvas(outW, outH);
   const ctx = canvas.getContext('2d');
@@ -209,51 +224,33 @@ async function runExportLegacy(input: ExportInput): Promise<Blob> {
 
   const rawBlob = await canvas.convertToBlob({ type: 'image/png' });
   const rawBuf = new Uint8Array(await rawBlob.arrayBuffer());
-
-  const ppm = Math.round(exportDpi / 0.0254);
-  const physData = new Uint8Array(9);
-  const physDv = new DataView(physData.buffer);
-  physDv.setUint32(0, ppm);
-  physDv.setUint32(4, ppm);
-  physData[8] = 1;
-  const physChunk = makePngChunk('pHYs', physData);
-
-  const parts: Uint8Array[] = [];
-  parts.push(rawBuf.slice(0, 8));
-  const ihdrDataLen = ((rawBuf[8] << 24) | (rawBuf[9] << 16) | (rawBuf[10] << 8) | rawBuf[11]) >>> 0;
-  const ihdrTotal = 12 + ihdrDataLen;
-  parts.push(rawBuf.slice(8, 8 + ihdrTotal));
-  parts.push(physChunk);
-  let offset = 8 + ihdrTotal;
-  while (offset + 12 <= rawBuf.length) {
-    const dataLen = ((rawBuf[offset] << 24) | (rawBuf[offset + 1] << 16) | (rawBuf[offset + 2] << 8) | rawBuf[offset + 3]) >>> 0;
-    const chunkTotal = 12 + dataLen;
-    const isPHYs = rawBuf[offset + 4] === 0x70 && rawBuf[offset + 5] === 0x48 &&
-                   rawBuf[offset + 6] === 0x59 && rawBuf[offset + 7] === 0x73;
-    if (!isPHYs) parts.push(rawBuf.slice(offset, offset + chunkTotal));
-    offset += chunkTotal;
-  }
+  const tagged = retagPng(rawBuf, exportDpi, await makeColorChunks(iccProfile));
 
   canvas.width = 0;
   canvas.height = 0;
   for (const d of designs) d.bitmap.close();
 
-  return new Blob(parts, { type: 'image/png' });
+  return new Blob([tagged], { type: 'image/png' });
 }
 
-const hasStreaming = typeof CompressionStream !== 'undefined';
-
 self.onmessage = async function(e: MessageEvent) {
-  if (e.data.type === 'export') {
-    const designs = e.data.designs as ExportInput['designs'] | undefined;
-    try {
-      const blob = hasStreaming
-        ? await buildPngStreaming(e.data)
-        : await runExportLegacy(e.data);
+  if (e.data.type !== 'export' && e.data.type !== 'strip' && e.data.type !== 'tiff-strip') return;
+  const designs = e.data.designs as DesignExportData[] | undefined;
+  try {
+    if (e.data.type === 'tiff-strip') {
+      const strips = await renderTiffStrip(e.data);
+      const message: TiffStripResult = { type: 'tiff-strip-result', requestId: e.data.requestId, strips };
+      (self as unknown as Worker).postMessage(message, strips.map(s => s.buffer));
+    } else if (e.data.type === 'strip') {
+      const result = await renderStrip(e.data);
+      const message: StripResult = { type: 'strip-result', requestId: e.data.requestId, ...result };
+      (self as unknown as Worker).postMessage(message, [result.data.buffer]);
+    } else {
+      const blob = await runExportLegacy(e.data);
       self.postMessage({ type: 'result', requestId: e.data.requestId, blob });
-    } catch (err: any) {
-      if (designs) for (const d of designs) { try { d.bitmap.close(); } catch {} }
-      self.postMessage({ type: 'error', requestId: e.data.requestId, error: err?.message || 'Export failed' });
     }
+  } catch (err: any) {
+    if (designs) for (const d of designs) { try { d.bitmap.close(); } catch {} }
+    self.postMessage({ type: 'error', requestId: e.data.requestId, error: err?.message || 'Export failed' });
   }
 };
@@ -0,0 +1,94 @@
+import JSZip from "jszip";
+import { projectManifestSchema } from "@shared/schema";
+import type { ImageInfo } from "./types";
+import { serializeDesigns, restoreImageInfo, restoreDesigns, type ProjectState } from "./project-storage";
+
+export const GANGSHEET_EXTENSION = ".gangsheet";
+const MANIFEST_PATH = "manifest.json";
+const FORMAT_VERSION = 1;
+
+const EXT_BY_MIME: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+};
+
+function imagePath(id: string, mimeType: string): string {
+  return `images/${id}.${EXT_BY_MIME[mimeType] ?? "png"}`;
+}
+
+function sourcePath(id: string): string {
+  return `sources/${id}.pdf`;
+}
+
+export function isGangsheetFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(GANGSHEET_EXTENSION);
+}
+
+export async function exportGangsheetFile(state: ProjectState): Promise<Blob> {
+  const { designs, images, sources } = await serializeDesigns(state.designs);
+  const zip = new JSZip();
+  for (const img of images) {
+    zip.file(imagePath(img.meta.id, img.meta.mimeType), img.blob);
+  }
+  for (const src of sources) {
+    zip.file(sourcePath(src.meta.id), src.blob);
+  }
+  zip.file(MANIFEST_PATH, JSON.stringify({
+    version: FORMAT_VERSION,
+    name: state.name,
+    profileId: state.profileId,
+    artboardWidth: state.artboardWidth,
+    artboardHeight: state.artboardHeight,
+    designGap: state.designGap ?? null,
+    sheetHeights: state.sheetHeights && state.sheetHeights.length > 1 ? state.sheetHeights : null,
+    guides: state.guides && state.guides.length > 0 ? state.guides : null,
+    designs,
+    images: images.map(img => img.meta),
+    sources: sources.length > 0 ? sources.map(src => src.meta) : null,
+  }, null, 2));
+  // Images are already compressed; only the manifest benefits from deflate.
+  return zip.generateAsync({ type: "blob", compression: "STORE" });
+}
+
+export async function importGangsheetFile(file: File): Promise<ProjectState> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  if (!manifestEntry) throw new Error("Not a gangsheet file");
+
+  const raw = JSON.parse(await manifestEntry.async("string"));
+  if (typeof raw?.version !== "number" || raw.version > FORMAT_VERSION) {
+    throw new Error("Unsupported gangsheet file version");
+  }
+  const parsed = projectManifestSchema.safeParse(raw);
+  if (!parsed.success) throw new Error("Invalid gangsheet manifest");
+  const manifest = parsed.data;
+
+  const sourceById = new Map<string, ArrayBuffer>();
+  await Promise.all((manifest.sources ?? []).map(async (meta) => {
+    const entry = zip.file(sourcePath(meta.id));
+    if (!entry) throw new Error(`Missing source ${meta.fileName}`);
+    sourceById.set(meta.id, await entry.async("arraybuffer"));
+  }));
+
+  const infoById = new Map<string, ImageInfo>();
+  await Promise.all(manifest.images.map(async (meta) => {
+    // Files written before SVG had its own extension stored it under .png.
+    const entry = zip.file(imagePath(meta.id, meta.mimeType)) ?? zip.file(imagePath(meta.id, "image/png"));
+    if (!entry) throw new Error(`Missing image ${meta.fileName}`);
+    const data = await entry.async("arraybuffer");
+    infoById.set(meta.id, await restoreImageInfo(meta, new Blob([data], { type: meta.mimeType }), sourceById));
+  }));
+
+  return {
+    name: manifest.name,
+    profileId: manifest.profileId,
+    artboardWidth: manifest.artboardWidth,
+    artboardHeight: manifest.artboardHeight,
+    designGap: manifest.designGap ?? undefined,
+    sheetHeights: manifest.sheetHeights ?? undefined,
+    guides: manifest.guides ?? undefined,
+    designs: restoreDesigns(manifest.designs, infoById),
+  };
+}
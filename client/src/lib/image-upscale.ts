@@ -0,0 +1,101 @@
+import { hasCleanAlpha } from './image-crop';
+import type { UpscaleMethod } from './upscale-worker';
+import ImageUpscaleWorker from './upscale-worker?worker';
+
+export type { UpscaleMethod };
+
+export const UPSCALE_FACTORS = [2, 3, 4] as const;
+// Longest side of an upscaled image, the same ceiling vector imports are rasterized to.
+const MAX_UPSCALED_PIXELS = 8000;
+const UPSCALE_TIMEOUT_MS = 120000;
+
+export interface UpscaleOptions {
+  factor: number;
+  method: UpscaleMethod;
+  // Unsharp-mask strength for the smooth method, 0..1.
+  sharpen: number;
+}
+
+export function maxUpscaleFactor(width: number, height: number): number {
+  return Math.floor(MAX_UPSCALED_PIXELS / Math.max(width, height, 1));
+}
+
+function readPixels(image: HTMLImageElement): ImageData | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || image.width;
+  canvas.height = image.naturalHeight || image.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Pixel art is small and drawn from a limited palette. Photos and anti-aliased artwork blow
+ * through the colour budget almost immediately, so this bails out early on them.
+ */
+export function looksLikePixelArt(image: HTMLImageElement): boolean {
+  const w = image.naturalWidth || image.width;
+  const h = image.naturalHeight || image.height;
+  if (Math.max(w, h) > 512) return false;
+  const imageData = readPixels(image);
+  if (!imageData) return false;
+  const pixels = new Uint32Array(imageData.data.buffer);
+  const colors = new Set<number>();
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] >>> 24 === 0) continue;
+    colors.add(pixels[i]);
+    if (colors.size > 64) return false;
+  }
+  return colors.size > 0;
+}
+
+let _upscaleWorker: Worker | null = null;
+function getUpscaleWorker(): Worker | null {
+  if (!_upscaleWorker) {
+    try { _upscaleWorker = new ImageUpscaleWorker(); }
+    catch { return null; }
+  }
+  return _upscaleWorker;
+}
+
+let _upscaleRequestCounter = 0;
+
+/**
+ * Upscales an image off the main thread. Unlike cropping there is no synchronous fallback:
+ * resampling a full design on the main thread would freeze the editor, so failures reject.
+ */
+export function upscaleImageAsync(image: HTMLImageElement, options: UpscaleOptions): Promise<HTMLCanvasElement> {
+  return new Promise((resolve, reject) => {
+    const imageData = readPixels(image);
+    if (!imageData) { reject(new Error('Canvas 2D context unavailable')); return; }
+    const worker = getUpscaleWorker();
+    if (!worker) { reject(new Error('Upscale worker unavailable')); return; }
+
+    const requestId = ++_upscaleRequestCounter;
+    const { width, height } = imageData;
+    const cleanAlpha = hasCleanAlpha(imageData.data, width, height);
+    const buffer = imageData.data.buffer;
+    const timeout = setTimeout(() => {
+      worker.removeEventListener('message', handler);
+      reject(new Error('Upscale timed out'));
+    }, UPSCALE_TIMEOUT_MS);
+
+    const handler = (e: MessageEvent) => {
+      if (e.data.requestId !== requestId) return;
+      clearTimeout(timeout);
+      worker.removeEventListener('message', handler);
+      if (e.data.type === 'error') { reject(new Error(e.data.error)); return; }
+
+      const out = document.createElement('canvas');
+      out.width = e.data.width;
+      out.height = e.data.height;
+      const outCtx = out.getContext('2d');
+      if (!outCtx) { reject(new Error('Canvas 2D context unavailable')); return; }
+      outCtx.putImageData(new ImageData(new Uint8ClampedArray(e.data.pixelBuffer), e.data.width, e.data.height), 0, 0);
+      resolve(out);
+    };
+    worker.addEventListener('message', handler);
+    worker.postMessage({ type: 'upscale', requestId, pixelBuffer: buffer, width, height, cleanAlpha, ...options }, [buffer]);
+  });
+}
@@ -1,4 +1,4 @@
-import { StrokeSettings, ShapeSettings } from "@/components/image-editor";
+import type { StrokeSettings, ShapeSettings } from "@/lib/cutline-types";
 import { applyCadCutClipping } from "@/lib/cadcut-bounds";
 import { cropImageToContent } from "@/lib/image-crop";
 import { createCadCutContour } from "@/lib/cadcut-contour";
@@ -0,0 +1,25 @@
+// Stacking order of designs: later in the list draws on top.
+export type ZOrderCommand = 'front' | 'forward' | 'backward' | 'back';
+
+/**
+ * Moves the designs in `ids` to the top or bottom of the stack, or one step past their nearest
+ * unselected neighbour. Selected designs keep their order relative to each other.
+ */
+export function restack<T extends { id: string }>(layers: T[], ids: Set<string>, command: ZOrderCommand): T[] {
+  const selected = layers.filter(l => ids.has(l.id));
+  const rest = layers.filter(l => !ids.has(l.id));
+  if (command === 'front') return [...rest, ...selected];
+  if (command === 'back') return [...selected, ...rest];
+
+  const next = [...layers];
+  if (command === 'forward') {
+    for (let i = next.length - 2; i >= 0; i--) {
+      if (ids.has(next[i].id) && !ids.has(next[i + 1].id)) [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    }
+  } else {
+    for (let i = 1; i < next.length; i++) {
+      if (ids.has(next[i].id) && !ids.has(next[i - 1].id)) [next[i], next[i - 1]] = [next[i - 1], next[i]];
+    }
+  }
+  return next;
+}
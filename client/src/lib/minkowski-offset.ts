@@ -244,14 +244,16 @@ export function createMinkowskiContour(
 ): Point[] {
   if (edgePixels.length < 10) return edgePixels;
   
-  // Order the edge pixels into a proper contour (using existing chain ordering)
-  const orderedContour = orderEdgePixelsByChaining(edgePixels);
-  
-  // Simplify before offsetting
-  const simplified = simplifyPolygon(orderedContour, 0.5);
-  
   // Apply Clipper offset
-  return offsetPolygon(simplified, offsetPixels, cornerMode);
+  return offsetPolygon(traceBoundary(edgePixels), offsetPixels, cornerMode);
+}
+
+/**
+ * Order edge pixels into a closed contour and simplify it
+ */
+export function traceBoundary(edgePixels: Point[]): Point[] {
+  if (edgePixels.length < 10) return edgePixels;
+  return simplifyPolygon(orderEdgePixelsByChaining(edgePixels), 0.5);
 }
 
 /**
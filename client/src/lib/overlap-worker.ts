@@ -14,6 +14,8 @@ interface OverlapRequest {
     rotation: number;
     cx: number;
     cy: number;
+    // Cutline polygon in pixels around (cx, cy), before rotation; the cut area counts as occupied.
+    cutline?: Array<{ x: number; y: number }>;
   }>;
   sw: number;
   sh: number;
@@ -71,6 +73,13 @@ self.onmessage = (e: MessageEvent<OverlapRequest>) => {
       ctx.translate(d.cx, d.cy);
       ctx.rotate((d.rotation * Math.PI) / 180);
       ctx.drawImage(d.imgBitmap, -d.drawW / 2, -d.drawH / 2, d.drawW, d.drawH);
+      if (d.cutline && d.cutline.length > 2) {
+        ctx.beginPath();
+        ctx.moveTo(d.cutline[0].x, d.cutline[0].y);
+        for (let i = 1; i < d.cutline.length; i++) ctx.lineTo(d.cutline[i].x, d.cutline[i].y);
+        ctx.closePath();
+        ctx.fill();
+      }
       const rgba = ctx.getImageData(0, 0, rw, rh).data;
       // Extract only alpha channel to save memory
       const alpha = new Uint8Array(rw * rh);
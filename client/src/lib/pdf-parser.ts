@@ -11,16 +11,27 @@ export interface ParsedPDFData {
   width: number;
   height: number;
   originalPdfData: ArrayBuffer;
+  // Zero-based page of originalPdfData this design was rendered from.
+  pageIndex: number;
   dpi: number;
 }
 
-export async function parsePDF(file: File): Promise<ParsedPDFData> {
+// The PDF spec lets the %PDF header sit anywhere in the first 1024 bytes.
+const PDF_HEADER_SEARCH_BYTES = 1024;
+
+// pdf.js transfers the buffer it is given to its worker, which detaches it. It gets a copy so
+// the caller's buffer stays readable for vector export.
+function openDocument(data: ArrayBuffer): Promise<pdfjsLib.PDFDocumentProxy> {
+  return pdfjsLib.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+}
+
+export async function parsePDF(file: File, pageIndex = 0, data?: ArrayBuffer): Promise<ParsedPDFData> {
   let pdf: pdfjsLib.PDFDocumentProxy | null = null;
   try {
-    const arrayBuffer = await file.arrayBuffer();
+    const arrayBuffer = data ?? await file.arrayBuffer();
 
-    pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    const page = await pdf.getPage(1);
+    pdf = await openDocument(arrayBuffer);
+    const page = await pdf.getPage(pageIndex + 1);
 
     const targetDPI = 300;
     const pdfScale = targetDPI / 72;
@@ -54,6 +65,7 @@ export async function parsePDF(file: File): Promise<ParsedPDFData> {
       width: viewport.width,
       height: viewport.height,
       originalPdfData: arrayBuffer,
+      pageIndex,
       dpi: targetDPI
     };
   } finally {
@@ -61,6 +73,98 @@ export async function parsePDF(file: File): Promise<ParsedPDFData> {
   }
 }
 
+export async function getPdfPageCount(data: ArrayBuffer): Promise<number> {
+  const pdf = await openDocument(data);
+  try {
+    return pdf.numPages;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+/**
+ * Renders every page small enough to fit a `maxSize` square, reporting each as a PNG data URL
+ * as soon as it is ready. Stops early once `signal` is aborted.
+ */
+export async function renderPdfThumbnails(
+  data: ArrayBuffer,
+  onThumbnail: (pageIndex: number, dataUrl: string) => void,
+  options: { maxSize?: number; signal?: AbortSignal } = {},
+): Promise<void> {
+  const { maxSize = 160, signal } = options;
+  const pdf = await openDocument(data);
+  const canvas = document.createElement('canvas');
+  try {
+    for (let i = 0; i < pdf.numPages && !signal?.aborted; i++) {
+      const page = await pdf.getPage(i + 1);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: maxSize / Math.max(base.width, base.height) });
+      canvas.width = Math.max(1, Math.round(viewport.width));
+      canvas.height = Math.max(1, Math.round(viewport.height));
+      const ctx = canvas.getContext('2d', { alpha: true });
+      if (!ctx) throw new Error('Could not create canvas context for PDF rendering');
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvasContext: ctx, viewport, background: 'rgba(0,0,0,0)' } as any).promise;
+      page.cleanup();
+      if (!signal?.aborted) onThumbnail(i, canvas.toDataURL('image/png'));
+    }
+  } finally {
+    canvas.width = 0;
+    canvas.height = 0;
+    pdf.destroy();
+  }
+}
+
 export function isPDFFile(file: File): boolean {
   return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
 }
+
+export function isAIFile(file: File): boolean {
+  return file.type === 'application/illustrator' || file.name.toLowerCase().endsWith('.ai');
+}
+
+export function isEPSFile(file: File): boolean {
+  const type = file.type;
+  return type === 'application/postscript' || type === 'application/eps' || type === 'image/x-eps'
+    || file.name.toLowerCase().endsWith('.eps');
+}
+
+// Documents imported through pdf.js: PDFs, PDF-compatible Illustrator files and (server-converted) EPS.
+export function isVectorDocumentFile(file: File): boolean {
+  return isPDFFile(file) || isAIFile(file) || isEPSFile(file);
+}
+
+function hasPdfHeader(data: ArrayBuffer): boolean {
+  const head = new Uint8Array(data, 0, Math.min(data.byteLength, PDF_HEADER_SEARCH_BYTES));
+  for (let i = 0; i + 3 < head.length; i++) {
+    if (head[i] === 0x25 && head[i + 1] === 0x50 && head[i + 2] === 0x44 && head[i + 3] === 0x46) return true;
+  }
+  return false;
+}
+
+/**
+ * Returns PDF bytes for a vector document. Illustrator files saved with "Create PDF Compatible
+ * File" are PDFs already; EPS is sent to the server, which crops it to its bounding box.
+ */
+export async function loadPdfSource(file: File): Promise<ArrayBuffer> {
+  if (isEPSFile(file)) {
+    const form = new FormData();
+    form.append('file', file, file.name);
+    const res = await fetch('/api/convert-eps', { method: 'POST', body: form, credentials: 'include' });
+    if (!res.ok) {
+      let message = res.statusText;
+      try {
+        const body = await res.json();
+        if (body?.error) message = body.error;
+      } catch { /* keep status text */ }
+      throw new Error(`${res.status}: ${message}`);
+    }
+    return res.arrayBuffer();
+  }
+
+  const data = await file.arrayBuffer();
+  if (!hasPdfHeader(data)) {
+    throw new Error(isAIFile(file) ? 'Illustrator file was saved without PDF compatibility' : 'Not a PDF file');
+  }
+  return data;
+}
@@ -0,0 +1,110 @@
+import type { IccProfile } from './types';
+
+// Chunks that describe colour; replaced wholesale when a PNG is re-tagged.
+const COLOR_CHUNK_TYPES = new Set(['iCCP', 'sRGB', 'gAMA', 'cHRM']);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = (c >>> 1) ^ (c & 1 ? 0xEDB88320 : 0);
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let c = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+export function makePngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const dv = new DataView(chunk.buffer);
+  dv.setUint32(0, data.length);
+  chunk[4] = type.charCodeAt(0);
+  chunk[5] = type.charCodeAt(1);
+  chunk[6] = type.charCodeAt(2);
+  chunk[7] = type.charCodeAt(3);
+  chunk.set(data, 8);
+  dv.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+export function makePhysChunk(dpi: number): Uint8Array {
+  const ppm = Math.round(dpi / 0.0254);
+  const data = new Uint8Array(9);
+  const dv = new DataView(data.buffer);
+  dv.setUint32(0, ppm);
+  dv.setUint32(4, ppm);
+  data[8] = 1; // unit: metre
+  return makePngChunk('pHYs', data);
+}
+
+// zlib-wrapped deflate (PNG iCCP, TIFF compression 8).
+export async function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Colour tagging written next to pHYs: the embedded profile as iCCP when one is given,
+ * otherwise sRGB plus the gAMA value the PNG spec pairs with it (canvas pixels are sRGB).
+ * Browsers without CompressionStream can't build iCCP and get the sRGB tags instead.
+ */
+export async function makeColorChunks(icc?: IccProfile): Promise<Uint8Array[]> {
+  if (icc && typeof CompressionStream !== 'undefined') {
+    // Keyword must be 1-79 Latin-1 characters; then a null separator and compression method 0.
+    const keyword = icc.name.replace(/[^\x20-\x7e\xa1-\xff]/g, '').trim().slice(0, 79) || 'ICC profile';
+    const compressed = await zlibCompress(icc.data);
+    const data = new Uint8Array(keyword.length + 2 + compressed.length);
+    for (let i = 0; i < keyword.length; i++) data[i] = keyword.charCodeAt(i);
+    data[keyword.length] = 0;
+    data[keyword.length + 1] = 0;
+    data.set(compressed, keyword.length + 2);
+    return [makePngChunk('iCCP', data)];
+  }
+  const gama = new Uint8Array(4);
+  new DataView(gama.buffer).setUint32(0, 45455);
+  return [makePngChunk('sRGB', new Uint8Array([0])), makePngChunk('gAMA', gama)];
+}
+
+/**
+ * Rewrites an encoded PNG so pHYs (and colour chunks, when given) sit right after IHDR,
+ * dropping any the encoder already wrote.
+ */
+export function retagPng(buf: Uint8Array, dpi: number, colorChunks: Uint8Array[] = []): Uint8Array {
+  const readU32 = (off: number) => ((buf[off] << 24) | (buf[off + 1] << 16) | (buf[off + 2] << 8) | buf[off + 3]) >>> 0;
+  const typeAt = (off: number) => String.fromCharCode(buf[off + 4], buf[off + 5], buf[off + 6], buf[off + 7]);
+
+  const parts: Uint8Array[] = [buf.slice(0, 8)];
+  const ihdrTotal = 12 + readU32(8);
+  parts.push(buf.slice(8, 8 + ihdrTotal));
+  parts.push(makePhysChunk(dpi));
+  parts.push(...colorChunks);
+
+  let offset = 8 + ihdrTotal;
+  while (offset + 12 <= buf.length) {
+    const chunkTotal = 12 + readU32(offset);
+    const type = typeAt(offset);
+    const replaced = type === 'pHYs' || (colorChunks.length > 0 && COLOR_CHUNK_TYPES.has(type));
+    if (!replaced) parts.push(buf.slice(offset, offset + chunkTotal));
+    offset += chunkTotal;
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) { out.set(part, pos); pos += part.length; }
+  return out;
+}
+
+// Reads an .icc/.icm file, checking the header so a stray file isn't embedded as a profile.
+export async function readIccProfile(file: File): Promise<IccProfile> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const tag = (off: number) => String.fromCharCode(data[off], data[off + 1], data[off + 2], data[off + 3]);
+  if (data.length < 128 || tag(36) !== 'acsp') throw new Error('Not an ICC profile');
+  // Colour PNGs may only carry RGB profiles.
+  if (tag(16) !== 'RGB ') throw new Error('Only RGB ICC profiles can be embedded in PNG');
+  return { name: file.name.replace(/\.(icc|icm)$/i, ''), data };
+}
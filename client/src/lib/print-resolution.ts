@@ -0,0 +1,28 @@
+import type { ProfileConfig } from './profiles';
+import type { DesignItem } from './types';
+
+export interface ResolutionWarning {
+  dpi: number;
+  // Under the profile's minimum, so downloading needs confirmation (or is blocked).
+  belowMinimum: boolean;
+}
+
+// Source pixels per printed inch; the lower axis wins. SVG designs are vector and sharp at any size.
+export function getEffectiveDpi(design: DesignItem): number {
+  if (design.imageInfo.svgSource && !design.alphaThresholded) return Infinity;
+  const printedWidth = design.widthInches * design.transform.s;
+  const printedHeight = design.heightInches * design.transform.s;
+  return Math.min(design.imageInfo.originalWidth / printedWidth, design.imageInfo.originalHeight / printedHeight);
+}
+
+// Designs printing below the profile's warning threshold, keyed by design id.
+export function getResolutionWarnings(designs: DesignItem[], profile: ProfileConfig): Map<string, ResolutionWarning> {
+  const warnings = new Map<string, ResolutionWarning>();
+  for (const d of designs) {
+    const dpi = getEffectiveDpi(d);
+    if (dpi < profile.lowResWarningDpi) {
+      warnings.set(d.id, { dpi, belowMinimum: dpi < profile.lowResMinimumDpi });
+    }
+  }
+  return warnings;
+}
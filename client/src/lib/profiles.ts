@@ -7,6 +7,11 @@ export interface ProfileConfig {
   gangsheetHeights: number[];
   downloadFormat: 'png' | 'pdf';
   enableFluorescent: boolean;
+  // Effective print DPI under which designs are flagged, and under which downloading asks first.
+  lowResWarningDpi: number;
+  lowResMinimumDpi: number;
+  // Refuse the download outright instead of asking when a design is under the minimum.
+  blockLowResDownload?: boolean;
   description: string;
   comingSoon?: boolean;
 }
@@ -20,6 +25,8 @@ export const HOT_PEEL_PROFILE: ProfileConfig = {
   gangsheetHeights: [12, 18, 24, 35, 40, 45, 48, 50, 55, 60, 65, 70, 80, 85, 95, 110, 120, 130, 140, 150],
   downloadFormat: 'png',
   enableFluorescent: false,
+  lowResWarningDpi: 278,
+  lowResMinimumDpi: 150,
   description: 'Hot peel High Quality Direct to film gangsheets that are perfect to heatpress on any color garment. Heatpress instructions are 275F for 15 seconds, hot/cold peel and repress for another 5-10 seconds.',
 };
 
@@ -32,6 +39,8 @@ export const FLUORESCENT_PROFILE: ProfileConfig = {
   gangsheetHeights: [12, 14, 16, 18],
   downloadFormat: 'pdf',
   enableFluorescent: true,
+  lowResWarningDpi: 278,
+  lowResMinimumDpi: 150,
   description: 'Uv Light Reactive transfers, You select what color from your design you want the flourecent ink printed and watch the magic happen',
   comingSoon: true,
 };
@@ -45,6 +54,8 @@ export const UV_DTF_PROFILE: ProfileConfig = {
   gangsheetHeights: [12, 18, 24, 35, 40, 45, 48, 50, 55, 60, 65, 70, 80, 85, 95, 100],
   downloadFormat: 'png',
   enableFluorescent: false,
+  lowResWarningDpi: 278,
+  lowResMinimumDpi: 150,
   description: 'Perfect UV stickers that go on acrylic, plastic, glass and many hard surfaces. Not dishwasher safe.',
 };
 
@@ -57,6 +68,8 @@ export const SPECIALTY_DTF_PROFILE: ProfileConfig = {
   gangsheetHeights: [12, 18, 24, 35, 40, 45, 48, 50, 55, 60],
   downloadFormat: 'png',
   enableFluorescent: false,
+  lowResWarningDpi: 278,
+  lowResMinimumDpi: 150,
   description: 'Use a parchment paper or teflon sheet over the transfer, press at 325F for 15 seconds and peel completely COLD! will not work on canvas material but it works on cotton/polyester tshirts.',
 };
 
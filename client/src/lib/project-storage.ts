@@ -0,0 +1,249 @@
+import type { ProjectDesign, ProjectImageMeta, ProjectManifest, ProjectSourceMeta, ProjectSummary, SheetGuide } from "@shared/schema";
+import type { DesignItem, ImageInfo } from "./types";
+
+export interface ProjectState {
+  name: string;
+  profileId: string;
+  artboardWidth: number;
+  artboardHeight: number;
+  designGap: number | undefined;
+  // Present when the project spans more than one sheet.
+  sheetHeights?: number[];
+  // Ruler guides of every sheet.
+  guides?: SheetGuide[];
+  designs: DesignItem[];
+}
+
+export interface LoadedProject extends ProjectState {
+  id: number;
+}
+
+export type ProjectListItem = Omit<ProjectSummary, "updatedAt"> & { updatedAt: string };
+
+async function readJson<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let message = res.statusText;
+    try {
+      const body = await res.json();
+      if (body?.error) message = body.error;
+    } catch { /* keep status text */ }
+    throw new Error(`${res.status}: ${message}`);
+  }
+  return res.json();
+}
+
+function canvasBlob(image: HTMLImageElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = image.naturalWidth || image.width;
+    canvas.height = image.naturalHeight || image.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) { reject(new Error("Canvas unavailable")); return; }
+    ctx.drawImage(image, 0, 0);
+    canvas.toBlob(b => b ? resolve(b) : reject(new Error("Failed to encode image")), "image/png");
+  });
+}
+
+// Prefer the image's own bytes (data:/blob: URLs) so saving doesn't re-encode; revoked blob URLs fall back to a canvas.
+async function imageToBlob(image: HTMLImageElement): Promise<Blob> {
+  try {
+    const res = await fetch(image.src);
+    if (res.ok) {
+      const blob = await res.blob();
+      if (blob.type.startsWith("image/")) return blob;
+    }
+  } catch { /* fall through */ }
+  return canvasBlob(image);
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = url;
+  });
+}
+
+export async function listProjects(): Promise<ProjectListItem[]> {
+  const res = await fetch("/api/projects", { credentials: "include" });
+  return readJson<ProjectListItem[]>(res);
+}
+
+export interface SerializedImage {
+  meta: ProjectImageMeta;
+  blob: Blob;
+}
+
+export interface SerializedSource {
+  meta: ProjectSourceMeta;
+  blob: Blob;
+}
+
+// Copies share one ImageInfo, so each source image is serialized once and referenced by id.
+// Pages imported from the same PDF share its bytes, which are stored once as a source.
+export async function serializeDesigns(designs: DesignItem[]): Promise<{ designs: ProjectDesign[]; images: SerializedImage[]; sources: SerializedSource[] }> {
+  const imageIds = new Map<ImageInfo, string>();
+  const images: SerializedImage[] = [];
+  const sourceIds = new Map<ArrayBuffer, string>();
+  const sources: SerializedSource[] = [];
+
+  for (const d of designs) {
+    if (imageIds.has(d.imageInfo)) continue;
+    const imageId = `img${imageIds.size + 1}`;
+    imageIds.set(d.imageInfo, imageId);
+    const pdfData = d.imageInfo.originalPdfData;
+    let sourceId = pdfData ? sourceIds.get(pdfData) : undefined;
+    if (pdfData && !sourceId) {
+      sourceId = `src${sourceIds.size + 1}`;
+      sourceIds.set(pdfData, sourceId);
+      sources.push({
+        meta: { id: sourceId, fileName: d.imageInfo.file.name.replace(/\.[^/.]+$/, "") + ".pdf", mimeType: "application/pdf" },
+        blob: new Blob([pdfData], { type: "application/pdf" }),
+      });
+    }
+    const blob = await imageToBlob(d.imageInfo.image);
+    images.push({
+      meta: {
+        id: imageId,
+        fileName: d.imageInfo.file.name,
+        mimeType: blob.type,
+        originalWidth: d.imageInfo.originalWidth,
+        originalHeight: d.imageInfo.originalHeight,
+        dpi: d.imageInfo.dpi,
+        ...(d.imageInfo.isPDF ? { isPDF: true } : {}),
+        ...(sourceId ? { sourceId, pdfPageIndex: d.imageInfo.pdfPageIndex ?? 0 } : {}),
+      },
+      blob,
+    });
+  }
+
+  return {
+    designs: designs.map(d => ({
+      id: d.id,
+      imageId: imageIds.get(d.imageInfo)!,
+      name: d.name,
+      transform: d.transform,
+      widthInches: d.widthInches,
+      heightInches: d.heightInches,
+      originalDPI: d.originalDPI,
+      ...(d.alphaThresholded ? { alphaThresholded: true } : {}),
+      ...(d.cutline ? { cutline: d.cutline } : {}),
+      ...(d.sheet ? { sheet: d.sheet } : {}),
+      ...(d.copyGroup ? { copyGroup: d.copyGroup } : {}),
+      ...(d.groups?.length ? { groups: d.groups } : {}),
+      ...(d.locked ? { locked: true } : {}),
+      ...(d.hidden ? { hidden: true } : {}),
+    })),
+    images,
+    sources,
+  };
+}
+
+// `sources` maps source ids to PDF bytes already read from the project.
+export async function restoreImageInfo(meta: ProjectImageMeta, blob: Blob, sources?: Map<string, ArrayBuffer>): Promise<ImageInfo> {
+  const pdfData = meta.sourceId ? sources?.get(meta.sourceId) : undefined;
+  const file = new File([blob], meta.fileName, { type: blob.type || meta.mimeType });
+  const image = await loadImage(URL.createObjectURL(file));
+  return {
+    file,
+    image,
+    originalWidth: meta.originalWidth,
+    originalHeight: meta.originalHeight,
+    dpi: meta.dpi,
+    ...(meta.isPDF ? { isPDF: true } : {}),
+    ...(pdfData ? { originalPdfData: pdfData, pdfPageIndex: meta.pdfPageIndex ?? 0 } : {}),
+    ...(file.type === "image/svg+xml" ? { svgSource: await file.text() } : {}),
+  };
+}
+
+export function restoreDesigns(designs: ProjectDesign[], infoById: Map<string, ImageInfo>): DesignItem[] {
+  return designs.flatMap(d => {
+    const imageInfo = infoById.get(d.imageId);
+    if (!imageInfo) return [];
+    return [{
+      id: d.id,
+      imageInfo,
+      transform: d.transform,
+      widthInches: d.widthInches,
+      heightInches: d.heightInches,
+      name: d.name,
+      originalDPI: d.originalDPI,
+      ...(d.alphaThresholded ? { alphaThresholded: true } : {}),
+      ...(d.cutline ? { cutline: d.cutline } : {}),
+      ...(d.sheet ? { sheet: d.sheet } : {}),
+      ...(d.copyGroup ? { copyGroup: d.copyGroup } : {}),
+      ...(d.groups?.length ? { groups: d.groups } : {}),
+      ...(d.locked ? { locked: true } : {}),
+      ...(d.hidden ? { hidden: true } : {}),
+    }];
+  });
+}
+
+export async function saveProject(state: ProjectState, existingId?: number | null): Promise<ProjectListItem> {
+  const { designs, images, sources } = await serializeDesigns(state.designs);
+  const form = new FormData();
+  for (const img of images) {
+    form.append(img.meta.id, img.blob, img.meta.fileName);
+  }
+  for (const src of sources) {
+    form.append(src.meta.id, src.blob, src.meta.fileName);
+  }
+
+  const manifest: ProjectManifest = {
+    name: state.name,
+    profileId: state.profileId,
+    artboardWidth: state.artboardWidth,
+    artboardHeight: state.artboardHeight,
+    designGap: state.designGap ?? null,
+    sheetHeights: state.sheetHeights && state.sheetHeights.length > 1 ? state.sheetHeights : null,
+    guides: state.guides && state.guides.length > 0 ? state.guides : null,
+    designs,
+    images: images.map(img => img.meta),
+    sources: sources.length > 0 ? sources.map(src => src.meta) : null,
+  };
+  form.append("manifest", JSON.stringify(manifest));
+
+  const res = await fetch(existingId ? `/api/projects/${existingId}` : "/api/projects", {
+    method: existingId ? "PUT" : "POST",
+    body: form,
+    credentials: "include",
+  });
+  return readJson<ProjectListItem>(res);
+}
+
+export async function loadProject(id: number): Promise<LoadedProject> {
+  const project = await readJson<Omit<ProjectManifest, "designGap" | "sheetHeights" | "guides"> & { id: number; designGap: number | null; sheetHeights?: number[] | null; guides?: SheetGuide[] | null }>(
+    await fetch(`/api/projects/${id}`, { credentials: "include" }),
+  );
+
+  const sourceById = new Map<string, ArrayBuffer>();
+  await Promise.all((project.sources ?? []).map(async (meta) => {
+    const res = await fetch(`/api/projects/${id}/sources/${encodeURIComponent(meta.id)}`, { credentials: "include" });
+    if (!res.ok) throw new Error(`${res.status}: Failed to load ${meta.fileName}`);
+    sourceById.set(meta.id, await res.arrayBuffer());
+  }));
+
+  const infoById = new Map<string, ImageInfo>();
+  await Promise.all(project.images.map(async (meta) => {
+    const res = await fetch(`/api/projects/${id}/images/${encodeURIComponent(meta.id)}`, { credentials: "include" });
+    if (!res.ok) throw new Error(`${res.status}: Failed to load ${meta.fileName}`);
+    infoById.set(meta.id, await restoreImageInfo(meta, await res.blob(), sourceById));
+  }));
+
+  return {
+    id: project.id,
+    name: project.name,
+    profileId: project.profileId,
+    artboardWidth: project.artboardWidth,
+    artboardHeight: project.artboardHeight,
+    designGap: project.designGap ?? undefined,
+    sheetHeights: project.sheetHeights ?? undefined,
+    guides: project.guides ?? undefined,
+    designs: restoreDesigns(project.designs, infoById),
+  };
+}
+
+export async function deleteProject(id: number): Promise<void> {
+  await readJson<{ success: boolean }>(await fetch(`/api/projects/${id}`, { method: "DELETE", credentials: "include" }));
+}
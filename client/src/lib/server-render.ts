@@ -0,0 +1,83 @@
+import type { JobStatus, RenderLayout } from "@shared/schema";
+import { serializeDesigns } from "./project-storage";
+import type { DesignItem, IccProfile } from "./types";
+
+const PROGRESS_POLL_MS = 1000;
+// Consecutive failed polls tolerated (flaky mobile connections) before giving up on a job.
+const MAX_POLL_FAILURES = 30;
+// A failed job is re-queued this many times before its error is surfaced.
+const MAX_JOB_RETRIES = 1;
+
+export interface ServerRenderOptions {
+  artboardWidth: number;
+  artboardHeight: number;
+  dpi?: number;
+  // Embedded as iCCP; without one the server tags the PNG as sRGB.
+  iccProfile?: IccProfile;
+  // Fraction of the sheet the server has rendered, 0..1.
+  onProgress?: (progress: number) => void;
+}
+
+async function readJson<T>(res: Response): Promise<T> {
+  if (!res.ok) {
+    let message = res.statusText;
+    try {
+      const body = await res.json();
+      if (body?.error) message = body.error;
+    } catch { /* keep status text */ }
+    throw new Error(`${res.status}: ${message}`);
+  }
+  return res.json();
+}
+
+// Composites one sheet with sharp on the server, for devices that can't hold the sheet at full DPI.
+// The render runs as a queued job, so a slow sheet never hits a request timeout.
+export async function renderGangsheetOnServer(designs: DesignItem[], options: ServerRenderOptions): Promise<Blob> {
+  const { designs: serialized, images } = await serializeDesigns(designs);
+  const layout: RenderLayout = {
+    artboardWidth: options.artboardWidth,
+    artboardHeight: options.artboardHeight,
+    dpi: options.dpi ?? 300,
+    designs: serialized.map(d => ({
+      imageId: d.imageId,
+      transform: d.transform,
+      widthInches: d.widthInches,
+      heightInches: d.heightInches,
+      ...(d.alphaThresholded ? { alphaThresholded: true } : {}),
+    })),
+  };
+
+  const form = new FormData();
+  form.append("layout", JSON.stringify(layout));
+  for (const img of images) {
+    form.append(img.meta.id, img.blob, img.meta.fileName);
+  }
+  if (options.iccProfile) {
+    form.append("iccProfile", new Blob([options.iccProfile.data]), `${options.iccProfile.name}.icc`);
+  }
+
+  let job = await readJson<JobStatus>(await fetch("/api/jobs/render-gangsheet", { method: "POST", body: form, credentials: "include" }));
+  let retries = 0;
+  let failedPolls = 0;
+  while (job.status !== "done") {
+    if (job.status === "error") {
+      if (retries >= MAX_JOB_RETRIES) throw new Error(job.error || "Server render failed");
+      retries++;
+      job = await readJson<JobStatus>(await fetch(`/api/jobs/${job.id}/retry`, { method: "POST", credentials: "include" }));
+      continue;
+    }
+    options.onProgress?.(job.percent / 100);
+    await new Promise(r => setTimeout(r, PROGRESS_POLL_MS));
+    try {
+      job = await readJson<JobStatus>(await fetch(`/api/jobs/${job.id}`, { credentials: "include" }));
+      failedPolls = 0;
+    } catch (err) {
+      if (++failedPolls >= MAX_POLL_FAILURES) throw err;
+    }
+  }
+  options.onProgress?.(1);
+
+  const res = await fetch(job.downloadUrl!, { credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: Failed to download rendered sheet`);
+  return res.blob();
+}
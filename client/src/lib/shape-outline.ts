@@ -1,4 +1,5 @@
-import type { ShapeSettings, ResizeSettings } from "@/lib/types";
+import type { ResizeSettings } from "@/lib/types";
+import type { ShapeSettings } from "@/lib/cutline-types";
 import { PDFDocument, PDFName, PDFArray, PDFDict, type PDFImage } from 'pdf-lib';
 import { cropImageToContent } from './image-crop';
 import { simplifyPathForPDF, buildSmoothPdfPath, type SpotColorInput } from './contour-outline';
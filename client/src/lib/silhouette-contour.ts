@@ -1,4 +1,5 @@
-import { StrokeSettings, ResizeSettings, ShapeSettings } from "@/components/image-editor";
+import type { ResizeSettings } from "@/lib/types";
+import type { StrokeSettings, ShapeSettings } from "@/lib/cutline-types";
 import { PDFDocument, PDFPage, rgb, PDFName, PDFArray, PDFDict, PDFStream, PDFRef } from 'pdf-lib';
 import { cropImageToContent } from './image-crop';
 
@@ -0,0 +1,206 @@
+// Smart-guide snapping for a dragged design. Everything is in artboard inches, +y down.
+
+export interface GuideBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// A line the dragged design lines up with: `pos` on `axis`, drawn from `from` to `to` along the other axis.
+export interface AlignmentGuide {
+  kind: 'align';
+  axis: 'x' | 'y';
+  pos: number;
+  from: number;
+  to: number;
+}
+
+// A labelled distance between two edges: spans `from`..`to` on `axis`, drawn at `at` on the other axis.
+export interface SpacingGuide {
+  kind: 'spacing';
+  axis: 'x' | 'y';
+  from: number;
+  to: number;
+  at: number;
+}
+
+export type SmartGuide = AlignmentGuide | SpacingGuide;
+
+export interface SnapResult {
+  dx: number;
+  dy: number;
+  guides: SmartGuide[];
+}
+
+interface Candidate {
+  delta: number;
+  // Guides in terms of the snapped position, built only for the winning delta.
+  guides: (shift: number) => SmartGuide[];
+}
+
+// Candidates within this many inches of the winner are shown alongside it.
+const COINCIDENT_EPSILON = 0.001;
+
+/** Axis-aligned bounds of a design rotated about its center. */
+export function rotatedBounds(cx: number, cy: number, width: number, height: number, rotationDeg: number): GuideBox {
+  const rad = (rotationDeg * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(rad));
+  const sin = Math.abs(Math.sin(rad));
+  const halfW = (width * cos + height * sin) / 2;
+  const halfH = (width * sin + height * cos) / 2;
+  return { left: cx - halfW, top: cy - halfH, right: cx + halfW, bottom: cy + halfH };
+}
+
+// View of a box along one axis, so snapping is written once for x and reused for y.
+interface Span {
+  lo: number;
+  hi: number;
+  crossLo: number;
+  crossHi: number;
+}
+
+function span(box: GuideBox, axis: 'x' | 'y'): Span {
+  return axis === 'x'
+    ? { lo: box.left, hi: box.right, crossLo: box.top, crossHi: box.bottom }
+    : { lo: box.top, hi: box.bottom, crossLo: box.left, crossHi: box.right };
+}
+
+function crossOverlaps(a: Span, b: Span): boolean {
+  return a.crossLo < b.crossHi && b.crossLo < a.crossHi;
+}
+
+function crossMid(a: Span, b: Span): number {
+  return (Math.max(a.crossLo, b.crossLo) + Math.min(a.crossHi, b.crossHi)) / 2;
+}
+
+function snapAxis(moving: Span, others: Span[], userLines: number[], artboardSize: number, artboardCross: number, gap: number, axis: 'x' | 'y', threshold: number): { delta: number; guides: SmartGuide[] } {
+  const candidates: Candidate[] = [];
+  const mid = (moving.lo + moving.hi) / 2;
+  const anchors = [moving.lo, mid, moving.hi];
+
+  // Artboard edges, center, the gap inset that auto-arrange leaves around the sheet, and ruler guides.
+  const artboardLines = [0, artboardSize / 2, artboardSize, ...userLines];
+  if (gap > 0) artboardLines.push(gap, artboardSize - gap);
+  for (const line of artboardLines) {
+    for (const anchor of anchors) {
+      candidates.push({ delta: line - anchor, guides: () => [{ kind: 'align', axis, pos: line, from: 0, to: artboardCross }] });
+    }
+  }
+
+  // Edges and centers of the other designs; the guide runs between the two boxes.
+  for (const other of others) {
+    const lines = [other.lo, (other.lo + other.hi) / 2, other.hi];
+    for (const line of lines) {
+      for (const anchor of anchors) {
+        candidates.push({
+          delta: line - anchor,
+          guides: () => [{ kind: 'align', axis, pos: line, from: Math.min(other.crossLo, moving.crossLo), to: Math.max(other.crossHi, moving.crossHi) }],
+        });
+      }
+    }
+  }
+
+  // Only designs beside the moving one (sharing some of its cross-axis range) count for spacing.
+  const beside = others.filter(o => crossOverlaps(o, moving));
+  const before = beside.filter(o => o.hi <= mid).sort((a, b) => b.hi - a.hi);
+  const after = beside.filter(o => o.lo >= mid).sort((a, b) => a.lo - b.lo);
+
+  // Exactly the configured gap from a neighbour.
+  if (gap > 0) {
+    for (const o of before) {
+      candidates.push({ delta: o.hi + gap - moving.lo, guides: (s) => [{ kind: 'spacing', axis, from: o.hi, to: moving.lo + s, at: crossMid(o, moving) }] });
+    }
+    for (const o of after) {
+      candidates.push({ delta: o.lo - gap - moving.hi, guides: (s) => [{ kind: 'spacing', axis, from: moving.hi + s, to: o.lo, at: crossMid(o, moving) }] });
+    }
+  }
+
+  // Equal spacing: centered between the nearest neighbours on each side...
+  const prev = before[0];
+  const next = after[0];
+  if (prev && next && next.lo > prev.hi) {
+    candidates.push({
+      delta: (prev.hi + next.lo) / 2 - mid,
+      guides: (s) => [
+        { kind: 'spacing', axis, from: prev.hi, to: moving.lo + s, at: crossMid(prev, moving) },
+        { kind: 'spacing', axis, from: moving.hi + s, to: next.lo, at: crossMid(next, moving) },
+      ],
+    });
+  }
+  // ...or continuing the spacing of a pair already on one side.
+  if (prev && before[1] && prev.lo > before[1].hi) {
+    const pair = before[1];
+    const spacing = prev.lo - pair.hi;
+    candidates.push({
+      delta: prev.hi + spacing - moving.lo,
+      guides: (s) => [
+        { kind: 'spacing', axis, from: pair.hi, to: prev.lo, at: crossMid(pair, prev) },
+        { kind: 'spacing', axis, from: prev.hi, to: moving.lo + s, at: crossMid(prev, moving) },
+      ],
+    });
+  }
+  if (next && after[1] && after[1].lo > next.hi) {
+    const pair = after[1];
+    const spacing = pair.lo - next.hi;
+    candidates.push({
+      delta: next.lo - spacing - moving.hi,
+      guides: (s) => [
+        { kind: 'spacing', axis, from: moving.hi + s, to: next.lo, at: crossMid(next, moving) },
+        { kind: 'spacing', axis, from: next.hi, to: pair.lo, at: crossMid(next, pair) },
+      ],
+    });
+  }
+
+  let best: Candidate | null = null;
+  for (const c of candidates) {
+    if (Math.abs(c.delta) < threshold && (!best || Math.abs(c.delta) < Math.abs(best.delta))) best = c;
+  }
+  if (!best) return { delta: 0, guides: [] };
+  const delta = best.delta;
+  const guides = candidates
+    .filter(c => Math.abs(c.delta - delta) < COINCIDENT_EPSILON)
+    .flatMap(c => c.guides(delta));
+  return { delta, guides };
+}
+
+// Several targets often share one line (e.g. tops of a row); draw it once across all of them.
+function mergeAlignmentGuides(guides: SmartGuide[]): SmartGuide[] {
+  const merged: SmartGuide[] = [];
+  for (const guide of guides) {
+    const existing = guide.kind === 'align'
+      ? merged.find((g): g is AlignmentGuide => g.kind === 'align' && g.axis === guide.axis && Math.abs(g.pos - guide.pos) < COINCIDENT_EPSILON)
+      : undefined;
+    if (existing && guide.kind === 'align') {
+      existing.from = Math.min(existing.from, guide.from);
+      existing.to = Math.max(existing.to, guide.to);
+    } else {
+      merged.push(guide);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Snaps a dragged design's rotated bounds to the artboard, to other designs' edges and centers,
+ * to `gap` from a neighbour, and to equal spacing between neighbours. x is snapped first and y
+ * against the x-snapped box; `threshold` is in inches. `userGuides` are ruler guide positions.
+ */
+export function computeSmartGuides(
+  moving: GuideBox,
+  others: GuideBox[],
+  artboardWidth: number,
+  artboardHeight: number,
+  gap: number,
+  threshold: number,
+  userGuides: { x: number[]; y: number[] } = { x: [], y: [] },
+): SnapResult {
+  const x = snapAxis(span(moving, 'x'), others.map(o => span(o, 'x')), userGuides.x, artboardWidth, artboardHeight, gap, 'x', threshold);
+  const shifted = { ...moving, left: moving.left + x.delta, right: moving.right + x.delta };
+  const y = snapAxis(span(shifted, 'y'), others.map(o => span(o, 'y')), userGuides.y, artboardHeight, artboardWidth, gap, 'y', threshold);
+
+  // Rebuild the x guides from the final box so their cross-axis extents include the y snap.
+  const snapped = { ...shifted, top: shifted.top + y.delta, bottom: shifted.bottom + y.delta };
+  const xGuides = snapAxis(span(snapped, 'x'), others.map(o => span(o, 'x')), userGuides.x, artboardWidth, artboardHeight, gap, 'x', COINCIDENT_EPSILON).guides;
+  return { dx: x.delta, dy: y.delta, guides: mergeAlignmentGuides([...xGuides, ...y.guides]) };
+}
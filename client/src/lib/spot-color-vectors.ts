@@ -307,8 +307,14 @@ export async function addSpotColorVectorsToPDF(
     }
   }
 
-  if (ocgRefs.length === 0) return addedLabels;
+  registerOptionalContentGroups(pdfDoc, ocgRefs);
+  return addedLabels;
+}
 
+function registerOptionalContentGroups(pdfDoc: PDFDocument, ocgRefs: any[]): void {
+  if (ocgRefs.length === 0) return;
+
+  const context = pdfDoc.context;
   const catalog = pdfDoc.catalog;
   let ocProperties = catalog.get(PDFName.of('OCProperties'));
   if (!ocProperties) {
@@ -335,6 +341,72 @@ export async function addSpotColorVectorsToPDF(
       }
     }
   }
+}
 
-  return addedLabels;
+/**
+ * Add cut paths (artboard inches, Y-down) as hairline strokes on a CutContour
+ * Separation colorspace inside their own OCG, so print-and-cut RIPs can find them.
+ */
+export function addCutContourToPDF(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  paths: Point[][],
+  pageHeightInches: number,
+  label: string = 'CutContour',
+): void {
+  const validPaths = paths.filter(p => p.length >= 3);
+  if (validPaths.length === 0) return;
+
+  const context = pdfDoc.context;
+  const tintFunctionRef = context.register(context.obj({
+    FunctionType: 2,
+    Domain: [0, 1],
+    C0: [0, 0, 0, 0],
+    C1: [0, 1, 0, 0],
+    N: 1,
+  }));
+  const separationRef = context.register(context.obj([
+    PDFName.of('Separation'),
+    PDFName.of(label),
+    PDFName.of('DeviceCMYK'),
+    tintFunctionRef,
+  ]));
+  const ocgRef = context.register(context.obj({
+    Type: PDFName.of('OCG'),
+    Name: PDFHexString.fromText(label),
+  }));
+
+  let pageResources = page.node.Resources();
+  if (!pageResources) {
+    pageResources = context.obj({});
+    page.node.set(PDFName.of('Resources'), pageResources);
+  }
+  let colorSpaceDict = pageResources.get(PDFName.of('ColorSpace'));
+  if (!colorSpaceDict) {
+    colorSpaceDict = context.obj({});
+    (pageResources as PDFDict).set(PDFName.of('ColorSpace'), colorSpaceDict);
+  }
+  (colorSpaceDict as PDFDict).set(PDFName.of(label), separationRef);
+  let propertiesDict = pageResources.get(PDFName.of('Properties'));
+  if (!propertiesDict) {
+    propertiesDict = context.obj({});
+    (pageResources as PDFDict).set(PDFName.of('Properties'), propertiesDict);
+  }
+  const ocgTag = `OC_${label.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  (propertiesDict as PDFDict).set(PDFName.of(ocgTag), ocgRef);
+
+  let ops = `/OC /${ocgTag} BDC\nq\n`;
+  ops += `/${label} CS 1 SCN\n0.5 w\n`;
+  for (const path of validPaths) {
+    const pts = path.map(p => ({ x: p.x * 72, y: (pageHeightInches - p.y) * 72 }));
+    ops += `${pts[0].x.toFixed(4)} ${pts[0].y.toFixed(4)} m\n`;
+    for (let j = 1; j < pts.length; j++) {
+      ops += `${pts[j].x.toFixed(4)} ${pts[j].y.toFixed(4)} l\n`;
+    }
+    ops += 'h\n';
+  }
+  ops += 'S\nQ\nEMC\n';
+
+  appendContentStream(page, context, ops);
+  registerOptionalContentGroups(pdfDoc, [ocgRef]);
 }
@@ -0,0 +1,78 @@
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// CSS pixels per unit; SVG lengths without a unit are user units, which are CSS pixels.
+const CSS_PX_PER_UNIT: Record<string, number> = { '': 1, px: 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pt: 96 / 72, pc: 16 };
+const IMPORT_DPI = 300;
+// Longest side of the pixel size the markup is declared at; very large artwork gets a lower nominal DPI.
+const MAX_IMPORT_PIXELS = 8000;
+
+export interface ParsedSVGData {
+  image: HTMLImageElement;
+  // Normalized markup: explicit pixel width/height at `dpi` and a viewBox, so it scales cleanly.
+  svgSource: string;
+  dpi: number;
+}
+
+export function isSVGFile(file: File): boolean {
+  return file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+}
+
+// Returns a length in CSS pixels, or null for percentages, font-relative units and garbage.
+function parseLength(value: string | null): number | null {
+  if (!value) return null;
+  const match = value.trim().match(/^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z]*)$/i);
+  if (!match) return null;
+  const perUnit = CSS_PX_PER_UNIT[match[2].toLowerCase()];
+  const px = parseFloat(match[1]) * (perUnit ?? NaN);
+  return Number.isFinite(px) && px > 0 ? px : null;
+}
+
+function parseViewBox(value: string | null): { width: number; height: number } | null {
+  const parts = value?.trim().split(/[\s,]+/).map(Number);
+  if (!parts || parts.length !== 4 || !parts.every(Number.isFinite) || parts[2] <= 0 || parts[3] <= 0) return null;
+  return { width: parts[2], height: parts[3] };
+}
+
+function loadImageFromBlob(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error('Failed to load SVG image')); };
+    img.src = url;
+  });
+}
+
+/**
+ * Reads an SVG's physical size (96 px per inch, as browsers and Illustrator do) and rewrites its
+ * root so it declares that size in pixels at the import DPI. The image stays vector: canvases
+ * draw it at whatever size is asked for, so the preview and the exporters rasterize it fresh.
+ */
+export async function parseSVG(file: File): Promise<ParsedSVGData> {
+  const doc = new DOMParser().parseFromString(await file.text(), 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg' || root.namespaceURI !== SVG_NS) {
+    throw new Error('Not a valid SVG file');
+  }
+
+  const viewBox = parseViewBox(root.getAttribute('viewBox'));
+  let widthPx = parseLength(root.getAttribute('width'));
+  let heightPx = parseLength(root.getAttribute('height'));
+  if (viewBox) {
+    if (widthPx && !heightPx) heightPx = widthPx * viewBox.height / viewBox.width;
+    else if (heightPx && !widthPx) widthPx = heightPx * viewBox.width / viewBox.height;
+    else if (!widthPx && !heightPx) { widthPx = viewBox.width; heightPx = viewBox.height; }
+  }
+  if (!widthPx || !heightPx) throw new Error('SVG has no width, height or viewBox');
+
+  // Without a viewBox the content is laid out in the original user space, so pin that before resizing.
+  if (!viewBox) root.setAttribute('viewBox', `0 0 ${widthPx} ${heightPx}`);
+  const widthInches = widthPx / 96;
+  const heightInches = heightPx / 96;
+  const dpi = Math.min(IMPORT_DPI, MAX_IMPORT_PIXELS / Math.max(widthInches, heightInches));
+  root.setAttribute('width', String(Math.max(1, Math.round(widthInches * dpi))));
+  root.setAttribute('height', String(Math.max(1, Math.round(heightInches * dpi))));
+
+  const svgSource = new XMLSerializer().serializeToString(doc);
+  const image = await loadImageFromBlob(new Blob([svgSource], { type: 'image/svg+xml' }));
+  return { image, svgSource, dpi };
+}
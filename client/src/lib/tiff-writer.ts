@@ -0,0 +1,120 @@
+import type { IccProfile } from './types';
+
+// Classic TIFF addresses everything with 32-bit offsets.
+const MAX_TIFF_BYTES = 0xFFFFFFFF;
+
+// IFD field types and their sizes in bytes.
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const UNDEFINED = 7;
+type FieldType = typeof SHORT | typeof LONG | typeof RATIONAL | typeof UNDEFINED;
+
+const FIELD_SIZE: Record<FieldType, number> = { [SHORT]: 2, [LONG]: 4, [RATIONAL]: 8, [UNDEFINED]: 1 };
+
+interface IfdEntry {
+  tag: number;
+  type: FieldType;
+  // RATIONAL values are listed as numerator, denominator pairs.
+  values: number[] | Uint8Array;
+}
+
+export interface TiffImageOptions {
+  width: number;
+  height: number;
+  rowsPerStrip: number;
+  dpi: number;
+  iccProfile?: IccProfile;
+}
+
+function entryCount(entry: IfdEntry): number {
+  return entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length;
+}
+
+function writeValues(dv: DataView, offset: number, entry: IfdEntry) {
+  const { type, values } = entry;
+  if (values instanceof Uint8Array) {
+    new Uint8Array(dv.buffer, dv.byteOffset + offset, values.length).set(values);
+    return;
+  }
+  values.forEach((v, i) => {
+    if (type === SHORT) dv.setUint16(offset + i * 2, v, true);
+    else dv.setUint32(offset + i * 4, v, true);
+  });
+}
+
+/**
+ * Wraps Deflate-compressed strips (one zlib stream each, top to bottom) in a little-endian,
+ * striped RGBA TIFF. Strip data comes first so the directory can be written once every
+ * strip's size is known.
+ */
+export function buildTiff(strips: Uint8Array[], options: TiffImageOptions): Blob {
+  const { width, height, rowsPerStrip, dpi, iccProfile } = options;
+
+  const stripOffsets: number[] = [];
+  let offset = 8;
+  for (const strip of strips) {
+    stripOffsets.push(offset);
+    offset += strip.length;
+  }
+  const dataPad = offset & 1;
+  const ifdOffset = offset + dataPad;
+
+  // Resolution is stored as a rational so fractional (fallback) DPI survives.
+  const resolution = [Math.round(dpi * 100), 100];
+  const entries: IfdEntry[] = [
+    { tag: 256, type: LONG, values: [width] },               // ImageWidth
+    { tag: 257, type: LONG, values: [height] },              // ImageLength
+    { tag: 258, type: SHORT, values: [8, 8, 8, 8] },         // BitsPerSample
+    { tag: 259, type: SHORT, values: [8] },                  // Compression: Deflate
+    { tag: 262, type: SHORT, values: [2] },                  // PhotometricInterpretation: RGB
+    { tag: 273, type: LONG, values: stripOffsets },          // StripOffsets
+    { tag: 277, type: SHORT, values: [4] },                  // SamplesPerPixel
+    { tag: 278, type: LONG, values: [rowsPerStrip] },        // RowsPerStrip
+    { tag: 279, type: LONG, values: strips.map(s => s.length) }, // StripByteCounts
+    { tag: 282, type: RATIONAL, values: resolution },        // XResolution
+    { tag: 283, type: RATIONAL, values: resolution },        // YResolution
+    { tag: 284, type: SHORT, values: [1] },                  // PlanarConfiguration: chunky
+    { tag: 296, type: SHORT, values: [2] },                  // ResolutionUnit: inch
+    { tag: 338, type: SHORT, values: [2] },                  // ExtraSamples: unassociated alpha
+  ];
+  if (iccProfile) entries.push({ tag: 34675, type: UNDEFINED, values: iccProfile.data }); // InterColorProfile
+
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let overflowSize = 0;
+  const overflowOffsets = entries.map(entry => {
+    const bytes = entryCount(entry) * FIELD_SIZE[entry.type];
+    if (bytes <= 4) return -1;
+    const at = ifdOffset + ifdSize + overflowSize;
+    overflowSize += bytes + (bytes & 1);
+    return at;
+  });
+  if (ifdOffset + ifdSize + overflowSize > MAX_TIFF_BYTES) {
+    throw new Error('Sheet is too large for a TIFF file (over 4 GB compressed). Try PNG or a lower DPI.');
+  }
+
+  const header = new Uint8Array(8);
+  const headerDv = new DataView(header.buffer);
+  header[0] = 0x49; header[1] = 0x49; // "II": little-endian
+  headerDv.setUint16(2, 42, true);
+  headerDv.setUint32(4, ifdOffset, true);
+
+  const ifd = new Uint8Array(dataPad + ifdSize + overflowSize);
+  const dv = new DataView(ifd.buffer, dataPad);
+  dv.setUint16(0, entries.length, true);
+  entries.forEach((entry, i) => {
+    const at = 2 + i * 12;
+    dv.setUint16(at, entry.tag, true);
+    dv.setUint16(at + 2, entry.type, true);
+    dv.setUint32(at + 4, entryCount(entry), true);
+    if (overflowOffsets[i] < 0) {
+      writeValues(dv, at + 8, entry);
+    } else {
+      dv.setUint32(at + 8, overflowOffsets[i], true);
+      writeValues(dv, overflowOffsets[i] - ifdOffset, entry);
+    }
+  });
+  dv.setUint32(2 + entries.length * 12, 0, true); // no further IFDs
+
+  return new Blob([header, ...strips, ifd], { type: 'image/tiff' });
+}
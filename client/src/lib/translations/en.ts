@@ -48,6 +48,13 @@ export const en: Record<string, string> = {
   "editor.marginAuto": "Auto",
   "editor.marginGap": "Gap between designs (inches)",
   "editor.marginGapCm": "Gap between designs (cm)",
+  "editor.nesting": "Fit:",
+  "editor.nestingTitle": "Pack by bounding box or nest by design shape, rotating in the chosen steps",
+  "editor.nestingBoxes": "Boxes",
+  "editor.nestingAngled": "Boxes {step}°",
+  "editor.nestingShapes": "Shapes {step}°",
+  "editor.autoHeight": "Auto height",
+  "editor.autoHeightTitle": "Auto-arrange picks the smallest sheet height that fits all designs, adding sheets when one is not enough",
   "editor.widthTitle": "Width (inches)",
   "editor.widthTitleCm": "Width (cm)",
   "editor.heightTitle": "Height (inches)",
@@ -60,9 +67,39 @@ export const en: Record<string, string> = {
   "editor.alignTR": "Align Top Right",
   "editor.alignBL": "Align Bottom Left",
   "editor.alignBR": "Align Bottom Right",
+  "editor.align": "Align",
+  "editor.alignToSelection": "Selection",
+  "editor.alignToArtboard": "Artboard",
+  "editor.alignLeft": "Align Left",
+  "editor.alignCenter": "Align Horizontal Centers",
+  "editor.alignRight": "Align Right",
+  "editor.alignTop": "Align Top",
+  "editor.alignMiddle": "Align Vertical Centers",
+  "editor.alignBottom": "Align Bottom",
+  "editor.distribute": "Distribute & Pack",
+  "editor.distributeGapsH": "Distribute Horizontal Spacing",
+  "editor.distributeCentersH": "Distribute Horizontal Centers",
+  "editor.distributeGapsV": "Distribute Vertical Spacing",
+  "editor.distributeCentersV": "Distribute Vertical Centers",
+  "editor.packH": "Pack Horizontally to Gap",
+  "editor.packV": "Pack Vertically to Gap",
+  "editor.group": "Group",
+  "editor.ungroup": "Ungroup",
+  "editor.groupName": "Group {n}",
+  "editor.expandGroup": "Expand group",
+  "editor.collapseGroup": "Collapse group",
+  "editor.bringToFront": "Bring to Front",
+  "editor.bringForward": "Bring Forward",
+  "editor.sendBackward": "Send Backward",
+  "editor.sendToBack": "Send to Back",
+  "editor.lock": "Lock",
+  "editor.unlock": "Unlock",
+  "editor.hide": "Hide",
+  "editor.show": "Show",
   "editor.duplicate": "Duplicate (Ctrl+D)",
   "editor.delete": "Delete (Del)",
   "editor.cleanAlpha": "Clean Alpha",
+  "editor.upscale": "Upscale…",
   "editor.cleanAlphaTitle": "Remove Semi Transparencies from selected design(s)",
   "editor.crop": "Crop",
   "editor.cropTitle": "Crop Image",
@@ -77,7 +114,17 @@ export const en: Record<string, string> = {
   "editor.deselect": "Deselect",
   "editor.removeOne": "Remove one copy",
   "editor.addOneMore": "Add one more copy",
+  "editor.quantityTitle": "Quantity: number of copies of this design",
+  "editor.fillRemaining": "Fill remaining space",
   "editor.resized": "(resized)",
+  "editor.cutline": "Cutline",
+  "editor.cutlineTitle": "Show or hide a cut contour around the selected design(s)",
+  "editor.cutlineOffset": "Cutline offset from the artwork",
+  "editor.cutlineMode": "Cutline shape",
+  "editor.cutlineSmooth": "Sharp",
+  "editor.cutlineScattered": "Rounded",
+  "editor.cutlineAlgorithm": "Cutline algorithm",
+  "editor.cutlineAlgorithmDefault": "Standard",
 
   "upload.makeGangsheet": "Make a Gangsheet",
   "upload.preferredFormat": "Preferred format",
@@ -91,6 +138,11 @@ export const en: Record<string, string> = {
   "controls.uploadFirst": "Upload an image first",
   "controls.recommended": "Recommended",
   "controls.currentBounds": "current bounds",
+  "controls.exportDpi": "Print resolution",
+  "controls.iccAttach": "+ ICC profile",
+  "controls.iccProfileTitle": "ICC profile embedded in the PNG export",
+  "controls.iccRemove": "Remove ICC profile",
+  "controls.rasterFormatTitle": "Output file format",
 
   "controls.fluorColors": "Fluorescent Colors",
   "controls.assigned": "{count} assigned",
@@ -110,7 +162,7 @@ export const en: Record<string, string> = {
   "controls.fluorGreen": "Fluorescent Green",
 
   "toast.unsupportedFormat": "Unsupported format",
-  "toast.unsupportedFormatDesc": "Please upload a PNG, JPEG, WebP, or PDF file.",
+  "toast.unsupportedFormatDesc": "Please upload a PNG, JPEG, WebP, SVG, PDF, AI or EPS file.",
   "toast.solidBg": "Solid background detected",
   "toast.solidBgDesc": "This image has no transparent background. For best print results, remove the background first.",
   "toast.failedLoad": "Failed to load image",
@@ -119,20 +171,32 @@ export const en: Record<string, string> = {
   "toast.copiedPlural": "Copied {count} designs",
   "toast.noSpace": "No space to arrange",
   "toast.noSpaceDesc": "New duplicate placed next to selected. Expand gangsheet or move designs to fit.",
+  "toast.filledCopies": "Added {count} copies",
+  "toast.filledCopiesDesc": "Copies of {name} now fill the free space on this sheet.",
+  "toast.fillNoRoom": "No room left",
+  "toast.fillNoRoomDesc": "There is no free space on this sheet for another copy.",
   "toast.autoArranged": "Auto-arranged",
   "toast.autoArrangedDesc": "Designs rotated for optimal fit.",
   "toast.arrangeUnavailable": "Arranging selection unavailable",
   "toast.arrangeUnavailableDesc": "Please refresh the page and try again.",
+  "toast.arrangeFailed": "Auto-arrange failed",
+  "toast.arrangeFailedDesc": "A design's outline couldn't be traced. Try again, or turn off nesting and angled arrange.",
   "toast.gangsheetExpanded": "Gangsheet expanded",
   "toast.gangsheetExpandedDesc": "Sheet size auto-expanded to {dimensions} to fit your design.",
   "toast.gangsheetMax": "Gangsheet expanded to maximum",
   "toast.gangsheetMaxDesc": "Sheet expanded to {dimensions}. Design will be scaled to fit.",
+  "toast.sheetHeightFitted": "Sheet size fitted",
+  "toast.sheetHeightFittedDesc": "Switched to the smallest sheet that fits everything: {dimensions}.",
+  "toast.sheetsSplit": "Split across {count} sheets",
+  "toast.sheetsSplitDesc": "Designs didn't fit on one sheet, so they were spread over {count} sheets. The last sheet is {dimensions}.",
   "toast.imageResized": "Image resized to fit",
   "toast.imageResizedDesc": "Your image ({origDims}) was too large for the gangsheet and has been scaled down to {fitDims}.",
   "toast.lowRes": "Low Resolution Warning",
   "toast.lowResDesc": "This image is approximately {dpi} DPI at the current size. For best print quality, we recommend at least 300 DPI. The image might come out low resolution.",
   "toast.cropApplied": "Image cropped",
   "toast.cropAppliedDesc": "The selected area has been cropped.",
+  "toast.upscaleApplied": "Upscale applied",
+  "toast.upscaleAppliedDesc": "The design is now {width} × {height} px.",
   "toast.gangsheetDetected": "Gangsheet detected",
   "toast.gangsheetDetectedDesc": "Image matches artboard size — using at full size. Add more designs on top.",
   "toast.imageTooLarge": "Image too large",
@@ -144,7 +208,11 @@ export const en: Record<string, string> = {
   "toast.pdfFailed": "Failed to parse PDF",
   "toast.pdfFailedDesc": "The file could not be read. Please try a different PDF.",
   "toast.pdfFailedShort": "Could not read this file.",
-  "toast.formatOnly": "PNG, JPEG, WebP, or PDF only.",
+  "toast.aiFailedDesc": "Illustrator files must be saved with \"Create PDF Compatible File\" turned on.",
+  "toast.epsFailedDesc": "The EPS file could not be converted. Try exporting it as a PDF.",
+  "toast.svgFailed": "Failed to read SVG",
+  "toast.svgFailedDesc": "The SVG could not be read. Make sure it has a width and height or a viewBox.",
+  "toast.formatOnly": "PNG, JPEG, WebP, SVG, PDF, AI or EPS only.",
   "toast.failedLoadFile": "Could not load {name}.",
   "toast.alphaFailed": "Alpha threshold failed",
   "toast.alphaFailedDesc": "Could not process the image(s).",
@@ -156,9 +224,68 @@ export const en: Record<string, string> = {
   "toast.noDesigns": "No designs on artboard",
   "toast.noDesignsDesc": "Upload an image first.",
   "toast.largeSheet": "Large sheet detected",
-  "toast.largeSheetDesc": "Exporting at {dpi} DPI (upgrade browser for full 300 DPI).",
+  "toast.largeSheetDesc": "Exporting at {dpi} DPI (upgrade browser for full {target} DPI).",
+  "toast.iccInvalid": "Invalid ICC profile",
+  "toast.tiffUnsupported": "TIFF export isn't supported in this browser. Download a PNG instead.",
+  "toast.serverRender": "Rendering on the server",
+  "toast.serverRenderDesc": "Building your full {dpi} DPI sheet… {percent}%",
   "toast.downloadFailed": "Download failed",
   "toast.downloadFailedDesc": "Please try again.",
+  "toast.projectSaved": "Project saved",
+  "toast.projectSavedDesc": "\"{name}\" was saved.",
+  "toast.projectSaveFailed": "Could not save project",
+  "toast.projectLoaded": "Project opened",
+  "toast.projectLoadedDesc": "\"{name}\" was loaded.",
+  "toast.projectLoadFailed": "Could not open project",
+  "toast.projectOtherProfile": "\"{name}\" was made for a different product; check the sheet size before printing.",
+
+  "project.title": "Projects",
+  "project.name": "Project name",
+  "project.namePlaceholder": "My gangsheet",
+  "project.save": "Save",
+  "project.saveNew": "Save project",
+  "project.saveAsNew": "Save as new",
+  "project.saved": "Saved projects",
+  "project.none": "No saved projects yet.",
+  "project.open": "Open project",
+  "project.openSaved": "Open a saved project",
+  "project.delete": "Delete project",
+  "project.close": "Close",
+  "project.loadFailed": "Could not load projects.",
+  "project.deleteFailed": "Could not delete project.",
+  "project.exportFile": ".gangsheet",
+  "project.exportFileTitle": "Download this layout as a portable .gangsheet file",
+
+  "pdfPages.title": "Choose pages",
+  "pdfPages.subtitle": "{name} · {count} pages",
+  "pdfPages.page": "Page {page}",
+  "pdfPages.selectAll": "Select all",
+  "pdfPages.selectNone": "Select none",
+  "pdfPages.cancel": "Cancel",
+  "pdfPages.addOne": "Add 1 page",
+  "pdfPages.addMany": "Add {count} pages",
+
+  "lowRes.title": "Low resolution designs",
+  "lowRes.confirmDesc": "These designs print below {dpi} DPI at their current size and may look blurry or pixelated.",
+  "lowRes.blockedDesc": "These designs print below {dpi} DPI at their current size. Make them smaller or upload higher resolution files to download.",
+  "lowRes.dpi": "{dpi} DPI",
+  "lowRes.layerTitle": "About {dpi} DPI at this size",
+  "lowRes.layerUpscaleTitle": "About {dpi} DPI at this size. Click to upscale",
+  "lowRes.cancel": "Cancel",
+  "lowRes.close": "Close",
+  "lowRes.downloadAnyway": "Download anyway",
+
+  "upscale.title": "Upscale image",
+  "upscale.desc": "Enlarge a low-resolution design locally. Drag the previews or click the thumbnail to inspect a detail.",
+  "upscale.smooth": "Photo / artwork",
+  "upscale.pixelArt": "Pixel art",
+  "upscale.sharpen": "Sharpen",
+  "upscale.before": "Before: {width} × {height} px, {dpi} DPI",
+  "upscale.after": "After: {width} × {height} px, {dpi} DPI",
+  "upscale.failed": "Upscale failed",
+  "upscale.tooLarge": "This image is already too large to upscale.",
+  "upscale.cancel": "Cancel",
+  "upscale.apply": "Apply {factor}×",
 
   "resize.modalTitle": "Set sticker size",
   "resize.modalSubtitle": "longest side in inches",
@@ -177,8 +304,17 @@ export const en: Record<string, string> = {
   "preview.reset": "Reset",
   "preview.move": "Move",
   "preview.moveMode": "Move mode — click to select and drag designs when zoomed in",
+  "preview.sheet": "Sheet {n}",
+  "preview.sheetOf": "Sheet {n} of {total}",
   "preview.focus": "Focus",
   "preview.focusTitle": "Zoom in closely on the selected design",
+  "preview.rulers": "Rulers",
+  "preview.rulersTitle": "Show rulers and guides. Drag from a ruler to add a guide",
+  "preview.rulerTitle": "Drag onto the artboard to add a guide",
+  "preview.guideTitle": "Drag to move. Drag back onto a ruler to remove",
+  "preview.guideRemove": "Remove guide",
+  "preview.measure": "Measure",
+  "preview.measureTitle": "Measure distance and angle. Drag on the artboard; hold Shift for 45° steps",
 
   "error.title": "Something went wrong",
   "error.desc": "An unexpected error occurred. Your work may still be recoverable.",
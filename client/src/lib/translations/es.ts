@@ -48,6 +48,13 @@ export const es: Record<string, string> = {
   "editor.marginAuto": "Auto",
   "editor.marginGap": "Espacio entre diseños (pulgadas)",
   "editor.marginGapCm": "Espacio entre diseños (cm)",
+  "editor.nesting": "Ajuste:",
+  "editor.nestingTitle": "Empaquetar por caja o anidar por la forma del diseño, girando en los pasos elegidos",
+  "editor.nestingBoxes": "Cajas",
+  "editor.nestingAngled": "Cajas {step}°",
+  "editor.nestingShapes": "Formas {step}°",
+  "editor.autoHeight": "Altura auto",
+  "editor.autoHeightTitle": "Auto-organizar elige la altura de hoja más pequeña donde caben todos los diseños y añade hojas si una no basta",
   "editor.widthTitle": "Ancho (pulgadas)",
   "editor.widthTitleCm": "Ancho (cm)",
   "editor.heightTitle": "Alto (pulgadas)",
@@ -60,9 +67,39 @@ export const es: Record<string, string> = {
   "editor.alignTR": "Alinear Arriba Derecha",
   "editor.alignBL": "Alinear Abajo Izquierda",
   "editor.alignBR": "Alinear Abajo Derecha",
+  "editor.align": "Alinear",
+  "editor.alignToSelection": "Selección",
+  "editor.alignToArtboard": "Mesa de trabajo",
+  "editor.alignLeft": "Alinear a la Izquierda",
+  "editor.alignCenter": "Alinear Centros Horizontales",
+  "editor.alignRight": "Alinear a la Derecha",
+  "editor.alignTop": "Alinear Arriba",
+  "editor.alignMiddle": "Alinear Centros Verticales",
+  "editor.alignBottom": "Alinear Abajo",
+  "editor.distribute": "Distribuir y Compactar",
+  "editor.distributeGapsH": "Distribuir Espaciado Horizontal",
+  "editor.distributeCentersH": "Distribuir Centros Horizontales",
+  "editor.distributeGapsV": "Distribuir Espaciado Vertical",
+  "editor.distributeCentersV": "Distribuir Centros Verticales",
+  "editor.packH": "Compactar Horizontalmente al Espacio",
+  "editor.packV": "Compactar Verticalmente al Espacio",
+  "editor.group": "Agrupar",
+  "editor.ungroup": "Desagrupar",
+  "editor.groupName": "Grupo {n}",
+  "editor.expandGroup": "Expandir grupo",
+  "editor.collapseGroup": "Contraer grupo",
+  "editor.bringToFront": "Traer al frente",
+  "editor.bringForward": "Traer adelante",
+  "editor.sendBackward": "Enviar atrás",
+  "editor.sendToBack": "Enviar al fondo",
+  "editor.lock": "Bloquear",
+  "editor.unlock": "Desbloquear",
+  "editor.hide": "Ocultar",
+  "editor.show": "Mostrar",
   "editor.duplicate": "Duplicar (Ctrl+D)",
   "editor.delete": "Eliminar (Del)",
   "editor.cleanAlpha": "Limpiar Alfa",
+  "editor.upscale": "Ampliar…",
   "editor.cleanAlphaTitle": "Eliminar semi-transparencias de los diseños seleccionados",
   "editor.crop": "Recortar",
   "editor.cropTitle": "Recortar imagen",
@@ -77,7 +114,17 @@ export const es: Record<string, string> = {
   "editor.deselect": "Deseleccionar",
   "editor.removeOne": "Eliminar una copia",
   "editor.addOneMore": "Agregar una copia más",
+  "editor.quantityTitle": "Cantidad: número de copias de este diseño",
+  "editor.fillRemaining": "Llenar espacio restante",
   "editor.resized": "(redimensionado)",
+  "editor.cutline": "Línea de corte",
+  "editor.cutlineTitle": "Mostrar u ocultar un contorno de corte alrededor de los diseños seleccionados",
+  "editor.cutlineOffset": "Separación de la línea de corte respecto al diseño",
+  "editor.cutlineMode": "Forma de la línea de corte",
+  "editor.cutlineSmooth": "Nítida",
+  "editor.cutlineScattered": "Redondeada",
+  "editor.cutlineAlgorithm": "Algoritmo de la línea de corte",
+  "editor.cutlineAlgorithmDefault": "Estándar",
 
   "upload.makeGangsheet": "Crear una Hoja de Diseños",
   "upload.preferredFormat": "Formato preferido",
@@ -91,6 +138,11 @@ export const es: Record<string, string> = {
   "controls.uploadFirst": "Sube una imagen primero",
   "controls.recommended": "Recomendado",
   "controls.currentBounds": "límites actuales",
+  "controls.exportDpi": "Resolución de impresión",
+  "controls.iccAttach": "+ perfil ICC",
+  "controls.iccProfileTitle": "Perfil ICC incrustado en la exportación PNG",
+  "controls.iccRemove": "Quitar perfil ICC",
+  "controls.rasterFormatTitle": "Formato del archivo de salida",
 
   "controls.fluorColors": "Colores Fluorescentes",
   "controls.assigned": "{count} asignado(s)",
@@ -110,7 +162,7 @@ export const es: Record<string, string> = {
   "controls.fluorGreen": "Verde Fluorescente",
 
   "toast.unsupportedFormat": "Formato no compatible",
-  "toast.unsupportedFormatDesc": "Por favor sube un archivo PNG, JPEG, WebP o PDF.",
+  "toast.unsupportedFormatDesc": "Por favor sube un archivo PNG, JPEG, WebP, SVG, PDF, AI o EPS.",
   "toast.solidBg": "Fondo sólido detectado",
   "toast.solidBgDesc": "Esta imagen no tiene fondo transparente. Para mejores resultados, elimina el fondo primero.",
   "toast.failedLoad": "Error al cargar imagen",
@@ -119,20 +171,32 @@ export const es: Record<string, string> = {
   "toast.copiedPlural": "Se copiaron {count} diseños",
   "toast.noSpace": "Sin espacio para organizar",
   "toast.noSpaceDesc": "El duplicado se colocó junto al seleccionado. Expande la hoja o mueve los diseños.",
+  "toast.filledCopies": "Se agregaron {count} copias",
+  "toast.filledCopiesDesc": "Las copias de {name} llenan ahora el espacio libre de esta hoja.",
+  "toast.fillNoRoom": "No queda espacio",
+  "toast.fillNoRoomDesc": "No hay espacio libre en esta hoja para otra copia.",
   "toast.autoArranged": "Auto-organizado",
   "toast.autoArrangedDesc": "Los diseños se rotaron para un ajuste óptimo.",
   "toast.arrangeUnavailable": "Organización de selección no disponible",
   "toast.arrangeUnavailableDesc": "Por favor recarga la página e intenta de nuevo.",
+  "toast.arrangeFailed": "Falló la organización automática",
+  "toast.arrangeFailedDesc": "No se pudo trazar el contorno de un diseño. Inténtalo de nuevo o desactiva el anidado y la organización en ángulo.",
   "toast.gangsheetExpanded": "Hoja expandida",
   "toast.gangsheetExpandedDesc": "La hoja se expandió a {dimensions} para ajustar tu diseño.",
   "toast.gangsheetMax": "Hoja expandida al máximo",
   "toast.gangsheetMaxDesc": "La hoja se expandió a {dimensions}. El diseño se escalará para ajustar.",
+  "toast.sheetHeightFitted": "Tamaño de hoja ajustado",
+  "toast.sheetHeightFittedDesc": "Se eligió la hoja más pequeña donde cabe todo: {dimensions}.",
+  "toast.sheetsSplit": "Repartido en {count} hojas",
+  "toast.sheetsSplitDesc": "Los diseños no cabían en una hoja, así que se repartieron en {count} hojas. La última hoja mide {dimensions}.",
   "toast.imageResized": "Imagen redimensionada",
   "toast.imageResizedDesc": "Tu imagen ({origDims}) era demasiado grande y se redujo a {fitDims}.",
   "toast.lowRes": "Advertencia de Baja Resolución",
   "toast.lowResDesc": "Esta imagen tiene aproximadamente {dpi} DPI al tamaño actual. Para la mejor calidad de impresión, recomendamos al menos 300 DPI. La imagen podría salir en baja resolución.",
   "toast.cropApplied": "Imagen recortada",
   "toast.cropAppliedDesc": "El diseño se ha recortado al área seleccionada.",
+  "toast.upscaleApplied": "Ampliación aplicada",
+  "toast.upscaleAppliedDesc": "El diseño ahora mide {width} × {height} px.",
   "toast.gangsheetDetected": "Hoja detectada",
   "toast.gangsheetDetectedDesc": "La imagen coincide con el tamaño del artboard — usando a tamaño completo. Agrega más diseños encima.",
   "toast.imageTooLarge": "Imagen demasiado grande",
@@ -144,7 +208,11 @@ export const es: Record<string, string> = {
   "toast.pdfFailed": "Error al leer PDF",
   "toast.pdfFailedDesc": "No se pudo leer el archivo. Por favor intenta con otro PDF.",
   "toast.pdfFailedShort": "No se pudo leer este archivo.",
-  "toast.formatOnly": "Solo PNG, JPEG, WebP o PDF.",
+  "toast.aiFailedDesc": "Los archivos de Illustrator deben guardarse con \"Crear archivo compatible con PDF\" activado.",
+  "toast.epsFailedDesc": "No se pudo convertir el archivo EPS. Intenta exportarlo como PDF.",
+  "toast.svgFailed": "Error al leer SVG",
+  "toast.svgFailedDesc": "No se pudo leer el SVG. Asegúrate de que tenga ancho y alto o un viewBox.",
+  "toast.formatOnly": "Solo PNG, JPEG, WebP, SVG, PDF, AI o EPS.",
   "toast.failedLoadFile": "No se pudo cargar {name}.",
   "toast.alphaFailed": "Error en umbral de transparencia",
   "toast.alphaFailedDesc": "No se pudieron procesar las imágenes.",
@@ -156,9 +224,68 @@ export const es: Record<string, string> = {
   "toast.noDesigns": "No hay diseños en la hoja",
   "toast.noDesignsDesc": "Sube una imagen primero.",
   "toast.largeSheet": "Hoja grande detectada",
-  "toast.largeSheetDesc": "Exportando a {dpi} DPI (actualiza el navegador para 300 DPI completos).",
+  "toast.largeSheetDesc": "Exportando a {dpi} DPI (actualiza el navegador para {target} DPI completos).",
+  "toast.iccInvalid": "Perfil ICC no válido",
+  "toast.tiffUnsupported": "La exportación TIFF no es compatible con este navegador. Descarga un PNG.",
+  "toast.serverRender": "Renderizando en el servidor",
+  "toast.serverRenderDesc": "Generando tu hoja completa a {dpi} DPI… {percent}%",
   "toast.downloadFailed": "Error en descarga",
   "toast.downloadFailedDesc": "Por favor intenta de nuevo.",
+  "toast.projectSaved": "Proyecto guardado",
+  "toast.projectSavedDesc": "\"{name}\" se guardó.",
+  "toast.projectSaveFailed": "No se pudo guardar el proyecto",
+  "toast.projectLoaded": "Proyecto abierto",
+  "toast.projectLoadedDesc": "\"{name}\" se cargó.",
+  "toast.projectLoadFailed": "No se pudo abrir el proyecto",
+  "toast.projectOtherProfile": "\"{name}\" se creó para otro producto; revisa el tamaño de la hoja antes de imprimir.",
+
+  "project.title": "Proyectos",
+  "project.name": "Nombre del proyecto",
+  "project.namePlaceholder": "Mi hoja",
+  "project.save": "Guardar",
+  "project.saveNew": "Guardar proyecto",
+  "project.saveAsNew": "Guardar como nuevo",
+  "project.saved": "Proyectos guardados",
+  "project.none": "Aún no hay proyectos guardados.",
+  "project.open": "Abrir proyecto",
+  "project.openSaved": "Abrir un proyecto guardado",
+  "project.delete": "Eliminar proyecto",
+  "project.close": "Cerrar",
+  "project.loadFailed": "No se pudieron cargar los proyectos.",
+  "project.deleteFailed": "No se pudo eliminar el proyecto.",
+  "project.exportFile": ".gangsheet",
+  "project.exportFileTitle": "Descargar este diseño como archivo .gangsheet portátil",
+
+  "pdfPages.title": "Elegir páginas",
+  "pdfPages.subtitle": "{name} · {count} páginas",
+  "pdfPages.page": "Página {page}",
+  "pdfPages.selectAll": "Seleccionar todo",
+  "pdfPages.selectNone": "No seleccionar ninguna",
+  "pdfPages.cancel": "Cancelar",
+  "pdfPages.addOne": "Agregar 1 página",
+  "pdfPages.addMany": "Agregar {count} páginas",
+
+  "lowRes.title": "Diseños de baja resolución",
+  "lowRes.confirmDesc": "Estos diseños se imprimen por debajo de {dpi} DPI a su tamaño actual y pueden verse borrosos o pixelados.",
+  "lowRes.blockedDesc": "Estos diseños se imprimen por debajo de {dpi} DPI a su tamaño actual. Hazlos más pequeños o sube archivos de mayor resolución para descargar.",
+  "lowRes.dpi": "{dpi} DPI",
+  "lowRes.layerTitle": "Aproximadamente {dpi} DPI a este tamaño",
+  "lowRes.layerUpscaleTitle": "Unos {dpi} DPI a este tamaño. Haz clic para ampliar",
+  "lowRes.cancel": "Cancelar",
+  "lowRes.close": "Cerrar",
+  "lowRes.downloadAnyway": "Descargar de todos modos",
+
+  "upscale.title": "Ampliar imagen",
+  "upscale.desc": "Amplía localmente un diseño de baja resolución. Arrastra las vistas previas o haz clic en la miniatura para revisar un detalle.",
+  "upscale.smooth": "Foto / ilustración",
+  "upscale.pixelArt": "Pixel art",
+  "upscale.sharpen": "Nitidez",
+  "upscale.before": "Antes: {width} × {height} px, {dpi} DPI",
+  "upscale.after": "Después: {width} × {height} px, {dpi} DPI",
+  "upscale.failed": "La ampliación falló",
+  "upscale.tooLarge": "Esta imagen ya es demasiado grande para ampliarla.",
+  "upscale.cancel": "Cancelar",
+  "upscale.apply": "Aplicar {factor}×",
 
   "resize.modalTitle": "Establecer tamaño del sticker",
   "resize.modalSubtitle": "lado más largo en pulgadas",
@@ -177,8 +304,17 @@ export const es: Record<string, string> = {
   "preview.reset": "Restablecer",
   "preview.move": "Mover",
   "preview.moveMode": "Modo mover — clic para seleccionar y arrastrar diseños al hacer zoom",
+  "preview.sheet": "Hoja {n}",
+  "preview.sheetOf": "Hoja {n} de {total}",
   "preview.focus": "Enfocar",
   "preview.focusTitle": "Hacer zoom de cerca al diseño seleccionado",
+  "preview.rulers": "Reglas",
+  "preview.rulersTitle": "Mostrar reglas y guías. Arrastra desde una regla para añadir una guía",
+  "preview.rulerTitle": "Arrastra sobre la mesa de trabajo para añadir una guía",
+  "preview.guideTitle": "Arrastra para mover. Arrástrala a una regla para eliminarla",
+  "preview.guideRemove": "Eliminar guía",
+  "preview.measure": "Medir",
+  "preview.measureTitle": "Mide distancia y ángulo. Arrastra sobre la mesa de trabajo; mantén Shift para pasos de 45°",
 
   "error.title": "Algo salió mal",
   "error.desc": "Ocurrió un error inesperado. Tu trabajo podría ser recuperable.",
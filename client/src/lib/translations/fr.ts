@@ -48,6 +48,13 @@ export const fr: Record<string, string> = {
   "editor.marginAuto": "Auto",
   "editor.marginGap": "Espace entre les designs (pouces)",
   "editor.marginGapCm": "Espace entre les designs (cm)",
+  "editor.nesting": "Placement :",
+  "editor.nestingTitle": "Placer par boîte englobante ou imbriquer selon la forme du design, avec rotation par pas choisis",
+  "editor.nestingBoxes": "Boîtes",
+  "editor.nestingAngled": "Boîtes {step}°",
+  "editor.nestingShapes": "Formes {step}°",
+  "editor.autoHeight": "Hauteur auto",
+  "editor.autoHeightTitle": "L'organisation auto choisit la plus petite hauteur de feuille qui contient tous les designs et ajoute des feuilles si une ne suffit pas",
   "editor.widthTitle": "Largeur (pouces)",
   "editor.widthTitleCm": "Largeur (cm)",
   "editor.heightTitle": "Hauteur (pouces)",
@@ -60,9 +67,39 @@ export const fr: Record<string, string> = {
   "editor.alignTR": "Aligner Haut Droite",
   "editor.alignBL": "Aligner Bas Gauche",
   "editor.alignBR": "Aligner Bas Droite",
+  "editor.align": "Aligner",
+  "editor.alignToSelection": "Sélection",
+  "editor.alignToArtboard": "Plan de travail",
+  "editor.alignLeft": "Aligner à Gauche",
+  "editor.alignCenter": "Aligner les Centres Horizontaux",
+  "editor.alignRight": "Aligner à Droite",
+  "editor.alignTop": "Aligner en Haut",
+  "editor.alignMiddle": "Aligner les Centres Verticaux",
+  "editor.alignBottom": "Aligner en Bas",
+  "editor.distribute": "Répartir et Compacter",
+  "editor.distributeGapsH": "Répartir l'Espacement Horizontal",
+  "editor.distributeCentersH": "Répartir les Centres Horizontaux",
+  "editor.distributeGapsV": "Répartir l'Espacement Vertical",
+  "editor.distributeCentersV": "Répartir les Centres Verticaux",
+  "editor.packH": "Compacter Horizontalement à l'Espacement",
+  "editor.packV": "Compacter Verticalement à l'Espacement",
+  "editor.group": "Grouper",
+  "editor.ungroup": "Dissocier",
+  "editor.groupName": "Groupe {n}",
+  "editor.expandGroup": "Développer le groupe",
+  "editor.collapseGroup": "Réduire le groupe",
+  "editor.bringToFront": "Mettre au premier plan",
+  "editor.bringForward": "Avancer",
+  "editor.sendBackward": "Reculer",
+  "editor.sendToBack": "Mettre à l'arrière-plan",
+  "editor.lock": "Verrouiller",
+  "editor.unlock": "Déverrouiller",
+  "editor.hide": "Masquer",
+  "editor.show": "Afficher",
   "editor.duplicate": "Dupliquer (Ctrl+D)",
   "editor.delete": "Supprimer (Suppr)",
   "editor.cleanAlpha": "Nettoyer Alpha",
+  "editor.upscale": "Agrandir…",
   "editor.cleanAlphaTitle": "Supprimer les semi-transparences des designs sélectionnés",
   "editor.crop": "Recadrer",
   "editor.cropTitle": "Recadrer l'image",
@@ -77,7 +114,17 @@ export const fr: Record<string, string> = {
   "editor.deselect": "Désélectionner",
   "editor.removeOne": "Supprimer une copie",
   "editor.addOneMore": "Ajouter une copie",
+  "editor.quantityTitle": "Quantité : nombre de copies de ce design",
+  "editor.fillRemaining": "Remplir l'espace restant",
   "editor.resized": "(redimensionné)",
+  "editor.cutline": "Ligne de coupe",
+  "editor.cutlineTitle": "Afficher ou masquer un contour de coupe autour des designs sélectionnés",
+  "editor.cutlineOffset": "Décalage de la ligne de coupe par rapport au design",
+  "editor.cutlineMode": "Forme de la ligne de coupe",
+  "editor.cutlineSmooth": "Nette",
+  "editor.cutlineScattered": "Arrondie",
+  "editor.cutlineAlgorithm": "Algorithme de la ligne de découpe",
+  "editor.cutlineAlgorithmDefault": "Standard",
 
   "upload.makeGangsheet": "Créer une Feuille de Designs",
   "upload.preferredFormat": "Format préféré",
@@ -91,6 +138,11 @@ export const fr: Record<string, string> = {
   "controls.uploadFirst": "Téléchargez une image d'abord",
   "controls.recommended": "Recommandé",
   "controls.currentBounds": "limites actuelles",
+  "controls.exportDpi": "Résolution d'impression",
+  "controls.iccAttach": "+ profil ICC",
+  "controls.iccProfileTitle": "Profil ICC intégré à l'export PNG",
+  "controls.iccRemove": "Retirer le profil ICC",
+  "controls.rasterFormatTitle": "Format du fichier de sortie",
 
   "controls.fluorColors": "Couleurs Fluorescentes",
   "controls.assigned": "{count} assigné(s)",
@@ -110,7 +162,7 @@ export const fr: Record<string, string> = {
   "controls.fluorGreen": "Vert Fluorescent",
 
   "toast.unsupportedFormat": "Format non supporté",
-  "toast.unsupportedFormatDesc": "Veuillez télécharger un fichier PNG, JPEG, WebP ou PDF.",
+  "toast.unsupportedFormatDesc": "Veuillez télécharger un fichier PNG, JPEG, WebP, SVG, PDF, AI ou EPS.",
   "toast.solidBg": "Fond solide détecté",
   "toast.solidBgDesc": "Cette image n'a pas de fond transparent. Pour de meilleurs résultats, supprimez d'abord le fond.",
   "toast.failedLoad": "Échec du chargement de l'image",
@@ -119,20 +171,32 @@ export const fr: Record<string, string> = {
   "toast.copiedPlural": "{count} designs copiés",
   "toast.noSpace": "Pas d'espace pour organiser",
   "toast.noSpaceDesc": "Le duplicata a été placé à côté du sélectionné. Agrandissez la feuille ou déplacez les designs.",
+  "toast.filledCopies": "{count} copies ajoutées",
+  "toast.filledCopiesDesc": "Les copies de {name} remplissent maintenant l'espace libre de cette feuille.",
+  "toast.fillNoRoom": "Plus de place",
+  "toast.fillNoRoomDesc": "Il n'y a plus d'espace libre sur cette feuille pour une autre copie.",
   "toast.autoArranged": "Auto-organisé",
   "toast.autoArrangedDesc": "Les designs ont été tournés pour un ajustement optimal.",
   "toast.arrangeUnavailable": "Organisation de la sélection indisponible",
   "toast.arrangeUnavailableDesc": "Veuillez rafraîchir la page et réessayer.",
+  "toast.arrangeFailed": "Échec de l'organisation automatique",
+  "toast.arrangeFailedDesc": "Le contour d'un design n'a pas pu être tracé. Réessayez ou désactivez l'imbrication et l'organisation en angle.",
   "toast.gangsheetExpanded": "Feuille agrandie",
   "toast.gangsheetExpandedDesc": "La feuille a été agrandie à {dimensions} pour votre design.",
   "toast.gangsheetMax": "Feuille agrandie au maximum",
   "toast.gangsheetMaxDesc": "Feuille agrandie à {dimensions}. Le design sera mis à l'échelle.",
+  "toast.sheetHeightFitted": "Taille de feuille ajustée",
+  "toast.sheetHeightFittedDesc": "La plus petite feuille qui contient tout a été choisie : {dimensions}.",
+  "toast.sheetsSplit": "Réparti sur {count} feuilles",
+  "toast.sheetsSplitDesc": "Les designs ne tenaient pas sur une feuille ; ils ont été répartis sur {count} feuilles. La dernière mesure {dimensions}.",
   "toast.imageResized": "Image redimensionnée",
   "toast.imageResizedDesc": "Votre image ({origDims}) était trop grande et a été réduite à {fitDims}.",
   "toast.lowRes": "Avertissement Basse Résolution",
   "toast.lowResDesc": "Cette image est d'environ {dpi} DPI à cette taille. Pour la meilleure qualité d'impression, nous recommandons au moins 300 DPI. L'image pourrait être de basse résolution.",
   "toast.cropApplied": "Image recadrée",
   "toast.cropAppliedDesc": "La zone sélectionnée a été recadrée.",
+  "toast.upscaleApplied": "Agrandissement appliqué",
+  "toast.upscaleAppliedDesc": "Le design mesure maintenant {width} × {height} px.",
   "toast.gangsheetDetected": "Feuille détectée",
   "toast.gangsheetDetectedDesc": "L'image correspond à la taille de l'artboard — utilisation à taille réelle. Ajoutez d'autres designs par-dessus.",
   "toast.imageTooLarge": "Image trop grande",
@@ -144,7 +208,11 @@ export const fr: Record<string, string> = {
   "toast.pdfFailed": "Échec de lecture du PDF",
   "toast.pdfFailedDesc": "Le fichier n'a pas pu être lu. Veuillez essayer un autre PDF.",
   "toast.pdfFailedShort": "Ce fichier n'a pas pu être lu.",
-  "toast.formatOnly": "PNG, JPEG, WebP ou PDF uniquement.",
+  "toast.aiFailedDesc": "Les fichiers Illustrator doivent être enregistrés avec « Créer un fichier compatible PDF » activé.",
+  "toast.epsFailedDesc": "Le fichier EPS n'a pas pu être converti. Essayez de l'exporter en PDF.",
+  "toast.svgFailed": "Échec de lecture du SVG",
+  "toast.svgFailedDesc": "Le SVG n'a pas pu être lu. Vérifiez qu'il a une largeur et une hauteur ou une viewBox.",
+  "toast.formatOnly": "PNG, JPEG, WebP, SVG, PDF, AI ou EPS uniquement.",
   "toast.failedLoadFile": "Impossible de charger {name}.",
   "toast.alphaFailed": "Échec du seuil de transparence",
   "toast.alphaFailedDesc": "Impossible de traiter les images.",
@@ -156,9 +224,68 @@ export const fr: Record<string, string> = {
   "toast.noDesigns": "Aucun design sur la feuille",
   "toast.noDesignsDesc": "Téléchargez une image d'abord.",
   "toast.largeSheet": "Grande feuille détectée",
-  "toast.largeSheetDesc": "Export à {dpi} DPI (mettez à jour votre navigateur pour 300 DPI complets).",
+  "toast.largeSheetDesc": "Export à {dpi} DPI (mettez à jour votre navigateur pour {target} DPI complets).",
+  "toast.iccInvalid": "Profil ICC invalide",
+  "toast.tiffUnsupported": "L'export TIFF n'est pas pris en charge par ce navigateur. Téléchargez un PNG.",
+  "toast.serverRender": "Rendu sur le serveur",
+  "toast.serverRenderDesc": "Création de votre feuille complète à {dpi} DPI… {percent} %",
   "toast.downloadFailed": "Échec du téléchargement",
   "toast.downloadFailedDesc": "Veuillez réessayer.",
+  "toast.projectSaved": "Projet enregistré",
+  "toast.projectSavedDesc": "« {name} » a été enregistré.",
+  "toast.projectSaveFailed": "Impossible d'enregistrer le projet",
+  "toast.projectLoaded": "Projet ouvert",
+  "toast.projectLoadedDesc": "« {name} » a été chargé.",
+  "toast.projectLoadFailed": "Impossible d'ouvrir le projet",
+  "toast.projectOtherProfile": "« {name} » a été créé pour un autre produit ; vérifiez la taille de la planche avant d'imprimer.",
+
+  "project.title": "Projets",
+  "project.name": "Nom du projet",
+  "project.namePlaceholder": "Ma planche",
+  "project.save": "Enregistrer",
+  "project.saveNew": "Enregistrer le projet",
+  "project.saveAsNew": "Enregistrer comme nouveau",
+  "project.saved": "Projets enregistrés",
+  "project.none": "Aucun projet enregistré.",
+  "project.open": "Ouvrir le projet",
+  "project.openSaved": "Ouvrir un projet enregistré",
+  "project.delete": "Supprimer le projet",
+  "project.close": "Fermer",
+  "project.loadFailed": "Impossible de charger les projets.",
+  "project.deleteFailed": "Impossible de supprimer le projet.",
+  "project.exportFile": ".gangsheet",
+  "project.exportFileTitle": "Télécharger cette mise en page en fichier .gangsheet portable",
+
+  "pdfPages.title": "Choisir les pages",
+  "pdfPages.subtitle": "{name} · {count} pages",
+  "pdfPages.page": "Page {page}",
+  "pdfPages.selectAll": "Tout sélectionner",
+  "pdfPages.selectNone": "Tout désélectionner",
+  "pdfPages.cancel": "Annuler",
+  "pdfPages.addOne": "Ajouter 1 page",
+  "pdfPages.addMany": "Ajouter {count} pages",
+
+  "lowRes.title": "Designs en basse résolution",
+  "lowRes.confirmDesc": "Ces designs s'impriment sous {dpi} DPI à leur taille actuelle et peuvent paraître flous ou pixelisés.",
+  "lowRes.blockedDesc": "Ces designs s'impriment sous {dpi} DPI à leur taille actuelle. Réduisez-les ou téléversez des fichiers en plus haute résolution pour télécharger.",
+  "lowRes.dpi": "{dpi} DPI",
+  "lowRes.layerTitle": "Environ {dpi} DPI à cette taille",
+  "lowRes.layerUpscaleTitle": "Environ {dpi} DPI à cette taille. Cliquez pour agrandir",
+  "lowRes.cancel": "Annuler",
+  "lowRes.close": "Fermer",
+  "lowRes.downloadAnyway": "Télécharger quand même",
+
+  "upscale.title": "Agrandir l'image",
+  "upscale.desc": "Agrandissez localement un design basse résolution. Faites glisser les aperçus ou cliquez sur la miniature pour examiner un détail.",
+  "upscale.smooth": "Photo / illustration",
+  "upscale.pixelArt": "Pixel art",
+  "upscale.sharpen": "Netteté",
+  "upscale.before": "Avant : {width} × {height} px, {dpi} DPI",
+  "upscale.after": "Après : {width} × {height} px, {dpi} DPI",
+  "upscale.failed": "L'agrandissement a échoué",
+  "upscale.tooLarge": "Cette image est déjà trop grande pour être agrandie.",
+  "upscale.cancel": "Annuler",
+  "upscale.apply": "Appliquer {factor}×",
 
   "resize.modalTitle": "Définir la taille du sticker",
   "resize.modalSubtitle": "côté le plus long en pouces",
@@ -177,8 +304,17 @@ export const fr: Record<string, string> = {
   "preview.reset": "Réinitialiser",
   "preview.move": "Déplacer",
   "preview.moveMode": "Mode déplacement — cliquez pour sélectionner et déplacer les designs en zoom",
+  "preview.sheet": "Feuille {n}",
+  "preview.sheetOf": "Feuille {n} sur {total}",
   "preview.focus": "Focus",
   "preview.focusTitle": "Zoomer de près sur le design sélectionné",
+  "preview.rulers": "Règles",
+  "preview.rulersTitle": "Afficher les règles et les repères. Faites glisser depuis une règle pour ajouter un repère",
+  "preview.rulerTitle": "Faites glisser sur le plan de travail pour ajouter un repère",
+  "preview.guideTitle": "Faites glisser pour déplacer. Ramenez-le sur une règle pour le supprimer",
+  "preview.guideRemove": "Supprimer le repère",
+  "preview.measure": "Mesurer",
+  "preview.measureTitle": "Mesurez distance et angle. Faites glisser sur le plan de travail ; maintenez Maj pour des pas de 45°",
 
   "error.title": "Une erreur est survenue",
   "error.desc": "Une erreur inattendue s'est produite. Votre travail peut encore être récupérable.",
@@ -1,4 +1,4 @@
-import { StrokeSettings } from "@/components/image-editor";
+import type { StrokeSettings } from "@/lib/cutline-types";
 
 export interface TrueContourOptions {
   strokeSettings: StrokeSettings;
@@ -1195,7 +1195,7 @@ function fillTransparentHoles(image: HTMLImageElement, threshold: number): HTMLC
       
       if (currentAlpha < threshold && !visited[pixelIdx]) {
         // Found an unvisited transparent region - flood fill to analyze it
-        const region = floodFillRegion(data, width, height, x, y, threshold, visited);
+        const region = floodFillGapRegion(data, width, height, x, y, threshold, visited);
         
         // Check if this region is an interior gap (surrounded by solid content)
         const isSurrounded = isRegionSurrounded(region, data, width, height, threshold);
@@ -1313,6 +1313,37 @@ function addTextBackground(image: HTMLImageElement, threshold: number): HTMLCanv
 
 
 
+function floodFillGapRegion(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  startX: number,
+  startY: number,
+  threshold: number,
+  visited: Uint8Array
+): ContourPoint[] {
+  const stack: ContourPoint[] = [{ x: startX, y: startY }];
+  const region: ContourPoint[] = [];
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+
+    const pixelIdx = y * width + x;
+    if (visited[pixelIdx] || data[pixelIdx * 4 + 3] >= threshold) continue;
+
+    visited[pixelIdx] = 1;
+    region.push({ x, y });
+
+    stack.push({ x: x + 1, y });
+    stack.push({ x: x - 1, y });
+    stack.push({ x, y: y + 1 });
+    stack.push({ x, y: y - 1 });
+  }
+
+  return region;
+}
+
 function isRegionSurrounded(
   region: Array<{x: number, y: number}>,
   data: Uint8ClampedArray,
@@ -2463,6 +2494,34 @@ function findHoleBoundary(
   return sortBoundaryPixels(boundary);
 }
 
+function douglasPeuckerSimplify(points: ContourPoint[], tolerance: number): ContourPoint[] {
+  if (points.length <= 2) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const A = last.y - first.y;
+  const B = first.x - last.x;
+  const C = last.x * first.y - first.x * last.y;
+  const norm = Math.sqrt(A * A + B * B) || 1;
+
+  let maxDistance = 0;
+  let maxIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = Math.abs(A * points[i].x + B * points[i].y + C) / norm;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      maxIndex = i;
+    }
+  }
+
+  if (maxDistance > tolerance) {
+    const left = douglasPeuckerSimplify(points.slice(0, maxIndex + 1), tolerance);
+    const right = douglasPeuckerSimplify(points.slice(maxIndex), tolerance);
+    return left.slice(0, -1).concat(right);
+  }
+  return [first, last];
+}
+
 function optimizeVectorPath(path: ContourPoint[]): ContourPoint[] {
   if (path.length <= 2) return path;
   
@@ -1,3 +1,6 @@
+import type { ContourMode } from "./contour-worker-manager";
+import type { CutlineAlgorithm } from "./cutline-types";
+
 export interface ImageInfo {
   file: File;
   image: HTMLImageElement;
@@ -6,6 +9,10 @@ export interface ImageInfo {
   dpi: number;
   isPDF?: boolean;
   originalPdfData?: ArrayBuffer;
+  // Page of originalPdfData the design came from; page 0 when unset.
+  pdfPageIndex?: number;
+  // Normalized SVG markup; `image` is then the vector itself and is rasterized at whatever size it is drawn.
+  svgSource?: string;
 }
 
 export interface ResizeSettings {
@@ -24,6 +31,27 @@ export interface ImageTransform {
   flipY?: boolean;
 }
 
+export interface CutlineSettings {
+  enabled: boolean;
+  offsetInches: number;
+  mode: ContourMode;
+  // Generator picked through createCutline; unset traces in the contour worker using `mode`.
+  algorithm?: CutlineAlgorithm;
+}
+
+// Contour in inches relative to the design center (unrotated, unflipped, +y down), traced at widthInches × heightInches.
+export interface CutlinePath {
+  points: Array<{ x: number; y: number }>;
+  widthInches: number;
+  heightInches: number;
+}
+
+// ICC profile embedded in PNG exports as iCCP; the name doubles as the chunk keyword.
+export interface IccProfile {
+  name: string;
+  data: Uint8Array;
+}
+
 export interface DesignItem {
   id: string;
   imageInfo: ImageInfo;
@@ -33,6 +61,17 @@ export interface DesignItem {
   name: string;
   originalDPI: number;
   alphaThresholded?: boolean;
+  cutline?: CutlineSettings;
+  // Index of the gangsheet this design sits on; omitted means the first sheet.
+  sheet?: number;
+  // Shared by a design and its linked copies; the group's size is the design's quantity.
+  copyGroup?: string;
+  // Persistent groups this design belongs to, outermost first; the outermost one moves, scales and rotates as a unit.
+  groups?: string[];
+  // Locked designs can't be selected or moved on the artboard; auto-arrange works around them.
+  locked?: boolean;
+  // Hidden designs are left out of the preview and every export.
+  hidden?: boolean;
 }
 
 export function computeLayerRect(
@@ -0,0 +1,247 @@
+export type UpscaleMethod = 'smooth' | 'pixel-art';
+
+export interface UpscaleRequest {
+  type: 'upscale';
+  requestId: number;
+  pixelBuffer: ArrayBuffer;
+  width: number;
+  height: number;
+  factor: number;
+  method: UpscaleMethod;
+  // Unsharp-mask strength for the smooth method, 0..1.
+  sharpen: number;
+  // Re-threshold alpha after resampling so designs with clean (0/255) alpha keep hard edges.
+  cleanAlpha: boolean;
+}
+
+const LANCZOS_A = 3;
+// Luma difference (0-255) below which the unsharp mask leaves a pixel alone, so flat areas and noise aren't amplified.
+const SHARPEN_THRESHOLD = 6;
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_A || x >= LANCZOS_A) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_A * Math.sin(px) * Math.sin(px / LANCZOS_A)) / (px * px);
+}
+
+interface Taps {
+  start: Int32Array;
+  count: number;
+  weights: Float32Array;
+}
+
+// Normalized Lanczos taps for every output position along one axis (edge pixels are clamped).
+function computeTaps(inSize: number, outSize: number): Taps {
+  const scale = outSize / inSize;
+  const count = LANCZOS_A * 2;
+  const start = new Int32Array(outSize);
+  const weights = new Float32Array(outSize * count);
+  for (let o = 0; o < outSize; o++) {
+    const center = (o + 0.5) / scale - 0.5;
+    const first = Math.floor(center) - LANCZOS_A + 1;
+    start[o] = first;
+    let sum = 0;
+    for (let k = 0; k < count; k++) {
+      const w = lanczos(center - (first + k));
+      weights[o * count + k] = w;
+      sum += w;
+    }
+    for (let k = 0; k < count; k++) weights[o * count + k] /= sum;
+  }
+  return { start, count, weights };
+}
+
+/**
+ * Separable Lanczos-3 on premultiplied alpha (no dark fringes around transparent edges). Rows are
+ * resampled horizontally on demand and only the window the vertical pass needs is kept.
+ */
+function resampleLanczos(src: Uint8ClampedArray, w: number, h: number, outW: number, outH: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(outW * outH * 4);
+  const xTaps = computeTaps(w, outW);
+  const yTaps = computeTaps(h, outH);
+  const rowCache = new Map<number, Float32Array>();
+
+  const horizontalRow = (y: number): Float32Array => {
+    const clamped = Math.min(h - 1, Math.max(0, y));
+    let row = rowCache.get(clamped);
+    if (row) return row;
+    row = new Float32Array(outW * 4);
+    const base = clamped * w * 4;
+    for (let o = 0; o < outW; o++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const first = xTaps.start[o];
+      for (let k = 0; k < xTaps.count; k++) {
+        const x = Math.min(w - 1, Math.max(0, first + k));
+        const weight = xTaps.weights[o * xTaps.count + k];
+        const i = base + x * 4;
+        const alpha = src[i + 3] * weight;
+        r += src[i] * alpha;
+        g += src[i + 1] * alpha;
+        b += src[i + 2] * alpha;
+        a += alpha;
+      }
+      row[o * 4] = r;
+      row[o * 4 + 1] = g;
+      row[o * 4 + 2] = b;
+      row[o * 4 + 3] = a;
+    }
+    rowCache.set(clamped, row);
+    return row;
+  };
+
+  for (let oy = 0; oy < outH; oy++) {
+    const first = yTaps.start[oy];
+    // Rows above the window are never needed again.
+    for (const key of rowCache.keys()) if (key < first) rowCache.delete(key);
+    const rows: Float32Array[] = [];
+    for (let k = 0; k < yTaps.count; k++) rows.push(horizontalRow(first + k));
+    const outBase = oy * outW * 4;
+    for (let o = 0; o < outW * 4; o += 4) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < yTaps.count; k++) {
+        const weight = yTaps.weights[oy * yTaps.count + k];
+        const row = rows[k];
+        r += row[o] * weight;
+        g += row[o + 1] * weight;
+        b += row[o + 2] * weight;
+        a += row[o + 3] * weight;
+      }
+      if (a <= 0.5) continue;
+      out[outBase + o] = r / a;
+      out[outBase + o + 1] = g / a;
+      out[outBase + o + 2] = b / a;
+      out[outBase + o + 3] = a;
+    }
+  }
+  return out;
+}
+
+/**
+ * Unsharp mask against a 3×3 binomial blur. A pixel is sharpened only where it differs from its
+ * neighbourhood by more than SHARPEN_THRESHOLD, i.e. on edges, and by an amount that grows with
+ * the edge's contrast.
+ */
+function sharpenEdges(data: Uint8ClampedArray, w: number, h: number, amount: number) {
+  if (amount <= 0 || w < 3 || h < 3) return;
+  const src = data.slice();
+  const kernel = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = (y * w + x) * 4;
+      if (src[i + 3] === 0) continue;
+      let br = 0, bg = 0, bb = 0, k = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const j = i + (dy * w + dx) * 4;
+          const weight = kernel[k++];
+          br += src[j] * weight;
+          bg += src[j + 1] * weight;
+          bb += src[j + 2] * weight;
+        }
+      }
+      const dr = src[i] - br / 16;
+      const dg = src[i + 1] - bg / 16;
+      const db = src[i + 2] - bb / 16;
+      const luma = Math.abs(0.299 * dr + 0.587 * dg + 0.114 * db);
+      if (luma < SHARPEN_THRESHOLD) continue;
+      const strength = amount * Math.min(1, (luma - SHARPEN_THRESHOLD) / SHARPEN_THRESHOLD);
+      data[i] = src[i] + dr * strength;
+      data[i + 1] = src[i + 1] + dg * strength;
+      data[i + 2] = src[i + 2] + db * strength;
+    }
+  }
+}
+
+// EPX / Scale2x: doubles each pixel into 2×2, copying a neighbour's colour where two neighbours agree on an edge.
+function scale2x(src: Uint32Array, w: number, h: number): Uint32Array {
+  const out = new Uint32Array(w * h * 4);
+  const ow = w * 2;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = src[y * w + x];
+      const a = src[Math.max(0, y - 1) * w + x];
+      const b = src[y * w + Math.min(w - 1, x + 1)];
+      const c = src[y * w + Math.max(0, x - 1)];
+      const d = src[Math.min(h - 1, y + 1) * w + x];
+      const o = y * 2 * ow + x * 2;
+      out[o] = c === a && c !== d && a !== b ? a : p;
+      out[o + 1] = a === b && a !== c && b !== d ? b : p;
+      out[o + ow] = d === c && d !== b && c !== a ? c : p;
+      out[o + ow + 1] = b === d && b !== a && d !== c ? d : p;
+    }
+  }
+  return out;
+}
+
+// Scale3x: the 3× member of the EPX family, using the full 3×3 neighbourhood.
+function scale3x(src: Uint32Array, w: number, h: number): Uint32Array {
+  const out = new Uint32Array(w * h * 9);
+  const ow = w * 3;
+  const at = (x: number, y: number) => src[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const A = at(x - 1, y - 1), B = at(x, y - 1), C = at(x + 1, y - 1);
+      const D = at(x - 1, y), E = at(x, y), F = at(x + 1, y);
+      const G = at(x - 1, y + 1), H = at(x, y + 1), I = at(x + 1, y + 1);
+      const o = y * 3 * ow + x * 3;
+      if (B !== H && D !== F) {
+        out[o] = D === B ? D : E;
+        out[o + 1] = (D === B && E !== C) || (B === F && E !== A) ? B : E;
+        out[o + 2] = B === F ? F : E;
+        out[o + ow] = (D === B && E !== G) || (D === H && E !== A) ? D : E;
+        out[o + ow + 1] = E;
+        out[o + ow + 2] = (B === F && E !== I) || (H === F && E !== C) ? F : E;
+        out[o + ow * 2] = D === H ? D : E;
+        out[o + ow * 2 + 1] = (D === H && E !== I) || (H === F && E !== G) ? H : E;
+        out[o + ow * 2 + 2] = H === F ? F : E;
+      } else {
+        for (let dy = 0; dy < 3; dy++) out.fill(E, o + dy * ow, o + dy * ow + 3);
+      }
+    }
+  }
+  return out;
+}
+
+function upscalePixelArt(src: Uint8ClampedArray, w: number, h: number, factor: number): Uint8ClampedArray {
+  let pixels = new Uint32Array(src.buffer, src.byteOffset, w * h);
+  let cw = w, ch = h;
+  if (factor === 3) {
+    pixels = scale3x(pixels, cw, ch);
+  } else {
+    // 2× and 4× (two passes).
+    for (let f = factor; f > 1; f /= 2) {
+      pixels = scale2x(pixels, cw, ch);
+      cw *= 2;
+      ch *= 2;
+    }
+  }
+  return new Uint8ClampedArray(pixels.buffer);
+}
+
+function processUpscale(req: UpscaleRequest): { data: Uint8ClampedArray; width: number; height: number } {
+  const { width: w, height: h, factor, method } = req;
+  const src = new Uint8ClampedArray(req.pixelBuffer);
+  const outW = w * factor;
+  const outH = h * factor;
+  if (method === 'pixel-art') {
+    return { data: upscalePixelArt(src, w, h, factor), width: outW, height: outH };
+  }
+  const data = resampleLanczos(src, w, h, outW, outH);
+  sharpenEdges(data, outW, outH, req.sharpen);
+  if (req.cleanAlpha) {
+    for (let i = 3; i < data.length; i += 4) data[i] = data[i] >= 128 ? 255 : 0;
+  }
+  return { data, width: outW, height: outH };
+}
+
+self.onmessage = function (e: MessageEvent) {
+  try {
+    if (e.data.type === 'upscale') {
+      const { data, width, height } = processUpscale(e.data as UpscaleRequest);
+      (self as unknown as Worker).postMessage({ type: 'result', requestId: e.data.requestId, pixelBuffer: data.buffer, width, height }, [data.buffer]);
+    }
+  } catch (err) {
+    self.postMessage({ type: 'error', requestId: e.data?.requestId, error: String(err) });
+  }
+};
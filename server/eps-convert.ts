@@ -0,0 +1,97 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+const GHOSTSCRIPT = process.env.GHOSTSCRIPT_PATH || "gs";
+const CONVERT_TIMEOUT_MS = 60_000;
+// DOS EPS files wrap the PostScript (plus a TIFF/WMF preview) behind a binary header.
+const DOS_EPS_MAGIC = 0xC6D3D0C5;
+
+export interface EpsBoundingBox {
+  llx: number;
+  lly: number;
+  urx: number;
+  ury: number;
+}
+
+type ConvertResult = { pdf: Buffer } | { error: string; status: number };
+
+// Returns the PostScript section of an EPS file, unwrapping a DOS EPS binary header if present.
+export function extractPostScript(data: Buffer): Buffer | null {
+  if (data.length >= 30 && data.readUInt32LE(0) === DOS_EPS_MAGIC) {
+    const offset = data.readUInt32LE(4);
+    const length = data.readUInt32LE(8);
+    if (offset + length > data.length) return null;
+    return data.subarray(offset, offset + length);
+  }
+  return data;
+}
+
+const BBOX_PATTERN = /^%%(HiResBoundingBox|BoundingBox):[ \t]*(-?[\d.]+)[ \t]+(-?[\d.]+)[ \t]+(-?[\d.]+)[ \t]+(-?[\d.]+)/gm;
+
+/**
+ * Reads the EPS bounding box, preferring %%HiResBoundingBox (fractional points) over %%BoundingBox.
+ * Header comments win; a box deferred with "(atend)" is taken from the trailer, i.e. the last one.
+ */
+export function parseBoundingBox(ps: string): EpsBoundingBox | null {
+  const endComments = ps.indexOf("%%EndComments");
+  const header = endComments >= 0 ? ps.slice(0, endComments) : ps.slice(0, 64 * 1024);
+
+  const pick = (text: string, fromEnd: boolean): EpsBoundingBox | null => {
+    const matches = Array.from(text.matchAll(BBOX_PATTERN));
+    const ordered = fromEnd ? matches.reverse() : matches;
+    const best = ordered.find(m => m[1] === "HiResBoundingBox") ?? ordered[0];
+    if (!best) return null;
+    const [llx, lly, urx, ury] = best.slice(2, 6).map(Number);
+    if (![llx, lly, urx, ury].every(Number.isFinite) || urx <= llx || ury <= lly) return null;
+    return { llx, lly, urx, ury };
+  };
+
+  return pick(header, false) ?? pick(ps, true);
+}
+
+// Resolves with an error result rather than rejecting, so callers can pick the HTTP status.
+function runGhostscript(args: string[]): Promise<{ error: string; status: number } | null> {
+  return new Promise((resolve) => {
+    execFile(GHOSTSCRIPT, args, { timeout: CONVERT_TIMEOUT_MS }, (error, _stdout, stderr) => {
+      if (!error) return resolve(null);
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return resolve({ error: "EPS conversion requires Ghostscript on the server", status: 501 });
+      }
+      resolve({ error: `Ghostscript failed: ${stderr.trim() || error.message}`, status: 422 });
+    });
+  });
+}
+
+/**
+ * Converts an EPS file to a one-page PDF cropped to its bounding box (the epstopdf approach:
+ * size the page to the box and shift the origin to its lower-left corner).
+ */
+export async function convertEpsToPdf(data: Buffer): Promise<ConvertResult> {
+  const ps = extractPostScript(data);
+  if (!ps) return { error: "Truncated DOS EPS file", status: 400 };
+  const bbox = parseBoundingBox(ps.toString("latin1"));
+  if (!bbox) return { error: "EPS file has no usable %%BoundingBox", status: 400 };
+
+  const width = bbox.urx - bbox.llx;
+  const height = bbox.ury - bbox.lly;
+  const prologue = `<< /PageSize [${width} ${height}] >> setpagedevice\ngsave ${-bbox.llx} ${-bbox.lly} translate\n`;
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "eps-"));
+  try {
+    const inputPath = path.join(dir, "input.ps");
+    const outputPath = path.join(dir, "output.pdf");
+    await fs.writeFile(inputPath, Buffer.concat([Buffer.from(prologue, "latin1"), ps, Buffer.from("\ngrestore\n", "latin1")]));
+    const failure = await runGhostscript([
+      "-q", "-dSAFER", "-dBATCH", "-dNOPAUSE",
+      "-sDEVICE=pdfwrite",
+      `-sOutputFile=${outputPath}`,
+      inputPath,
+    ]);
+    if (failure) return failure;
+    return { pdf: await fs.readFile(outputPath) };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
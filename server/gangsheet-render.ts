@@ -0,0 +1,290 @@
+import fs from "fs";
+import sharp from "sharp";
+import zlib from "zlib";
+import type { Writable } from "stream";
+import { finished } from "stream/promises";
+import type { RenderLayout } from "@shared/schema";
+
+const STRIP_HEIGHT = 1024;
+
+// 150" × 24" at 300 DPI is ~324M pixels; leave headroom without letting one request run for hours.
+export const MAX_RENDER_PIXELS = 800_000_000;
+// Each design is resized whole before being cut into strips; this covers one filling a 150" × 24" sheet at 300 DPI.
+export const MAX_DESIGN_PIXELS = 350_000_000;
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+// sharp's ceiling for the density vector input is rendered at.
+const MAX_SVG_DENSITY = 100_000;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = (c >>> 1) ^ (c & 1 ? 0xEDB88320 : 0);
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let c = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  data.copy(chunk, 8);
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+  return chunk;
+}
+
+export interface RenderIccProfile {
+  name: string;
+  data: Buffer;
+}
+
+// Mirrors the client export: the uploaded profile as iCCP, otherwise sRGB + gAMA (sharp composites in sRGB).
+function colorChunks(icc?: RenderIccProfile): Buffer[] {
+  if (icc) {
+    const keyword = icc.name.replace(/[^\x20-\x7e\xa1-\xff]/g, "").trim().slice(0, 79) || "ICC profile";
+    return [pngChunk("iCCP", Buffer.concat([Buffer.from(keyword, "latin1"), Buffer.from([0, 0]), zlib.deflateSync(icc.data)]))];
+  }
+  const gama = Buffer.alloc(4);
+  gama.writeUInt32BE(45455, 0);
+  return [pngChunk("sRGB", Buffer.from([0])), pngChunk("gAMA", gama)];
+}
+
+// Output pixel size of one design before rotation.
+export function designDrawSize(design: RenderLayout["designs"][number], dpi: number): { drawW: number; drawH: number } {
+  return {
+    drawW: Math.max(1, Math.round(design.widthInches * design.transform.s * dpi)),
+    drawH: Math.max(1, Math.round(design.heightInches * design.transform.s * dpi)),
+  };
+}
+
+export function renderSize(layout: RenderLayout): { outW: number; outH: number } {
+  return {
+    outW: Math.max(1, Math.round(layout.artboardWidth * layout.dpi)),
+    outH: Math.max(1, Math.round(layout.artboardHeight * layout.dpi)),
+  };
+}
+
+interface Placement {
+  key: string;
+  imageId: string;
+  drawW: number;
+  drawH: number;
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  nearest: boolean;
+  centerX: number;
+  centerY: number;
+  firstStrip: number;
+  lastStrip: number;
+}
+
+interface PreparedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// Scales, flips and rotates one design variant to its output pixels (RGBA, rotated bounding box).
+async function prepareDesign(source: Buffer, p: Placement): Promise<PreparedImage> {
+  if (p.drawW * p.drawH > MAX_DESIGN_PIXELS) {
+    throw new Error("Design is too large to render");
+  }
+  // SVG is rendered straight at (at least) the draw size rather than scaled up from its 72 DPI default.
+  const meta = await sharp(source).metadata();
+  const density = meta.format === "svg" && meta.width && meta.height
+    ? Math.min(MAX_SVG_DENSITY, 72 * Math.max(1, p.drawW / meta.width, p.drawH / meta.height))
+    : undefined;
+  const scaled = await sharp(source, density ? { density } : undefined)
+    .ensureAlpha()
+    .resize(p.drawW, p.drawH, { fit: "fill", kernel: p.nearest ? "nearest" : "lanczos3" })
+    .flop(p.flipX)
+    .flip(p.flipY)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  if (p.rotation % 360 === 0) {
+    return { data: scaled.data, width: scaled.info.width, height: scaled.info.height };
+  }
+  // sharp applies rotate() before resize() within one pipeline, so rotation runs as a second pass.
+  const rotated = await sharp(scaled.data, { raw: { width: scaled.info.width, height: scaled.info.height, channels: 4 } })
+    .rotate(p.rotation, { background: TRANSPARENT })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data: rotated.data, width: rotated.info.width, height: rotated.info.height };
+}
+
+// Copies a rectangle out of a raw RGBA buffer.
+function cropRaw(img: PreparedImage, left: number, top: number, width: number, height: number): Buffer {
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const src = ((top + y) * img.width + left) * 4;
+    img.data.copy(out, y * width * 4, src, src + width * 4);
+  }
+  return out;
+}
+
+/**
+ * Composites a gangsheet in horizontal strips and writes it to `out` as a PNG with a pHYs chunk
+ * for the layout DPI and colour tagging (see colorChunks). Only the designs crossing the current strip are held decoded, each at
+ * its full placed size, so memory is bounded by the largest designs crossing a strip (MAX_DESIGN_PIXELS each) rather than the sheet size.
+ */
+export async function renderGangsheetPng(
+  layout: RenderLayout,
+  images: Map<string, Buffer>,
+  out: Writable,
+  onProgress: (progress: number) => void,
+  iccProfile?: RenderIccProfile,
+): Promise<void> {
+  const { dpi } = layout;
+  const { outW, outH } = renderSize(layout);
+  const stripCount = Math.ceil(outH / STRIP_HEIGHT);
+
+  const placements: Placement[] = layout.designs.map(d => {
+    const t = d.transform;
+    const { drawW, drawH } = designDrawSize(d, dpi);
+    const rotation = ((t.rotation % 360) + 360) % 360;
+    const rad = (rotation * Math.PI) / 180;
+    const halfH = (drawW * Math.abs(Math.sin(rad)) + drawH * Math.abs(Math.cos(rad))) / 2 + 1;
+    const centerY = t.ny * outH;
+    const flipX = !!t.flipX, flipY = !!t.flipY, nearest = !!d.alphaThresholded;
+    return {
+      key: `${d.imageId}|${drawW}|${drawH}|${rotation}|${flipX}|${flipY}|${nearest}`,
+      imageId: d.imageId,
+      drawW, drawH, rotation, flipX, flipY, nearest,
+      centerX: t.nx * outW,
+      centerY,
+      firstStrip: Math.max(0, Math.floor((centerY - halfH) / STRIP_HEIGHT)),
+      lastStrip: Math.min(stripCount - 1, Math.floor((centerY + halfH) / STRIP_HEIGHT)),
+    };
+  }).filter(p => p.firstStrip <= p.lastStrip);
+
+  // Copies share a variant; it is released once the last strip any of them touches is written.
+  const releaseAfter = new Map<string, number>();
+  for (const p of placements) releaseAfter.set(p.key, Math.max(releaseAfter.get(p.key) ?? 0, p.lastStrip));
+  const prepared = new Map<string, Promise<PreparedImage>>();
+
+  // Rejects if the output goes away (client disconnect, file error) instead of waiting on a drain that never comes.
+  const write = (buf: Buffer) => new Promise<void>((resolve, reject) => {
+    if (out.destroyed) { reject(new Error("Output closed")); return; }
+    if (out.write(buf)) { resolve(); return; }
+    const onDrain = () => { out.off("close", onClose); resolve(); };
+    const onClose = () => { out.off("drain", onDrain); reject(new Error("Output closed")); };
+    out.once("drain", onDrain);
+    out.once("close", onClose);
+  });
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(outW, 0);
+  ihdr.writeUInt32BE(outH, 4);
+  ihdr[8] = 8;   // bit depth
+  ihdr[9] = 6;   // color type RGBA
+  const ppm = Math.round(dpi / 0.0254);
+  const phys = Buffer.alloc(9);
+  phys.writeUInt32BE(ppm, 0);
+  phys.writeUInt32BE(ppm, 4);
+  phys[8] = 1;
+  await write(Buffer.concat([
+    Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]),
+    pngChunk("IHDR", ihdr),
+    pngChunk("pHYs", phys),
+    ...colorChunks(iccProfile),
+  ]));
+
+  const deflate = zlib.createDeflate({ level: 6 });
+  let compressed: Buffer[] = [];
+  deflate.on("data", (chunk: Buffer) => compressed.push(chunk));
+  const deflated = new Promise<void>((resolve, reject) => {
+    deflate.once("end", resolve);
+    deflate.once("error", reject);
+  });
+  const flushIdat = async () => {
+    if (compressed.length === 0) return;
+    const data = Buffer.concat(compressed);
+    compressed = [];
+    await write(pngChunk("IDAT", data));
+  };
+
+  const rowBytes = outW * 4;
+  for (let strip = 0; strip < stripCount; strip++) {
+    const stripY = strip * STRIP_HEIGHT;
+    const stripH = Math.min(STRIP_HEIGHT, outH - stripY);
+
+    const overlays: sharp.OverlayOptions[] = [];
+    for (const p of placements) {
+      if (strip < p.firstStrip || strip > p.lastStrip) continue;
+      let pending = prepared.get(p.key);
+      if (!pending) {
+        pending = prepareDesign(images.get(p.imageId)!, p);
+        prepared.set(p.key, pending);
+      }
+      const img = await pending;
+      const left = Math.round(p.centerX - img.width / 2);
+      const top = Math.round(p.centerY - img.height / 2);
+      const x0 = Math.max(0, left), x1 = Math.min(outW, left + img.width);
+      const y0 = Math.max(stripY, top), y1 = Math.min(stripY + stripH, top + img.height);
+      if (x1 <= x0 || y1 <= y0) continue;
+      overlays.push({
+        input: cropRaw(img, x0 - left, y0 - top, x1 - x0, y1 - y0),
+        raw: { width: x1 - x0, height: y1 - y0, channels: 4 },
+        left: x0,
+        top: y0 - stripY,
+      });
+    }
+
+    const pixels = overlays.length === 0
+      ? Buffer.alloc(rowBytes * stripH)
+      : await sharp({ create: { width: outW, height: stripH, channels: 4, background: TRANSPARENT } })
+          .composite(overlays)
+          .raw()
+          .toBuffer();
+
+    const filtered = Buffer.alloc(stripH * (rowBytes + 1));
+    for (let r = 0; r < stripH; r++) {
+      // Filter byte stays 0 (None).
+      pixels.copy(filtered, r * (rowBytes + 1) + 1, r * rowBytes, (r + 1) * rowBytes);
+    }
+    await new Promise<void>((resolve, reject) => deflate.write(filtered, err => err ? reject(err) : resolve()));
+    await flushIdat();
+
+    for (const [key, last] of Array.from(releaseAfter)) {
+      if (last <= strip) {
+        prepared.delete(key);
+        releaseAfter.delete(key);
+      }
+    }
+    onProgress((stripY + stripH) / outH);
+  }
+
+  deflate.end();
+  await deflated;
+  await flushIdat();
+  await write(pngChunk("IEND", Buffer.alloc(0)));
+}
+
+export async function renderGangsheetToFile(
+  layout: RenderLayout,
+  images: Map<string, Buffer>,
+  outputPath: string,
+  onProgress: (progress: number) => void,
+  iccProfile?: RenderIccProfile,
+): Promise<void> {
+  const file = fs.createWriteStream(outputPath);
+  const closed = finished(file);
+  try {
+    await renderGangsheetPng(layout, images, file, onProgress, iccProfile);
+  } catch (error) {
+    file.destroy();
+    await closed.catch(() => {});
+    throw error;
+  }
+  file.end();
+  await closed;
+}
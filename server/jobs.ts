@@ -0,0 +1,159 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { JobStatus } from "@shared/schema";
+
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS ?? "", 10) || 2);
+// Queued, running and failed jobs hold their uploaded inputs in memory; past this many, new jobs are refused.
+const MAX_JOBS_WITH_INPUTS = Math.max(MAX_CONCURRENT_JOBS, parseInt(process.env.MAX_QUEUED_JOBS ?? "", 10) || 6);
+// Streamed renders run inside their request and hold their inputs until it ends, so they get their own cap.
+const MAX_STREAMING_JOBS = Math.max(1, parseInt(process.env.MAX_STREAMING_RENDERS ?? "", 10) || MAX_CONCURRENT_JOBS);
+const JOB_TTL_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export const DOWNLOADS_DIR = path.resolve(process.cwd(), "downloads");
+const JOB_OUTPUT_DIR = path.join(DOWNLOADS_DIR, "jobs");
+
+// Writes the job's result to `outputPath`, reporting progress as a fraction (0..1).
+export type JobRunner = (outputPath: string, onProgress: (fraction: number) => void) => Promise<void>;
+
+interface Job extends JobStatus {
+  // Unfinished and failed jobs keep their runner (and so their inputs) until they expire, which is what makes retry possible.
+  run?: JobRunner;
+  outputName?: string;
+  updatedAt: number;
+}
+
+const jobs = new Map<string, Job>();
+const queue: Job[] = [];
+let running = 0;
+let streaming = 0;
+
+function toStatus(job: Job): JobStatus {
+  const { id, kind, status, percent, error, downloadUrl } = job;
+  return { id, kind, status, percent, ...(error ? { error } : {}), ...(downloadUrl ? { downloadUrl } : {}) };
+}
+
+function setProgress(job: Job, fraction: number) {
+  job.percent = Math.max(0, Math.min(100, Math.round(fraction * 100)));
+  job.updatedAt = Date.now();
+}
+
+async function runJob(job: Job) {
+  job.status = "running";
+  job.updatedAt = Date.now();
+  const outputPath = path.join(JOB_OUTPUT_DIR, job.outputName!);
+  try {
+    await fs.promises.mkdir(JOB_OUTPUT_DIR, { recursive: true });
+    await job.run!(outputPath, fraction => setProgress(job, fraction));
+    job.status = "done";
+    job.percent = 100;
+    job.run = undefined;
+    job.downloadUrl = `/downloads/jobs/${encodeURIComponent(job.outputName!)}`;
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.kind}) failed:`, error);
+    job.status = "error";
+    job.error = error instanceof Error ? error.message : "Unknown error";
+    await fs.promises.rm(outputPath, { force: true }).catch(() => {});
+  }
+  job.updatedAt = Date.now();
+}
+
+function pump() {
+  while (running < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const job = queue.shift()!;
+    running++;
+    runJob(job).finally(() => {
+      running--;
+      pump();
+    });
+  }
+}
+
+/**
+ * Queues work that outlives the request that submitted it. The result file lands under
+ * /downloads/jobs and is removed, with the job, once it has been idle for JOB_TTL_MS.
+ * Returns undefined when too many jobs are already holding inputs.
+ */
+export function submitJob(kind: string, extension: string, run: JobRunner): JobStatus | undefined {
+  if (Array.from(jobs.values()).filter(j => j.run).length >= MAX_JOBS_WITH_INPUTS) return undefined;
+  const id = randomUUID();
+  const job: Job = { id, kind, status: "queued", percent: 0, run, outputName: `${id}${extension}`, updatedAt: Date.now() };
+  jobs.set(id, job);
+  queue.push(job);
+  pump();
+  return toStatus(job);
+}
+
+export function retryJob(id: string): JobStatus | undefined {
+  const job = jobs.get(id);
+  if (!job || job.status !== "error" || !job.run) return undefined;
+  job.status = "queued";
+  job.percent = 0;
+  job.error = undefined;
+  job.updatedAt = Date.now();
+  queue.push(job);
+  pump();
+  return toStatus(job);
+}
+
+export function getJob(id: string): JobStatus | undefined {
+  const job = jobs.get(id);
+  return job ? toStatus(job) : undefined;
+}
+
+export function isJobActive(id: string): boolean {
+  const status = jobs.get(id)?.status;
+  return status === "queued" || status === "running";
+}
+
+// Registers work that runs inside a request (e.g. a streamed render) so it can be polled like a queued job.
+// Returns undefined when the id is already taken or MAX_STREAMING_JOBS are in flight.
+export function trackJob(id: string, kind: string) {
+  if (jobs.has(id) || streaming >= MAX_STREAMING_JOBS) return undefined;
+  const job: Job = { id, kind, status: "running", percent: 0, updatedAt: Date.now() };
+  jobs.set(id, job);
+  streaming++;
+  return {
+    progress: (fraction: number) => setProgress(job, fraction),
+    finish: (error?: string) => {
+      if (job.status !== "running") return;
+      streaming--;
+      job.status = error ? "error" : "done";
+      if (error) job.error = error;
+      else job.percent = 100;
+      job.updatedAt = Date.now();
+    },
+  };
+}
+
+async function sweepJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS;
+  const kept = new Set<string>();
+  for (const job of Array.from(jobs.values())) {
+    if (isJobActive(job.id) || job.updatedAt >= cutoff) {
+      if (job.outputName) kept.add(job.outputName);
+    } else {
+      jobs.delete(job.id);
+    }
+  }
+  // Also clears files left behind by a previous server process.
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(JOB_OUTPUT_DIR);
+  } catch {
+    return;
+  }
+  for (const name of entries) {
+    if (kept.has(name)) continue;
+    const file = path.join(JOB_OUTPUT_DIR, name);
+    const stat = await fs.promises.stat(file).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) await fs.promises.rm(file, { force: true }).catch(() => {});
+  }
+}
+
+export function startJobSweeper() {
+  setInterval(() => {
+    sweepJobs().catch(error => console.error("Job sweep error:", error));
+  }, SWEEP_INTERVAL_MS).unref();
+}
@@ -2,10 +2,22 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
 import sharp from "sharp";
-import path from "path";
 import express from "express";
+import { randomUUID } from "crypto";
 
 import sgMail from "@sendgrid/mail";
+import { storage } from "./storage";
+import { MAX_DESIGN_PIXELS, MAX_RENDER_PIXELS, designDrawSize, renderGangsheetPng, renderGangsheetToFile, renderSize, type RenderIccProfile } from "./gangsheet-render";
+import { convertEpsToPdf } from "./eps-convert";
+import { DOWNLOADS_DIR, getJob, retryJob, startJobSweeper, submitJob, trackJob } from "./jobs";
+import {
+  projectManifestSchema,
+  renderLayoutSchema,
+  type InsertProject,
+  type Project,
+  type ProjectSummary,
+  type RenderLayout,
+} from "@shared/schema";
 
 function escapeHtml(s: string): string {
   return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
@@ -26,8 +38,217 @@ const upload = multer({
   },
 });
 
+const EPS_TYPES = ['application/postscript', 'application/eps', 'application/x-eps', 'image/eps', 'image/x-eps'];
+
+const epsUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024,
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers often report EPS as application/octet-stream, so the extension is accepted too.
+    if (EPS_TYPES.includes(file.mimetype) || /\.eps$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only EPS files are allowed'));
+    }
+  },
+});
+
+const PROJECT_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'];
+// Multipart field carrying an optional ICC profile; every other file field is a design image keyed by id.
+const ICC_PROFILE_FIELD = "iccProfile";
+const PDF_SOURCE_TYPE = "application/pdf";
+
+const projectUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024,
+    fieldSize: 10 * 1024 * 1024,
+    files: 500,
+  },
+  fileFilter: (req, file, cb) => {
+    // Projects may also carry the source PDFs of PDF-imported designs.
+    if (PROJECT_IMAGE_TYPES.includes(file.mimetype) || file.mimetype === PDF_SOURCE_TYPE) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG, JPEG, WebP or SVG images are allowed'));
+    }
+  },
+});
+
+// Render uploads carry every design image of a sheet and are held in memory (by queued jobs, until they
+// finish), so they get their own, tighter limits than project saves.
+const MAX_RENDER_UPLOAD_FILES = 200;
+const MAX_RENDER_UPLOAD_BYTES = 256 * 1024 * 1024;
+
+const renderUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024,
+    fieldSize: 10 * 1024 * 1024,
+    files: MAX_RENDER_UPLOAD_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    // Render uploads may carry an ICC profile alongside the design images.
+    if (PROJECT_IMAGE_TYPES.includes(file.mimetype) || file.fieldname === ICC_PROFILE_FIELD) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG, JPEG, WebP or SVG images are allowed'));
+    }
+  },
+});
+
+// multer has no total-size limit, so the declared body size is checked before any of it is buffered.
+function limitRenderUpload(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const length = Number(req.headers["content-length"]);
+  if (!Number.isFinite(length)) {
+    return res.status(411).json({ error: "Content-Length is required" });
+  }
+  if (length > MAX_RENDER_UPLOAD_BYTES) {
+    return res.status(413).json({ error: "Render upload is too large" });
+  }
+  next();
+}
+
+function toProjectSummary(project: Project): ProjectSummary {
+  return {
+    id: project.id,
+    name: project.name,
+    profileId: project.profileId,
+    artboardWidth: project.artboardWidth,
+    artboardHeight: project.artboardHeight,
+    updatedAt: project.updatedAt,
+    designCount: project.designs.length,
+  };
+}
+
+function withoutImageData({ ownerId, ...project }: Project) {
+  return {
+    ...project,
+    images: project.images.map(({ data, ...meta }) => meta),
+    sources: project.sources?.map(({ data, ...meta }) => meta) ?? null,
+  };
+}
+
+// There are no user accounts: projects belong to the browser that saved them, identified by an
+// anonymous id in an http-only cookie that is issued on first use.
+const PROJECT_OWNER_COOKIE = "projectOwner";
+const PROJECT_OWNER_MAX_AGE_MS = 400 * 24 * 60 * 60 * 1000;
+
+function projectOwner(req: express.Request, res: express.Response): string {
+  const prefix = `${PROJECT_OWNER_COOKIE}=`;
+  const existing = req.headers.cookie?.split(/;\s*/).find(c => c.startsWith(prefix))?.slice(prefix.length);
+  if (existing && /^[0-9a-f-]{36}$/i.test(existing)) return existing;
+  const ownerId = randomUUID();
+  res.cookie(PROJECT_OWNER_COOKIE, ownerId, { httpOnly: true, sameSite: "lax", secure: req.secure, maxAge: PROJECT_OWNER_MAX_AGE_MS });
+  return ownerId;
+}
+
+// Saves arrive as multipart: a JSON "manifest" field plus one file per image and source PDF, named by id.
+function parseProjectUpload(req: express.Request): { project: InsertProject } | { error: string } {
+  let manifestJson: unknown;
+  try {
+    manifestJson = JSON.parse(req.body?.manifest ?? "");
+  } catch {
+    return { error: "Invalid project manifest" };
+  }
+  const parsed = projectManifestSchema.safeParse(manifestJson);
+  if (!parsed.success) {
+    return { error: "Invalid project manifest" };
+  }
+  const manifest = parsed.data;
+
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const fileById = new Map(files.map(f => [f.fieldname, f]));
+  const images = [];
+  for (const meta of manifest.images) {
+    const file = fileById.get(meta.id);
+    if (!file || !PROJECT_IMAGE_TYPES.includes(file.mimetype)) {
+      return { error: `Missing image data for ${meta.id}` };
+    }
+    images.push({ ...meta, mimeType: file.mimetype, data: file.buffer.toString("base64") });
+  }
+  const sources = [];
+  for (const meta of manifest.sources ?? []) {
+    const file = fileById.get(meta.id);
+    if (!file || file.mimetype !== PDF_SOURCE_TYPE) {
+      return { error: `Missing source data for ${meta.id}` };
+    }
+    sources.push({ ...meta, data: file.buffer.toString("base64") });
+  }
+
+  const imageIds = new Set(images.map(img => img.id));
+  if (manifest.designs.some(d => !imageIds.has(d.imageId))) {
+    return { error: "Design references an unknown image" };
+  }
+  const sourceIds = new Set(sources.map(src => src.id));
+  if (images.some(img => img.sourceId && !sourceIds.has(img.sourceId))) {
+    return { error: "Image references an unknown source" };
+  }
+
+  return { project: { ...manifest, images, sources: sources.length > 0 ? sources : null } };
+}
+
+// Renders arrive like project saves: a JSON "layout" field plus one file per image, named by image id.
+interface RenderUpload {
+  layout: RenderLayout;
+  images: Map<string, Buffer>;
+  iccProfile?: RenderIccProfile;
+}
+
+function parseRenderUpload(req: express.Request): RenderUpload | { error: string } {
+  let layoutJson: unknown;
+  try {
+    layoutJson = JSON.parse(req.body?.layout ?? "");
+  } catch {
+    return { error: "Invalid gangsheet layout" };
+  }
+  const parsed = renderLayoutSchema.safeParse(layoutJson);
+  if (!parsed.success) {
+    return { error: "Invalid gangsheet layout" };
+  }
+  const layout = parsed.data;
+
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  const iccFile = files.find(f => f.fieldname === ICC_PROFILE_FIELD);
+  if (iccFile && (iccFile.buffer.length < 128 || iccFile.buffer.toString("latin1", 36, 40) !== "acsp")) {
+    return { error: "Invalid ICC profile" };
+  }
+  const iccProfile = iccFile
+    ? { name: iccFile.originalname.replace(/\.(icc|icm)$/i, ""), data: iccFile.buffer }
+    : undefined;
+  const images = new Map(files.filter(f => f !== iccFile).map(f => [f.fieldname, f.buffer]));
+  if (layout.designs.some(d => !images.has(d.imageId))) {
+    return { error: "Design references an unknown image" };
+  }
+
+  const { outW, outH } = renderSize(layout);
+  if (outW * outH > MAX_RENDER_PIXELS) {
+    return { error: "Requested output dimensions are too large" };
+  }
+  if (layout.designs.some(d => {
+    const { drawW, drawH } = designDrawSize(d, layout.dpi);
+    return drawW * drawH > MAX_DESIGN_PIXELS;
+  })) {
+    return { error: "A design is too large to render" };
+  }
+  return { layout, images, iccProfile };
+}
+
+// Clients pick the render job id up front so they can poll progress while the response streams.
+function parseJobId(raw: unknown): string | null {
+  return typeof raw === "string" && /^[A-Za-z0-9-]{8,64}$/.test(raw) ? raw : null;
+}
+
+function parseProjectId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  app.use("/downloads", express.static(path.resolve(process.cwd(), "downloads")));
+  app.use("/downloads", express.static(DOWNLOADS_DIR));
+  startJobSweeper();
 
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -138,6 +359,258 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // EPS can't be read by pdf.js in the browser, so it is converted to a PDF cropped to its bounding box.
+  app.post("/api/convert-eps", epsUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No EPS file provided" });
+      }
+
+      const result = await convertEpsToPdf(req.file.buffer);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.set('Content-Type', 'application/pdf');
+      res.send(result.pdf);
+    } catch (error) {
+      console.error("EPS conversion error:", error);
+      res.status(500).json({
+        error: "Failed to convert EPS file",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const projects = await storage.listProjects(projectOwner(req, res));
+      res.json(projects.map(toProjectSummary));
+    } catch (error) {
+      console.error("Project list error:", error);
+      res.status(500).json({
+        error: "Failed to list projects",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res) => {
+    try {
+      const id = parseProjectId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid project id" });
+      }
+      const project = await storage.getProject(id, projectOwner(req, res));
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(withoutImageData(project));
+    } catch (error) {
+      console.error("Project load error:", error);
+      res.status(500).json({
+        error: "Failed to load project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/projects/:id/images/:imageId", async (req, res) => {
+    try {
+      const id = parseProjectId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid project id" });
+      }
+      const project = await storage.getProject(id, projectOwner(req, res));
+      const image = project?.images.find(img => img.id === req.params.imageId);
+      if (!image) {
+        return res.status(404).json({ error: "Image not found" });
+      }
+      const buffer = Buffer.from(image.data, "base64");
+      res.set({
+        'Content-Type': image.mimeType,
+        'Content-Length': buffer.length.toString(),
+        // Uploaded SVG can carry script; it must never run if the URL is opened directly.
+        ...(image.mimeType === 'image/svg+xml' ? { 'Content-Security-Policy': "sandbox; default-src 'none'; style-src 'unsafe-inline'" } : {}),
+      });
+      res.send(buffer);
+    } catch (error) {
+      console.error("Project image error:", error);
+      res.status(500).json({
+        error: "Failed to load project image",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/projects/:id/sources/:sourceId", async (req, res) => {
+    try {
+      const id = parseProjectId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid project id" });
+      }
+      const project = await storage.getProject(id, projectOwner(req, res));
+      const source = project?.sources?.find(src => src.id === req.params.sourceId);
+      if (!source) {
+        return res.status(404).json({ error: "Source not found" });
+      }
+      const buffer = Buffer.from(source.data, "base64");
+      res.set({
+        'Content-Type': source.mimeType,
+        'Content-Length': buffer.length.toString(),
+        'Content-Disposition': 'attachment',
+      });
+      res.send(buffer);
+    } catch (error) {
+      console.error("Project source error:", error);
+      res.status(500).json({
+        error: "Failed to load project source",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/projects", projectUpload.any(), async (req, res) => {
+    try {
+      const result = parseProjectUpload(req);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      const project = await storage.createProject(result.project, projectOwner(req, res));
+      res.status(201).json(toProjectSummary(project));
+    } catch (error) {
+      console.error("Project save error:", error);
+      res.status(500).json({
+        error: "Failed to save project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/projects/:id", projectUpload.any(), async (req, res) => {
+    try {
+      const id = parseProjectId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid project id" });
+      }
+      const result = parseProjectUpload(req);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      const project = await storage.updateProject(id, projectOwner(req, res), result.project);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json(toProjectSummary(project));
+    } catch (error) {
+      console.error("Project save error:", error);
+      res.status(500).json({
+        error: "Failed to save project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      const id = parseProjectId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: "Invalid project id" });
+      }
+      const deleted = await storage.deleteProject(id, projectOwner(req, res));
+      if (!deleted) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Project delete error:", error);
+      res.status(500).json({
+        error: "Failed to delete project",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/render-gangsheet", limitRenderUpload, renderUpload.any(), async (req, res) => {
+    const jobId = parseJobId(req.body?.jobId) ?? randomUUID();
+    let job: ReturnType<typeof trackJob> | undefined;
+    try {
+      const result = parseRenderUpload(req);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      // Ids are never reused: a finished or failed job keeps its status until it expires.
+      if (getJob(jobId)) {
+        return res.status(409).json({ error: "Render job id already in use" });
+      }
+
+      job = trackJob(jobId, "render-gangsheet");
+      if (!job) {
+        return res.status(503).json({ error: "Too many render jobs in progress, try again shortly" });
+      }
+      res.set({
+        'Content-Type': 'image/png',
+        'Content-Disposition': 'attachment; filename="gangsheet.png"',
+        'X-Render-Job': jobId,
+      });
+      await renderGangsheetPng(result.layout, result.images, res, job.progress, result.iccProfile);
+      res.end();
+      job.finish();
+    } catch (error) {
+      console.error("Gangsheet render error:", error);
+      job?.finish(error instanceof Error ? error.message : "Unknown error");
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(500).json({
+        error: "Failed to render gangsheet",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Queued variant: returns a job id immediately; the PNG is fetched from the job's downloadUrl once done.
+  app.post("/api/jobs/render-gangsheet", limitRenderUpload, renderUpload.any(), async (req, res) => {
+    try {
+      const result = parseRenderUpload(req);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      const { layout, images, iccProfile } = result;
+      const job = submitJob("render-gangsheet", ".png", (outputPath, onProgress) =>
+        renderGangsheetToFile(layout, images, outputPath, onProgress, iccProfile));
+      if (!job) {
+        return res.status(503).json({ error: "Too many render jobs in progress, try again shortly" });
+      }
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Job submit error:", error);
+      res.status(500).json({
+        error: "Failed to submit job",
+        details: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    res.json(job);
+  });
+
+  app.post("/api/jobs/:id/retry", (req, res) => {
+    if (!getJob(req.params.id)) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+    const job = retryJob(req.params.id);
+    if (!job) {
+      return res.status(409).json({ error: "Only failed jobs can be retried" });
+    }
+    res.status(202).json(job);
+  });
+
   app.post("/api/send-design", upload.none(), async (req, res) => {
     try {
       const { customerName, customerEmail, customerNotes, pdfData, fileName } = req.body;
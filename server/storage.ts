@@ -1,4 +1,4 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { users, type User, type InsertUser, type Project, type InsertProject } from "@shared/schema";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -7,15 +7,24 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  listProjects(ownerId: string): Promise<Project[]>;
+  getProject(id: number, ownerId: string): Promise<Project | undefined>;
+  createProject(project: InsertProject, ownerId: string): Promise<Project>;
+  updateProject(id: number, ownerId: string, project: InsertProject): Promise<Project | undefined>;
+  deleteProject(id: number, ownerId: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private projects: Map<number, Project>;
   currentId: number;
+  currentProjectId: number;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
     this.currentId = 1;
+    this.currentProjectId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -34,6 +43,56 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async listProjects(ownerId: string): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(p => p.ownerId === ownerId).sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+    );
+  }
+
+  async getProject(id: number, ownerId: string): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    return project?.ownerId === ownerId ? project : undefined;
+  }
+
+  async createProject(insertProject: InsertProject, ownerId: string): Promise<Project> {
+    const id = this.currentProjectId++;
+    const now = new Date();
+    const project: Project = {
+      ...insertProject,
+      designGap: insertProject.designGap ?? null,
+      sheetHeights: insertProject.sheetHeights ?? null,
+      guides: insertProject.guides ?? null,
+      sources: insertProject.sources ?? null,
+      id,
+      ownerId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProject(id: number, ownerId: string, insertProject: InsertProject): Promise<Project | undefined> {
+    const existing = await this.getProject(id, ownerId);
+    if (!existing) return undefined;
+    const project: Project = {
+      ...existing,
+      ...insertProject,
+      designGap: insertProject.designGap ?? null,
+      sheetHeights: insertProject.sheetHeights ?? null,
+      guides: insertProject.guides ?? null,
+      sources: insertProject.sources ?? null,
+      updatedAt: new Date(),
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async deleteProject(id: number, ownerId: string): Promise<boolean> {
+    if (!(await this.getProject(id, ownerId))) return false;
+    return this.projects.delete(id);
+  }
 }
 
 export const storage = new MemStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, real, jsonb, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,3 +15,148 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+export const imageTransformSchema = z.object({
+  nx: z.number(),
+  ny: z.number(),
+  s: z.number().positive(),
+  rotation: z.number(),
+  flipX: z.boolean().optional(),
+  flipY: z.boolean().optional(),
+});
+
+export const cutlineSettingsSchema = z.object({
+  enabled: z.boolean(),
+  offsetInches: z.number().min(0),
+  mode: z.enum(["smooth", "scattered"]),
+  algorithm: z.enum(["ctcontour", "true-contour", "minkowski", "silhouette"]).optional(),
+});
+
+export const projectDesignSchema = z.object({
+  id: z.string().min(1),
+  imageId: z.string().min(1),
+  name: z.string(),
+  transform: imageTransformSchema,
+  widthInches: z.number().positive(),
+  heightInches: z.number().positive(),
+  originalDPI: z.number().positive(),
+  alphaThresholded: z.boolean().optional(),
+  cutline: cutlineSettingsSchema.optional(),
+  sheet: z.number().int().min(0).optional(),
+  copyGroup: z.string().min(1).optional(),
+  groups: z.array(z.string().min(1)).optional(),
+  locked: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+});
+
+// A ruler guide: axis "x" is a vertical line at `pos` inches from the left, "y" a horizontal one from the top.
+export const sheetGuideSchema = z.object({
+  id: z.string().min(1),
+  axis: z.enum(["x", "y"]),
+  pos: z.number(),
+  sheet: z.number().int().min(0).optional(),
+});
+
+export type SheetGuide = z.infer<typeof sheetGuideSchema>;
+
+// Source image bytes are stored base64-encoded; several designs (copies) may share one image.
+export const projectImageSchema = z.object({
+  id: z.string().min(1),
+  fileName: z.string(),
+  mimeType: z.string(),
+  originalWidth: z.number().int().positive(),
+  originalHeight: z.number().int().positive(),
+  dpi: z.number().positive(),
+  isPDF: z.boolean().optional(),
+  // The PDF the image was rendered from (a project source) and its zero-based page, kept for vector PDF export.
+  sourceId: z.string().min(1).optional(),
+  pdfPageIndex: z.number().int().min(0).optional(),
+  data: z.string(),
+});
+
+// Original PDF bytes, base64-encoded like images; every page imported from one file shares a source.
+export const projectSourceSchema = z.object({
+  id: z.string().min(1),
+  fileName: z.string(),
+  mimeType: z.literal("application/pdf"),
+  data: z.string(),
+});
+
+export type ProjectDesign = z.infer<typeof projectDesignSchema>;
+export type ProjectImage = z.infer<typeof projectImageSchema>;
+export type ProjectImageMeta = Omit<ProjectImage, "data">;
+export type ProjectSource = z.infer<typeof projectSourceSchema>;
+export type ProjectSourceMeta = Omit<ProjectSource, "data">;
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  // Anonymous id of the browser that saved the project; projects are only listed and served to it.
+  ownerId: text("owner_id").notNull(),
+  name: text("name").notNull(),
+  profileId: text("profile_id").notNull(),
+  artboardWidth: real("artboard_width").notNull(),
+  artboardHeight: real("artboard_height").notNull(),
+  designGap: real("design_gap"),
+  // Heights of every sheet when a project spans several; artboardHeight is the first.
+  sheetHeights: jsonb("sheet_heights").$type<number[]>(),
+  guides: jsonb("guides").$type<SheetGuide[]>(),
+  designs: jsonb("designs").$type<ProjectDesign[]>().notNull(),
+  images: jsonb("images").$type<ProjectImage[]>().notNull(),
+  sources: jsonb("sources").$type<ProjectSource[]>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects)
+  .omit({ id: true, ownerId: true, createdAt: true, updatedAt: true })
+  .extend({
+    designGap: z.number().positive().nullable().optional(),
+    sheetHeights: z.array(z.number().positive()).nullable().optional(),
+    guides: z.array(sheetGuideSchema).nullable().optional(),
+    designs: z.array(projectDesignSchema),
+    images: z.array(projectImageSchema),
+    sources: z.array(projectSourceSchema).nullable().optional(),
+  });
+
+// Manifest sent alongside the multipart image files when saving a project.
+export const projectManifestSchema = insertProjectSchema.extend({
+  images: z.array(projectImageSchema.omit({ data: true })),
+  sources: z.array(projectSourceSchema.omit({ data: true })).nullable().optional(),
+});
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
+export type Project = typeof projects.$inferSelect;
+export type ProjectSummary = Pick<Project, "id" | "name" | "profileId" | "artboardWidth" | "artboardHeight" | "updatedAt"> & { designCount: number };
+
+// Layout posted to /api/render-gangsheet; image files travel alongside as multipart fields named by imageId.
+export const renderLayoutSchema = z.object({
+  artboardWidth: z.number().positive(),
+  artboardHeight: z.number().positive(),
+  dpi: z.number().int().min(72).max(1200).default(300),
+  designs: z.array(projectDesignSchema.pick({
+    imageId: true,
+    transform: true,
+    widthInches: true,
+    heightInches: true,
+    alphaThresholded: true,
+  }).extend({
+    // Bounded so a single design can't ask the server for an arbitrarily large resize.
+    transform: imageTransformSchema.extend({ s: z.number().positive().max(100) }),
+    widthInches: z.number().positive().max(1000),
+    heightInches: z.number().positive().max(1000),
+  })),
+});
+
+export type RenderLayout = z.infer<typeof renderLayoutSchema>;
+
+// Polled from /api/jobs/:id for long-running server work such as gangsheet renders.
+export interface JobStatus {
+  id: string;
+  kind: string;
+  status: "queued" | "running" | "done" | "error";
+  percent: number;
+  error?: string;
+  // Set when the job's result file is ready under /downloads.
+  downloadUrl?: string;
+}